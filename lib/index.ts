@@ -3,10 +3,15 @@
  */
 
 export * from "./osml/utils/base_config";
+export * from "./osml/utils/config_loader";
+export * from "./osml/utils/config_schema";
+export * from "./osml/utils/asset_path";
 export * from "./osml/data_intake/di_dataplane";
+export * from "./osml/data_intake/di_monitoring";
 export * from "./osml/data_intake/roles/di_lambda_role";
 export * from "./osml/model_runner/mr_monitoring";
 export * from "./osml/model_runner/mr_dataplane";
+export * from "./osml/model_runner/mr_dc_bridge";
 export * from "./osml/model_endpoint/roles/me_sm_role";
 export * from "./osml/model_endpoint/roles/me_http_role";
 export * from "./osml/model_runner/roles/mr_task_role";
@@ -17,16 +22,25 @@ export * from "./osml/osml_repository";
 export * from "./osml/model_endpoint/me_test_endpoints";
 export * from "./osml/model_endpoint/me_sm_endpoint";
 export * from "./osml/model_endpoint/me_http_endpoint";
+export * from "./osml/model_endpoint/me_endpoint_registry";
 export * from "./osml/osml_table";
 export * from "./osml/osml_topic";
 export * from "./osml/osml_vpc";
+export * from "./osml/osml_deployment";
+export * from "./osml/osml_operations_dashboard";
 export * from "./osml/osml_auth";
+export * from "./osml/osml_tls";
+export * from "./osml/osml_domain";
 export * from "./osml/osml_test_imagery";
 export * from "./osml/osml_container";
 export * from "./osml/authorizer/authorizor_function";
 export * from "./osml/osml_restapi";
 export * from "./osml/data_catalog/dc_dataplane";
+export * from "./osml/data_catalog/dc_monitoring";
 export * from "./osml/data_catalog/roles/dc_lambda_role";
 export * from "./osml/tile_server/ts_dataplane";
+export * from "./osml/tile_server/ts_monitoring";
+export * from "./osml/tile_server/ts_tile_cache";
+export * from "./osml/tile_server/ts_tile_routes";
 export * from "./osml/tile_server/roles/ts_task_role";
 export * from "./osml/utils/regional_config";
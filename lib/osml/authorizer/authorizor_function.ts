@@ -1,13 +1,27 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 import { SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import { IRole } from "aws-cdk-lib/aws-iam";
-import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import {
+  Code,
+  DockerImageFunction,
+  Function,
+  IFunction,
+  Runtime,
+  Tracing
+} from "aws-cdk-lib/aws-lambda";
 import { Construct } from "constructs";
 
-import { OSMLAuth } from "../osml_auth";
+import { OSMLJwtAuth } from "../osml_auth";
 import { OSMLVpc } from "../osml_vpc";
+import { findPackagePath, resolvePackagePath } from "../utils/asset_path";
+
+/**
+ * The authorizer code with its dependencies installed, which `npm run bundle:authorizer`
+ * builds and published packages include.
+ */
+const AUTHORIZER_BUNDLE_PATH = "dist/authorizer";
 
 /**
  * Represents the properties required to configure the OSMLAuthorizer Construct.
@@ -17,9 +31,9 @@ export interface OSMLAuthorizerProps {
   /**
    * The configuration for the authentication.
    *
-   * @type {OSMLAuth}
+   * @type {OSMLJwtAuth}
    */
-  auth: OSMLAuth;
+  auth: OSMLJwtAuth;
 
   /**
    * The name of the service
@@ -44,6 +58,12 @@ export interface OSMLAuthorizerProps {
    * The optional IAM role for the Lambda function.
    */
   lambdaRole?: IRole;
+
+  /**
+   * Whether to trace the Lambda function with X-Ray.
+   * @default false
+   */
+  tracingEnabled?: boolean;
 }
 
 /**
@@ -52,9 +72,9 @@ export interface OSMLAuthorizerProps {
 export class OSMLAuthorizer extends Construct {
   /**
    * The Lambda function used as the Authorizer.
-   * @type {Function}
+   * @type {IFunction}
    */
-  public authorizerFunction: Function;
+  public authorizerFunction: IFunction;
 
   /**
    * The ID of the security group associated with the Authorizer function.
@@ -67,15 +87,36 @@ export class OSMLAuthorizer extends Construct {
    * @param {Construct} scope - The scope/stack in which to define this construct.
    * @param {string} id - The unique id of the construct within current scope.
    * @param {OSMLAuthorizerProps} props - The properties of this construct.
+   * @throws {Error} If more than one authorizer source is set, if the "none" algorithm is allowed, or if the bundled authorizer is missing.
    */
   constructor(scope: Construct, id: string, props: OSMLAuthorizerProps) {
     super(scope, id);
+    const auth = props.auth;
+
+    const sources = [
+      auth.bundlePath,
+      auth.authorizerImage,
+      auth.authorizerFunction
+    ].filter((source) => source != undefined);
+    if (sources.length > 1) {
+      throw new Error(
+        "OSMLJwtAuth accepts only one of bundlePath, authorizerImage or authorizerFunction."
+      );
+    }
+    const algorithms = auth.algorithms ?? ["RS256"];
+    if (algorithms.some((algorithm) => algorithm.toLowerCase() === "none")) {
+      throw new Error("OSMLJwtAuth algorithms cannot include unsigned tokens.");
+    }
 
     this.securityGroupId =
       props.securityGroup ?? props.osmlVpc.vpcDefaultSecurityGroup;
-    this.authorizerFunction = new Function(this, `AuthorizerFunction${id}`, {
+    if (auth.authorizerFunction) {
+      this.authorizerFunction = auth.authorizerFunction;
+      return;
+    }
+
+    const functionProps = {
       functionName: `${props.name}-AuthorizerFunction`,
-      runtime: Runtime.PYTHON_3_11,
       vpc: props.osmlVpc.vpc,
       securityGroups: [
         SecurityGroup.fromSecurityGroupId(
@@ -86,24 +127,47 @@ export class OSMLAuthorizer extends Construct {
       ],
       vpcSubnets: props.osmlVpc.selectedSubnets,
       role: props.lambdaRole,
-      code: Code.fromAsset(
-        "lib/osml-cdk-constructs/lib/osml/authorizer/lambda",
-        {
-          bundling: {
-            image: Runtime.PYTHON_3_11.bundlingImage,
-            command: [
-              "/bin/bash",
-              "-c",
-              "pip install pyjwt requests cryptography -t /asset-output && cp -au . /asset-output"
-            ]
-          }
-        }
-      ),
-      handler: "lambda_function.lambda_handler",
+      tracing: props.tracingEnabled ? Tracing.ACTIVE : undefined,
       environment: {
-        AUTHORITY: props.auth ? props.auth.authority : "",
-        AUDIENCE: props.auth ? props.auth.audience : ""
+        AUTHORITY: auth.authority,
+        AUDIENCE: auth.audience,
+        GROUPS_CLAIM: auth.groupsClaim ?? "groups",
+        ROUTE_AUTHORIZATION: JSON.stringify(auth.routes ?? []),
+        JWKS_CACHE_TTL_SECONDS: String(auth.jwksCacheTtlSeconds ?? 300),
+        ALGORITHMS: algorithms.join(","),
+        REQUIRED_CLAIMS: (auth.requiredClaims ?? []).join(","),
+        CLOCK_SKEW_SECONDS: String(auth.clockSkewSeconds ?? 0)
       }
+    };
+
+    if (auth.authorizerImage) {
+      this.authorizerFunction = new DockerImageFunction(
+        this,
+        `AuthorizerFunction${id}`,
+        { ...functionProps, code: auth.authorizerImage }
+      );
+      return;
+    }
+
+    // Prefer a pre-built bundle, which needs neither Docker nor network access
+    const bundlePath =
+      auth.bundlePath ?? findPackagePath(AUTHORIZER_BUNDLE_PATH);
+    this.authorizerFunction = new Function(this, `AuthorizerFunction${id}`, {
+      ...functionProps,
+      runtime: Runtime.PYTHON_3_11,
+      code: bundlePath
+        ? Code.fromAsset(bundlePath)
+        : Code.fromAsset(resolvePackagePath("lib/osml/authorizer/lambda"), {
+            bundling: {
+              image: Runtime.PYTHON_3_11.bundlingImage,
+              command: [
+                "/bin/bash",
+                "-c",
+                "pip install -r requirements.txt -t /asset-output && cp -au . /asset-output"
+              ]
+            }
+          }),
+      handler: "lambda_function.lambda_handler"
     });
   }
 }
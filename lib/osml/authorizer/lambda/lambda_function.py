@@ -1,13 +1,19 @@
-# Copyright 2024 Amazon.com, Inc. or its affiliates.
+# Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
 
+import json
 import os
 import re
 import ssl
-from typing import Any, Dict, Union
+from typing import Any, Dict, List, Optional, Set, Union
 
 import jwt
 import requests
 
+# Reused across invocations of a warm function so keys are not fetched on every request
+_OIDC_METADATA: Dict[str, Dict[str, Any]] = {}
+_JWKS_CLIENTS: Dict[str, jwt.PyJWKClient] = {}
+
+
 def lambda_handler(event: Dict[str, Any], context) -> Dict[str, Any]:
     """
     Handle authorization for REST API.
@@ -32,7 +38,14 @@ def lambda_handler(event: Dict[str, Any], context) -> Dict[str, Any]:
     audience = os.environ.get("AUDIENCE", "")
 
     if jwt_data := id_token_is_valid(id_token=id_token, audience=audience, authority=authority):
-        policy = generate_policy(effect="Allow", resource=event["methodArn"], username=jwt_data["sub"])
+        # Cover the whole stage so cached decisions hold for every route the token is used on
+        stage_arn = "/".join(event["methodArn"].split("/")[:2])
+        policy = generate_policy(
+            effect="Allow",
+            resource=f"{stage_arn}/*",
+            username=jwt_data["sub"],
+            denied_resources=find_denied_resources(stage_arn=stage_arn, claims=jwt_data),
+        )
         policy["context"] = {"username": jwt_data["sub"]}
 
         print(f"Generated policy: {policy}")
@@ -43,26 +56,87 @@ def lambda_handler(event: Dict[str, Any], context) -> Dict[str, Any]:
     return generate_policy(effect="Deny", resource=event["methodArn"])
 
 
-def generate_policy(*, effect: str, resource: str, username: str = "username") -> Dict[str, Any]:
+def generate_policy(
+    *, effect: str, resource: str, username: str = "username", denied_resources: Optional[List[str]] = None
+) -> Dict[str, Any]:
     """
     Generate IAM policy.
 
     :param effect: Allow or Deny
     :param resource: ARN of the resource
     :param username: Username to add to the policy
+    :param denied_resources: ARNs of resources to explicitly deny
 
     :return: IAM policy
     """
+    statements = [{"Action": "execute-api:Invoke", "Effect": effect, "Resource": resource}]
+    if denied_resources:
+        statements.append({"Action": "execute-api:Invoke", "Effect": "Deny", "Resource": denied_resources})
     policy = {
         "principalId": username,
         "policyDocument": {
             "Version": "2012-10-17",
-            "Statement": [{"Action": "execute-api:Invoke", "Effect": effect, "Resource": resource}],
+            "Statement": statements,
         },
     }
     return policy
 
 
+def find_denied_resources(*, stage_arn: str, claims: Dict[str, Any]) -> List[str]:
+    """
+    Find the routes whose authorization rules the caller's scopes and groups do not satisfy.
+
+    :param stage_arn: ARN of the API stage
+    :param claims: Decoded JWT data
+
+    :return: ARNs of the denied routes
+    """
+    rules = json.loads(os.environ.get("ROUTE_AUTHORIZATION", "[]"))
+    scopes = get_claim_values(claims, "scope") | get_claim_values(claims, "scp")
+    groups = get_claim_values(claims, os.environ.get("GROUPS_CLAIM", "groups"))
+
+    denied_resources = []
+    for rule in rules:
+        if rule_is_satisfied(rule=rule, scopes=scopes, groups=groups):
+            continue
+        path = rule["path"].lstrip("/")
+        for method in rule.get("methods") or ["*"]:
+            denied_resources.append(f"{stage_arn}/{method.upper()}/{path}")
+    return denied_resources
+
+
+def rule_is_satisfied(*, rule: Dict[str, Any], scopes: Set[str], groups: Set[str]) -> bool:
+    """
+    Check whether a caller holds one of the scopes and one of the groups a route requires.
+
+    :param rule: Route authorization rule
+    :param scopes: The caller's scopes
+    :param groups: The caller's groups
+
+    :return: True if the caller may use the route
+    """
+    if rule.get("scopes") and not scopes.intersection(rule["scopes"]):
+        return False
+    if rule.get("groups") and not groups.intersection(rule["groups"]):
+        return False
+    return True
+
+
+def get_claim_values(claims: Dict[str, Any], claim: str) -> Set[str]:
+    """
+    Return the values of a JWT claim holding a list or a space separated string.
+
+    :param claims: Decoded JWT data
+    :param claim: Name of the claim
+
+    :return: The claim values
+    """
+    value = claims.get(claim, [])
+    if isinstance(value, str):
+        return set(value.split())
+    return set(value)
+
+
 def id_token_is_valid(*, id_token: str, audience: str, authority: str) -> Union[Dict[str, Any], bool]:
     """
     Check whether an ID token is valid and return decoded data.
@@ -76,32 +150,22 @@ def id_token_is_valid(*, id_token: str, audience: str, authority: str) -> Union[
     if not jwt.algorithms.has_crypto:
         print("No crypto support for JWT, please install the cryptography dependency")
         return False
-    print(f"{authority}/.well-known/openid-configuration")
 
-    # Here we will point to the sponsor bundle if available,
-    cert_path = os.getenv("SSL_CERT_FILE", None)
-    resp = requests.get(
-        f"{authority}/.well-known/openid-configuration",
-        verify=cert_path or True,
-        timeout=120,
-    )
-    if resp.status_code != 200:
-        print("Could not get OIDC metadata: %s", resp.content)
+    jwks_client = get_jwks_client(authority)
+    if not jwks_client:
         return False
 
-    oidc_metadata = resp.json()
+    algorithms = get_list_setting("ALGORITHMS") or ["RS256"]
+    required_claims = get_list_setting("REQUIRED_CLAIMS")
     try:
-        ctx = ssl.create_default_context()
-        if cert_path:
-            ctx.load_verify_locations(cert_path)
-        jwks_client = jwt.PyJWKClient(oidc_metadata["jwks_uri"], cache_jwk_set=True, lifespan=360, ssl_context=ctx)
         signing_key = jwks_client.get_signing_key_from_jwt(id_token)
         data: dict = jwt.decode(
             id_token,
             signing_key.key,
-            algorithms=["RS256"],
+            algorithms=algorithms,
             issuer=authority,
             audience=audience,
+            leeway=int(os.environ.get("CLOCK_SKEW_SECONDS", "0")),
             options={
                 "verify_signature": True,
                 "verify_exp": True,
@@ -109,6 +173,7 @@ def id_token_is_valid(*, id_token: str, audience: str, authority: str) -> Union[
                 "verify_iat": True,
                 "verify_aud": True,
                 "verify_iss": True,
+                "require": required_claims,
             },
         )
         return data
@@ -117,6 +182,54 @@ def id_token_is_valid(*, id_token: str, audience: str, authority: str) -> Union[
         return False
 
 
+def get_jwks_client(authority: str) -> Optional[jwt.PyJWKClient]:
+    """
+    Return a client for the authority's signing keys, fetching its OIDC metadata once.
+
+    :param authority: Authority issuing the tokens
+
+    :return: The signing key client or None if the metadata is unavailable
+    """
+    if authority in _JWKS_CLIENTS:
+        return _JWKS_CLIENTS[authority]
+
+    # Here we will point to the sponsor bundle if available,
+    cert_path = os.getenv("SSL_CERT_FILE", None)
+    if authority not in _OIDC_METADATA:
+        print(f"{authority}/.well-known/openid-configuration")
+        resp = requests.get(
+            f"{authority}/.well-known/openid-configuration",
+            verify=cert_path or True,
+            timeout=120,
+        )
+        if resp.status_code != 200:
+            print("Could not get OIDC metadata: %s", resp.content)
+            return None
+        _OIDC_METADATA[authority] = resp.json()
+
+    ctx = ssl.create_default_context()
+    if cert_path:
+        ctx.load_verify_locations(cert_path)
+    _JWKS_CLIENTS[authority] = jwt.PyJWKClient(
+        _OIDC_METADATA[authority]["jwks_uri"],
+        cache_jwk_set=True,
+        lifespan=int(os.environ.get("JWKS_CACHE_TTL_SECONDS", "300")),
+        ssl_context=ctx,
+    )
+    return _JWKS_CLIENTS[authority]
+
+
+def get_list_setting(name: str) -> List[str]:
+    """
+    Return the values of a comma separated environment variable.
+
+    :param name: Name of the environment variable
+
+    :return: The non-empty values
+    """
+    return [value.strip() for value in os.environ.get(name, "").split(",") if value.strip()]
+
+
 def get_id_token(event: dict) -> str:
     """
     Return token from event request headers.
@@ -2,7 +2,7 @@
  * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
-import { Duration, RemovalPolicy, Size } from "aws-cdk-lib";
+import { CfnOutput, Duration, RemovalPolicy, Size } from "aws-cdk-lib";
 import { LambdaIntegration } from "aws-cdk-lib/aws-apigateway";
 import { ISecurityGroup, Port, SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import { AnyPrincipal, PolicyStatement, Role } from "aws-cdk-lib/aws-iam";
@@ -20,9 +20,12 @@ import { Construct } from "constructs";
 import { OSMLAccount } from "../osml_account";
 import { OSMLAuth } from "../osml_auth";
 import { OSMLContainer } from "../osml_container";
-import { OSMLRestApi } from "../osml_restapi";
+import { OSMLDomain } from "../osml_domain";
+import { OSMLRestApi, OSMLRestApiConfig } from "../osml_restapi";
 import { OSMLVpc } from "../osml_vpc";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import { ConfigSchema } from "../utils/config_schema";
+import { DCMonitoring } from "./dc_monitoring";
 import { DCLambdaRole } from "./roles/dc_lambda_role";
 
 /**
@@ -47,6 +50,18 @@ export class DCDataplaneConfig extends BaseConfig {
    */
   public CONTAINER_BUILD_PATH: string;
 
+  /**
+   * Whether to deploy a monitoring dashboard for the data catalog.
+   * @default false
+   */
+  public DC_ENABLE_MONITORING: boolean;
+
+  /**
+   * The host name of the STAC API within the domain, if a domain is provided.
+   * @default "stac"
+   */
+  public DOMAIN_API_HOST_NAME: string;
+
   /**
    * The build target for the Data Intake ingest Lambda container Dockerfile.
    * @default "ingest"
@@ -185,6 +200,40 @@ export class DCDataplaneConfig extends BaseConfig {
    */
   public STAC_WEB_CONCURRENCY: string;
 
+  /**
+   * The schema describing the allowed DCDataplaneConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    API_SERVICE_NAME_ABBREVIATION: { type: "string" },
+    BUILD_FROM_SOURCE: { type: "boolean" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    DC_ENABLE_MONITORING: { type: "boolean" },
+    DOMAIN_API_HOST_NAME: { type: "string" },
+    INGEST_CONTAINER_BUILD_TARGET: { type: "string" },
+    INGEST_CONTAINER_DOCKERFILE: { type: "string" },
+    INGEST_CONTAINER_URI: { type: "string" },
+    LAMBDA_MEMORY_SIZE: { type: "number", integer: true, min: 128, max: 10240 },
+    LAMBDA_SECURITY_GROUP_ID: { type: "string" },
+    LAMBDA_ROLE_NAME: { type: "string" },
+    LAMBDA_STORAGE_SIZE: { type: "number", min: 0.5, max: 10 },
+    LAMBDA_TIMEOUT: { type: "number", integer: true, min: 1, max: 900 },
+    OS_DATA_NODES: { type: "number", integer: true, min: 1 },
+    SNS_INGEST_TOPIC_NAME: { type: "string" },
+    STAC_CONTAINER_DOCKERFILE: { type: "string" },
+    STAC_CONTAINER_BUILD_TARGET: { type: "string" },
+    STAC_CONTAINER_URI: { type: "string" },
+    STAC_FASTAPI_DESCRIPTION: { type: "string" },
+    STAC_FASTAPI_ROOT_PATH: { type: "string" },
+    STAC_FASTAPI_TITLE: { type: "string" },
+    STAC_FASTAPI_VERSION: { type: "string" },
+    STAC_ENVIRONMENT: { type: "string" },
+    STAC_ES_PORT: { type: "string", pattern: /^\d+$/ },
+    STAC_ES_USE_SSL: { type: "string", values: ["true", "false"] },
+    STAC_ES_VERIFY_CERTS: { type: "string", values: ["true", "false"] },
+    STAC_RELOAD: { type: "string", values: ["true", "false"] },
+    STAC_WEB_CONCURRENCY: { type: "string", pattern: /^\d+$/ }
+  };
+
   /**
    * Creates an instance of DCDataplaneConfig.
    * @param config - The configuration object for DCDataplane.
@@ -193,6 +242,8 @@ export class DCDataplaneConfig extends BaseConfig {
     super({
       API_SERVICE_NAME_ABBREVIATION: "DC",
       CONTAINER_BUILD_PATH: "lib/osml-data-intake/",
+      DC_ENABLE_MONITORING: false,
+      DOMAIN_API_HOST_NAME: "stac",
       INGEST_CONTAINER_BUILD_TARGET: "ingest",
       INGEST_CONTAINER_DOCKERFILE: "docker/Dockerfile.ingest",
       INGEST_CONTAINER_URI: "awsosml/osml-data-intake-ingest:latest",
@@ -246,6 +297,19 @@ export interface DCDataplaneProps {
    */
   auth?: OSMLAuth;
 
+  /**
+   * Custom configuration for the API created when auth is provided (optional).
+   * @type {OSMLRestApiConfig | undefined}
+   */
+  apiConfig?: OSMLRestApiConfig;
+
+  /**
+   * The hosted zone and certificate giving the STAC API a stable host name (optional).
+   * Its URL is published as a stack output.
+   * @type {OSMLDomain | undefined}
+   */
+  domain?: OSMLDomain;
+
   /**
    * Custom configuration for the DCDataplane Construct (optional).
    * @type {DCDataplaneConfig | undefined}
@@ -314,6 +378,16 @@ export class DCDataplane extends Construct {
    */
   public osDomain: Domain;
 
+  /**
+   * The STAC API, created if auth was provided for this construct.
+   */
+  public api?: OSMLRestApi;
+
+  /**
+   * The monitoring dashboard for the data catalog, if enabled.
+   */
+  public monitoring?: DCMonitoring;
+
   /**
    * Creates an instance of DCDataplane.
    * @param {Construct} scope - The scope/stack in which to define this construct.
@@ -417,15 +491,24 @@ export class DCDataplane extends Construct {
     this.osDomain.connections.allowFrom(this.stacFunction, Port.tcp(443));
 
     if (props.auth) {
-      new OSMLRestApi(this, "DCRestApi", {
+      this.api = new OSMLRestApi(this, "DCRestApi", {
         account: props.account,
         name: this.config.API_SERVICE_NAME_ABBREVIATION,
         apiStageName: this.config.STAC_FASTAPI_ROOT_PATH,
         integration: new LambdaIntegration(this.stacFunction),
         auth: props.auth,
         osmlVpc: props.osmlVpc,
-        lambdaRole: this.lambdaRole
+        lambdaRole: this.lambdaRole,
+        config: props.apiConfig,
+        domain: props.domain,
+        domainHostName: this.config.DOMAIN_API_HOST_NAME
       });
+      if (this.api.domainUrl) {
+        new CfnOutput(this, "DCApiUrl", {
+          value: this.api.domainUrl,
+          description: "The URL of the OSML Data Catalog STAC API"
+        });
+      }
     }
 
     // Create the lambda function to ingest stac items
@@ -448,6 +531,18 @@ export class DCDataplane extends Construct {
     );
 
     this.osDomain.connections.allowFrom(this.ingestFunction, Port.tcp(443));
+
+    // Build a monitoring dashboard if enabled
+    if (this.config.DC_ENABLE_MONITORING) {
+      this.monitoring = new DCMonitoring(this, "DCMonitoring", {
+        account: props.account,
+        osDomain: this.osDomain,
+        stacFunction: this.stacFunction,
+        ingestFunction: this.ingestFunction,
+        ingestTopic: this.ingestTopic,
+        dcDataplaneConfig: this.config
+      });
+    }
   }
 
   /**
@@ -0,0 +1,194 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import {
+  Dashboard,
+  GraphWidget,
+  GraphWidgetView,
+  SingleValueWidget
+} from "aws-cdk-lib/aws-cloudwatch";
+import { IFunction } from "aws-cdk-lib/aws-lambda";
+import { IDomain } from "aws-cdk-lib/aws-opensearchservice";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { DCDataplaneConfig } from "./dc_dataplane";
+
+/**
+ * Interface for DC Monitoring Props.
+ *
+ * @interface DCMonitoringProps
+ */
+export interface DCMonitoringProps {
+  /**
+   * The OSML account interface.
+   *
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The OpenSearch domain holding the STAC catalog.
+   *
+   * @type {IDomain}
+   */
+  osDomain: IDomain;
+
+  /**
+   * The Lambda function serving the STAC API.
+   *
+   * @type {IFunction}
+   */
+  stacFunction: IFunction;
+
+  /**
+   * The Lambda function ingesting STAC items.
+   *
+   * @type {IFunction}
+   */
+  ingestFunction: IFunction;
+
+  /**
+   * The SNS topic delivering STAC items to ingest.
+   *
+   * @type {ITopic}
+   */
+  ingestTopic: ITopic;
+
+  /**
+   * The data catalog dataplane configuration.
+   *
+   * @type {DCDataplaneConfig}
+   */
+  dcDataplaneConfig: DCDataplaneConfig;
+}
+
+/**
+ * Represents a DCMonitoring construct that builds a dashboard for the data catalog:
+ * OpenSearch cluster health and JVM pressure, Lambda errors, throttles and duration,
+ * and ingest topic delivery failures.
+ */
+export class DCMonitoring extends Construct {
+  /**
+   * The data catalog dashboard.
+   */
+  public dcDashboard: Dashboard;
+
+  /**
+   * Creates a new DCMonitoring construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {DCMonitoringProps} props - The properties of this construct.
+   * @returns {DCMonitoring} - The DCMonitoring construct.
+   */
+  constructor(scope: Construct, id: string, props: DCMonitoringProps) {
+    super(scope, id);
+
+    this.dcDashboard = new Dashboard(this, "OSMLDCDashboard", {
+      dashboardName: "OSML-DataCatalog"
+    });
+
+    this.dcDashboard.addWidgets(
+      new SingleValueWidget({
+        region: props.account.region,
+        title: "Cluster Status",
+        width: 6,
+        height: 6,
+        metrics: [
+          props.osDomain.metricClusterStatusRed({ label: "Red" }),
+          props.osDomain.metricClusterStatusYellow({ label: "Yellow" })
+        ]
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "OpenSearch Pressure (%)",
+        width: 9,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: [
+          props.osDomain.metricJVMMemoryPressure({ label: "JVM Memory" }),
+          props.osDomain.metricCPUUtilization({ label: "CPU" })
+        ]
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "OpenSearch Free Storage (MB)",
+        width: 9,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: [
+          props.osDomain.metricFreeStorageSpace({
+            label: "Free Storage",
+            statistic: "Minimum"
+          })
+        ]
+      })
+    );
+
+    this.dcDashboard.addWidgets(
+      ...this.lambdaWidgets(props, "STAC API", props.stacFunction),
+      ...this.lambdaWidgets(props, "Ingest", props.ingestFunction)
+    );
+
+    this.dcDashboard.addWidgets(
+      new GraphWidget({
+        region: props.account.region,
+        title: "Ingest Topic Deliveries",
+        width: 24,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        statistic: "Sum",
+        left: [
+          props.ingestTopic.metricNumberOfMessagesPublished({
+            label: "Published"
+          }),
+          props.ingestTopic.metricNumberOfNotificationsFailed({
+            label: "Failed"
+          })
+        ]
+      })
+    );
+  }
+
+  /**
+   * Builds the errors, throttles and duration widgets for a Lambda function.
+   *
+   * @param {DCMonitoringProps} props - The properties of this construct.
+   * @param {string} title - The name of the function shown in widget titles.
+   * @param {IFunction} fn - The Lambda function.
+   * @returns {GraphWidget[]} The widgets.
+   */
+  private lambdaWidgets(
+    props: DCMonitoringProps,
+    title: string,
+    fn: IFunction
+  ): GraphWidget[] {
+    return [
+      new GraphWidget({
+        region: props.account.region,
+        title: `${title} Invocations`,
+        width: 6,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        statistic: "Sum",
+        left: [
+          fn.metricInvocations({ label: "Invocations" }),
+          fn.metricErrors({ label: "Errors" }),
+          fn.metricThrottles({ label: "Throttles" })
+        ]
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: `${title} Duration (Milliseconds)`,
+        width: 6,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: ["p50", "p99"].map((statistic) =>
+          fn.metricDuration({ label: statistic, statistic: statistic })
+        )
+      })
+    ];
+  }
+}
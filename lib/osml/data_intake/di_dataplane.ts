@@ -16,6 +16,8 @@ import { OSMLBucket } from "../osml_bucket";
 import { OSMLContainer } from "../osml_container";
 import { OSMLVpc } from "../osml_vpc";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import { ConfigSchema } from "../utils/config_schema";
+import { DIMonitoring } from "./di_monitoring";
 import { DILambdaRole } from "./roles/di_lambda_role";
 
 /**
@@ -52,6 +54,12 @@ export class DIDataplaneConfig extends BaseConfig {
    */
   public CONTAINER_URI: string;
 
+  /**
+   * Whether to deploy a monitoring dashboard for data intake.
+   * @default false
+   */
+  public DI_ENABLE_MONITORING: boolean;
+
   /**
    * The name of the Lambda for the Data Intake.
    * @default "DILambda"
@@ -106,6 +114,27 @@ export class DIDataplaneConfig extends BaseConfig {
    */
   public SNS_STAC_TOPIC_NAME: string;
 
+  /**
+   * The schema describing the allowed DIDataplaneConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    BUILD_FROM_SOURCE: { type: "boolean" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    CONTAINER_BUILD_TARGET: { type: "string" },
+    CONTAINER_DOCKERFILE: { type: "string" },
+    CONTAINER_URI: { type: "string" },
+    DI_ENABLE_MONITORING: { type: "boolean" },
+    LAMBDA_FUNCTION_NAME: { type: "string" },
+    LAMBDA_MEMORY_SIZE: { type: "number", integer: true, min: 128, max: 10240 },
+    LAMBDA_ROLE_NAME: { type: "string" },
+    LAMBDA_SECURITY_GROUP_ID: { type: "string" },
+    LAMBDA_STORAGE_SIZE: { type: "number", min: 0.5, max: 10 },
+    LAMBDA_TIMEOUT: { type: "number", integer: true, min: 1, max: 900 },
+    S3_OUTPUT_BUCKET_NAME: { type: "string" },
+    SNS_INPUT_TOPIC_NAME: { type: "string" },
+    SNS_STAC_TOPIC_NAME: { type: "string" }
+  };
+
   /**
    * Constructor for DIDataplane Construct.
    * @param config - The configuration object for DIDataplane.
@@ -117,6 +146,7 @@ export class DIDataplaneConfig extends BaseConfig {
       CONTAINER_BUILD_TARGET: "intake",
       CONTAINER_DOCKERFILE: "docker/Dockerfile.intake",
       CONTAINER_URI: "awsosml/osml-data-intake-intake:latest",
+      DI_ENABLE_MONITORING: false,
       LAMBDA_FUNCTION_NAME: "DILambda",
       LAMBDA_MEMORY_SIZE: 1024,
       LAMBDA_STORAGE_SIZE: 10,
@@ -215,6 +245,11 @@ export class DIDataplane extends Construct {
    */
   public securityGroup?: ISecurityGroup;
 
+  /**
+   * The monitoring dashboard for data intake, if enabled.
+   */
+  public monitoring?: DIMonitoring;
+
   /**
    * The container for the data intake process.
    */
@@ -275,6 +310,17 @@ export class DIDataplane extends Construct {
     this.inputTopic.addSubscription(
       new LambdaSubscription(this.lambdaFunction)
     );
+
+    // Build a monitoring dashboard if enabled
+    if (this.config.DI_ENABLE_MONITORING) {
+      this.monitoring = new DIMonitoring(this, "DIMonitoring", {
+        account: props.account,
+        lambdaFunction: this.lambdaFunction,
+        inputTopic: this.inputTopic,
+        stacTopic: this.stacTopic,
+        diDataplaneConfig: this.config
+      });
+    }
   }
 
   /**
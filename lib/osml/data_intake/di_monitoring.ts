@@ -0,0 +1,133 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import {
+  Dashboard,
+  GraphWidget,
+  GraphWidgetView
+} from "aws-cdk-lib/aws-cloudwatch";
+import { IFunction } from "aws-cdk-lib/aws-lambda";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { DIDataplaneConfig } from "./di_dataplane";
+
+/**
+ * Interface for DI Monitoring Props.
+ *
+ * @interface DIMonitoringProps
+ */
+export interface DIMonitoringProps {
+  /**
+   * The OSML account interface.
+   *
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The Lambda function processing data intake requests.
+   *
+   * @type {IFunction}
+   */
+  lambdaFunction: IFunction;
+
+  /**
+   * The SNS topic delivering data intake requests.
+   *
+   * @type {ITopic}
+   */
+  inputTopic: ITopic;
+
+  /**
+   * The SNS topic publishing generated STAC items.
+   *
+   * @type {ITopic}
+   */
+  stacTopic: ITopic;
+
+  /**
+   * The data intake dataplane configuration.
+   *
+   * @type {DIDataplaneConfig}
+   */
+  diDataplaneConfig: DIDataplaneConfig;
+}
+
+/**
+ * Represents a DIMonitoring construct that builds a dashboard for data intake:
+ * Lambda errors, throttles and duration, and topic delivery failures.
+ */
+export class DIMonitoring extends Construct {
+  /**
+   * The data intake dashboard.
+   */
+  public diDashboard: Dashboard;
+
+  /**
+   * Creates a new DIMonitoring construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {DIMonitoringProps} props - The properties of this construct.
+   * @returns {DIMonitoring} - The DIMonitoring construct.
+   */
+  constructor(scope: Construct, id: string, props: DIMonitoringProps) {
+    super(scope, id);
+
+    this.diDashboard = new Dashboard(this, "OSMLDIDashboard", {
+      dashboardName: "OSML-DataIntake"
+    });
+
+    this.diDashboard.addWidgets(
+      new GraphWidget({
+        region: props.account.region,
+        title: "Intake Invocations",
+        width: 12,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        statistic: "Sum",
+        left: [
+          props.lambdaFunction.metricInvocations({ label: "Invocations" }),
+          props.lambdaFunction.metricErrors({ label: "Errors" }),
+          props.lambdaFunction.metricThrottles({ label: "Throttles" })
+        ]
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "Intake Duration (Milliseconds)",
+        width: 12,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: ["p50", "p99"].map((statistic) =>
+          props.lambdaFunction.metricDuration({
+            label: statistic,
+            statistic: statistic
+          })
+        )
+      })
+    );
+
+    this.diDashboard.addWidgets(
+      ...[
+        { title: "Input Topic Deliveries", topic: props.inputTopic },
+        { title: "STAC Topic Deliveries", topic: props.stacTopic }
+      ].map(
+        ({ title, topic }) =>
+          new GraphWidget({
+            region: props.account.region,
+            title: title,
+            width: 12,
+            height: 6,
+            view: GraphWidgetView.TIME_SERIES,
+            statistic: "Sum",
+            left: [
+              topic.metricNumberOfMessagesPublished({ label: "Published" }),
+              topic.metricNumberOfNotificationsFailed({ label: "Failed" })
+            ]
+          })
+      )
+    );
+  }
+}
@@ -0,0 +1,596 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { CfnOutput, Stack } from "aws-cdk-lib";
+import { Grant, IRole, Role } from "aws-cdk-lib/aws-iam";
+import { StringParameter } from "aws-cdk-lib/aws-ssm";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { OSMLContainer } from "../osml_container";
+import { OSMLTls } from "../osml_tls";
+import { OSMLVpc } from "../osml_vpc";
+import { BaseConfig, ConfigType } from "../utils/base_config";
+import {
+  ConfigSchema,
+  FARGATE_TASK_CPU_VALUES,
+  validateFargateTaskSize
+} from "../utils/config_schema";
+import { MEHTTPEndpoint, MEHTTPEndpointConfig } from "./me_http_endpoint";
+import { MESMEndpoint, MESMEndpointConfig } from "./me_sm_endpoint";
+import { MEHTTPRole } from "./roles/me_http_role";
+import { MESMRole } from "./roles/me_sm_role";
+
+/**
+ * Configuration class for ModelEndpointRegistry Construct.
+ */
+export class ModelEndpointRegistryConfig extends BaseConfig {
+  /**
+   * The default CPU allocation for HTTP model endpoints.
+   * @default 4096
+   */
+  public HTTP_CPU: number;
+
+  /**
+   * The default memory allocation for HTTP model endpoints.
+   * @default 16384
+   */
+  public HTTP_MEMORY: number;
+
+  /**
+   * The port HTTP model containers listen on.
+   * @default 8080
+   */
+  public HTTP_CONTAINER_PORT: number;
+
+  /**
+   * The health check path of HTTP model containers.
+   * @default "/ping"
+   */
+  public HTTP_HEALTHCHECK_PATH: string;
+
+  /**
+   * The name of an existing role to use for HTTP model endpoint tasks.
+   * @default undefined
+   */
+  public HTTP_ROLE_NAME?: string | undefined;
+
+  /**
+   * The name of the SSM parameter the model manifest is published to.
+   * @default "/osml/model-endpoints"
+   */
+  public MANIFEST_PARAMETER_NAME: string;
+
+  /**
+   * Whether to also publish the model manifest as a stack output.
+   * @default true
+   */
+  public MANIFEST_OUTPUT: boolean;
+
+  /**
+   * The security group ID to use for the model endpoints.
+   * @default undefined
+   */
+  public SECURITY_GROUP_ID?: string | undefined;
+
+  /**
+   * The default instance type for SageMaker model endpoints.
+   * @default "ml.m5.xlarge"
+   */
+  public SM_INSTANCE_TYPE: string;
+
+  /**
+   * The name of an existing role to use for SageMaker model endpoints.
+   * @default undefined
+   */
+  public SM_ROLE_NAME?: string | undefined;
+
+  /**
+   * The schema describing the allowed ModelEndpointRegistryConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    HTTP_CPU: { type: "number", values: FARGATE_TASK_CPU_VALUES },
+    HTTP_MEMORY: { type: "number", integer: true, min: 512 },
+    HTTP_CONTAINER_PORT: { type: "number", integer: true, min: 1, max: 65535 },
+    HTTP_HEALTHCHECK_PATH: { type: "string", pattern: /^\// },
+    HTTP_ROLE_NAME: { type: "string" },
+    MANIFEST_PARAMETER_NAME: { type: "string", pattern: /^\// },
+    MANIFEST_OUTPUT: { type: "boolean" },
+    SECURITY_GROUP_ID: { type: "string" },
+    SM_INSTANCE_TYPE: { type: "string", pattern: /^ml\./ },
+    SM_ROLE_NAME: { type: "string" }
+  };
+
+  /**
+   * Constructor for ModelEndpointRegistryConfig.
+   * @param config - The configuration object for ModelEndpointRegistry.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      HTTP_CPU: 4096,
+      HTTP_MEMORY: 16384,
+      HTTP_CONTAINER_PORT: 8080,
+      HTTP_HEALTHCHECK_PATH: "/ping",
+      MANIFEST_PARAMETER_NAME: "/osml/model-endpoints",
+      MANIFEST_OUTPUT: true,
+      SM_INSTANCE_TYPE: "ml.m5.xlarge",
+      ...config
+    });
+  }
+
+  /**
+   * Validates the default Fargate task size of HTTP model endpoints.
+   *
+   * @param config - The configuration object being validated.
+   * @returns A list of validation problems, empty if the configuration is valid.
+   */
+  protected static validate(config: ConfigType): string[] {
+    return validateFargateTaskSize(
+      "HTTP_CPU",
+      config.HTTP_CPU,
+      "HTTP_MEMORY",
+      config.HTTP_MEMORY
+    );
+  }
+}
+
+/**
+ * Describes the capacity limits of a registered model endpoint.
+ *
+ * @interface ModelEndpointScaling
+ */
+export interface ModelEndpointScaling {
+  /**
+   * The minimum number of instances or tasks.
+   *
+   * @type {number}
+   */
+  minCapacity: number;
+
+  /**
+   * The maximum number of instances or tasks.
+   *
+   * @type {number}
+   */
+  maxCapacity: number;
+}
+
+/**
+ * Describes a model to serve from a ModelEndpointRegistry.
+ *
+ * @interface ModelEndpointSpec
+ */
+export interface ModelEndpointSpec {
+  /**
+   * The model name Model Runner uses to select the endpoint.
+   * Also used as the SageMaker endpoint name.
+   *
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * The container serving the model.
+   *
+   * @type {OSMLContainer}
+   */
+  container: OSMLContainer;
+
+  /**
+   * Where to host the model: a SageMaker endpoint or an HTTP endpoint on Fargate.
+   *
+   * @type {"sagemaker" | "http"}
+   */
+  backend: "sagemaker" | "http";
+
+  /**
+   * ENV variables to put into the model container.
+   *
+   * @type {Record<string, string> | undefined}
+   */
+  containerEnv?: Record<string, string>;
+
+  /**
+   * The SageMaker instance type, for "sagemaker" models.
+   * Defaults to the configured `SM_INSTANCE_TYPE`.
+   *
+   * @type {string | undefined}
+   */
+  instanceType?: string;
+
+  /**
+   * The Fargate task CPU, for "http" models.
+   * Defaults to the configured `HTTP_CPU`.
+   *
+   * @type {number | undefined}
+   */
+  cpu?: number;
+
+  /**
+   * The Fargate task memory, for "http" models.
+   * Defaults to the configured `HTTP_MEMORY`.
+   *
+   * @type {number | undefined}
+   */
+  memory?: number;
+
+  /**
+   * The capacity limits to autoscale the endpoint between.
+   * When unset, the endpoint runs a fixed single instance or task.
+   *
+   * @type {ModelEndpointScaling | undefined}
+   */
+  scaling?: ModelEndpointScaling;
+
+  /**
+   * Additional SageMaker endpoint settings, for "sagemaker" models.
+   * Values derived from the spec, such as the environment and scaling, take precedence.
+   *
+   * @type {MESMEndpointConfig | undefined}
+   */
+  sageMakerConfig?: MESMEndpointConfig;
+
+  /**
+   * Additional HTTP endpoint settings, such as HTTPS and caller authentication, for
+   * "http" models. Values derived from the spec, such as the scaling, take precedence.
+   *
+   * @type {MEHTTPEndpointConfig | undefined}
+   */
+  httpConfig?: MEHTTPEndpointConfig;
+
+  /**
+   * The TLS configuration of the HTTPS listener, for "http" models.
+   *
+   * @type {OSMLTls | undefined}
+   */
+  tls?: OSMLTls;
+}
+
+/**
+ * Represents the properties required to configure a ModelEndpointRegistry.
+ *
+ * @interface ModelEndpointRegistryProps
+ */
+export interface ModelEndpointRegistryProps {
+  /**
+   * The OSML deployment account.
+   *
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The OSML VPC (Virtual Private Cloud) where the models will be deployed.
+   *
+   * @type {OSMLVpc}
+   */
+  osmlVpc: OSMLVpc;
+
+  /**
+   * The models to serve.
+   *
+   * @type {ModelEndpointSpec[]}
+   */
+  models: ModelEndpointSpec[];
+
+  /**
+   * (Optional) The role allowed to invoke the registered endpoints and read the manifest,
+   * typically the Model Runner task role.
+   *
+   * @type {IRole}
+   */
+  invokeRole?: IRole;
+
+  /**
+   * (Optional) A role to use for the SageMaker endpoints.
+   *
+   * @type {IRole}
+   */
+  smRole?: IRole;
+
+  /**
+   * (Optional) Configuration settings for the registry.
+   *
+   * @type {ModelEndpointRegistryConfig}
+   */
+  config?: ModelEndpointRegistryConfig;
+}
+
+/**
+ * An entry of the model manifest published by a ModelEndpointRegistry.
+ */
+export interface ModelEndpointManifestEntry {
+  /**
+   * The backend hosting the model.
+   */
+  backend: "sagemaker" | "http";
+
+  /**
+   * The SageMaker endpoint name, or the URL of the HTTP endpoint. HTTP endpoints in
+   * "iam" AUTH_MODE are reached through their SigV4 protected API.
+   */
+  endpoint: string;
+}
+
+/**
+ * Represents a declarative set of model endpoints. Each model spec is deployed as a
+ * SageMaker or HTTP endpoint, the invoke role is granted access to exactly those
+ * endpoints, and a manifest mapping model names to endpoints is published to SSM.
+ */
+export class ModelEndpointRegistry extends Construct {
+  /**
+   * The configuration for the ModelEndpointRegistry.
+   */
+  public config: ModelEndpointRegistryConfig;
+
+  /**
+   * The SageMaker endpoints, keyed by model name.
+   */
+  public sageMakerEndpoints: { [name: string]: MESMEndpoint } = {};
+
+  /**
+   * The HTTP endpoints, keyed by model name.
+   */
+  public httpEndpoints: { [name: string]: MEHTTPEndpoint } = {};
+
+  /**
+   * The model manifest, keyed by model name.
+   */
+  public manifest: { [name: string]: ModelEndpointManifestEntry } = {};
+
+  /**
+   * The SSM parameter holding the model manifest as JSON.
+   */
+  public manifestParameter: StringParameter;
+
+  /**
+   * The role used by the SageMaker endpoints, if any are registered.
+   */
+  public smRole?: IRole;
+
+  /**
+   * The role used by the HTTP endpoint tasks, if any are registered.
+   */
+  public httpRole?: IRole;
+
+  /**
+   * The security group ID associated with the endpoints.
+   */
+  public securityGroupId: string;
+
+  /**
+   * Creates a ModelEndpointRegistry construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {ModelEndpointRegistryProps} props - The properties of this construct.
+   * @throws {Error} If model names are not unique, or if an HTTP model name is not a valid load balancer name.
+   */
+  constructor(scope: Construct, id: string, props: ModelEndpointRegistryProps) {
+    super(scope, id);
+    this.setup(props);
+
+    for (const spec of props.models) {
+      if (spec.backend === "sagemaker") {
+        this.addSageMakerEndpoint(spec, props);
+      } else {
+        this.addHTTPEndpoint(spec, props);
+      }
+    }
+
+    // Publish the manifest Model Runner uses to resolve model names
+    const manifestJson = Stack.of(this).toJsonString(this.manifest);
+    this.manifestParameter = new StringParameter(this, "ManifestParameter", {
+      parameterName: this.config.MANIFEST_PARAMETER_NAME,
+      stringValue: manifestJson,
+      description: "The OSML model endpoints, keyed by model name"
+    });
+    if (props.invokeRole) {
+      this.manifestParameter.grantRead(props.invokeRole);
+    }
+    if (this.config.MANIFEST_OUTPUT) {
+      new CfnOutput(this, "ModelEndpointManifest", {
+        value: manifestJson,
+        description: "The OSML model endpoints, keyed by model name"
+      });
+    }
+  }
+
+  /**
+   * Sets up the registry configuration, security group and roles.
+   *
+   * @param {ModelEndpointRegistryProps} props - The properties of this construct.
+   * @throws {Error} If model names are not unique, or if an HTTP model name is not a valid load balancer name.
+   */
+  private setup(props: ModelEndpointRegistryProps): void {
+    this.config = props.config ?? new ModelEndpointRegistryConfig();
+
+    const names = props.models.map((spec) => spec.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error(
+        `ModelEndpointRegistry model names must be unique: ${names.join(", ")}`
+      );
+    }
+
+    // HTTP model names prefix their load balancer names, which allow at most 32 characters
+    for (const spec of props.models) {
+      if (
+        spec.backend === "http" &&
+        !/^[A-Za-z0-9](?:[A-Za-z0-9-]{0,21}[A-Za-z0-9])?$/.test(spec.name)
+      ) {
+        throw new Error(
+          `ModelEndpointRegistry HTTP model name ${spec.name} must be at most 23 alphanumeric characters or hyphens, and cannot start or end with a hyphen.`
+        );
+      }
+    }
+
+    // Use the configured security group or the VPC default
+    this.securityGroupId =
+      this.config.SECURITY_GROUP_ID ?? props.osmlVpc.vpcDefaultSecurityGroup;
+
+    // Set up the SageMaker role if any SageMaker models are registered
+    if (props.models.some((spec) => spec.backend === "sagemaker")) {
+      if (this.config.SM_ROLE_NAME != undefined) {
+        this.smRole = Role.fromRoleName(
+          this,
+          "ImportedMERegistrySageMakerRole",
+          this.config.SM_ROLE_NAME,
+          {
+            mutable: false
+          }
+        );
+      } else {
+        this.smRole =
+          props.smRole ??
+          new MESMRole(this, "MERegistrySageMakerRole", {
+            account: props.account,
+            roleName: "MERegistrySageMakerRole"
+          }).role;
+      }
+    }
+
+    // Set up the HTTP task role if any HTTP models are registered
+    if (props.models.some((spec) => spec.backend === "http")) {
+      if (this.config.HTTP_ROLE_NAME != undefined) {
+        this.httpRole = Role.fromRoleName(
+          this,
+          "ImportedMERegistryHTTPRole",
+          this.config.HTTP_ROLE_NAME
+        );
+      } else {
+        this.httpRole = new MEHTTPRole(this, "MERegistryHTTPRole", {
+          account: props.account,
+          roleName: "MERegistryHTTPRole"
+        }).role;
+      }
+    }
+  }
+
+  /**
+   * Deploys a model as a SageMaker endpoint and grants the invoke role access to it.
+   *
+   * @param {ModelEndpointSpec} spec - The model to deploy.
+   * @param {ModelEndpointRegistryProps} props - The properties of this construct.
+   */
+  private addSageMakerEndpoint(
+    spec: ModelEndpointSpec,
+    props: ModelEndpointRegistryProps
+  ): void {
+    const endpoint = new MESMEndpoint(this, `${spec.name}SMEndpoint`, {
+      account: props.account,
+      containerImageUri: spec.container.containerUri,
+      modelName: spec.name,
+      roleArn: this.smRole!.roleArn,
+      instanceType: spec.instanceType ?? this.config.SM_INSTANCE_TYPE,
+      subnetIds: props.osmlVpc.selectedSubnets.subnetIds,
+      config: new MESMEndpointConfig({
+        ...spec.sageMakerConfig,
+        ...(spec.containerEnv && { CONTAINER_ENV: spec.containerEnv }),
+        SECURITY_GROUP_ID: this.securityGroupId,
+        REPOSITORY_ACCESS_MODE: spec.container.repositoryAccessMode,
+        ...(spec.scaling && {
+          AUTOSCALING_ENABLED: true,
+          AUTOSCALING_MIN_CAPACITY: spec.scaling.minCapacity,
+          AUTOSCALING_MAX_CAPACITY: spec.scaling.maxCapacity
+        })
+      })
+    });
+    endpoint.node.addDependency(spec.container);
+    this.sageMakerEndpoints[spec.name] = endpoint;
+    this.manifest[spec.name] = {
+      backend: "sagemaker",
+      endpoint: endpoint.endpoint.attrEndpointName
+    };
+
+    // Grant invoke rights on exactly this endpoint
+    if (props.invokeRole) {
+      Grant.addToPrincipal({
+        grantee: props.invokeRole,
+        actions: ["sagemaker:InvokeEndpoint", "sagemaker:InvokeEndpointAsync"],
+        resourceArns: [
+          Stack.of(this).formatArn({
+            service: "sagemaker",
+            resource: "endpoint",
+            resourceName: spec.name.toLowerCase()
+          })
+        ]
+      });
+    }
+  }
+
+  /**
+   * Deploys a model as an HTTP endpoint on Fargate.
+   *
+   * @param {ModelEndpointSpec} spec - The model to deploy.
+   * @param {ModelEndpointRegistryProps} props - The properties of this construct.
+   */
+  private addHTTPEndpoint(
+    spec: ModelEndpointSpec,
+    props: ModelEndpointRegistryProps
+  ): void {
+    const endpoint = new MEHTTPEndpoint(this, `${spec.name}HTTPEndpoint`, {
+      account: props.account,
+      osmlVpc: props.osmlVpc,
+      image: spec.container.containerImage,
+      clusterName: `${spec.name}-cluster`,
+      role: this.httpRole!,
+      memory: spec.memory ?? this.config.HTTP_MEMORY,
+      cpu: spec.cpu ?? this.config.HTTP_CPU,
+      hostPort: this.config.HTTP_CONTAINER_PORT,
+      containerPort: this.config.HTTP_CONTAINER_PORT,
+      healthcheckPath: this.config.HTTP_HEALTHCHECK_PATH,
+      loadBalancerName: `${spec.name}-endpoint`,
+      containerEnv: spec.containerEnv,
+      securityGroupId: this.securityGroupId,
+      logGroupName: `/aws/OSML/HTTPEndpoint/${spec.name}`,
+      tls: spec.tls,
+      config: new MEHTTPEndpointConfig({
+        ...spec.httpConfig,
+        ...(spec.scaling && {
+          AUTOSCALING_ENABLED: true,
+          AUTOSCALING_MIN_CAPACITY: spec.scaling.minCapacity,
+          AUTOSCALING_MAX_CAPACITY: spec.scaling.maxCapacity
+        })
+      })
+    });
+    endpoint.node.addDependency(spec.container);
+    this.httpEndpoints[spec.name] = endpoint;
+    this.manifest[spec.name] = {
+      backend: "http",
+      endpoint: this.httpEndpointUrl(endpoint, spec)
+    };
+
+    // Grant invoke rights on the SigV4 protected API
+    if (endpoint.api && props.invokeRole) {
+      endpoint.grantInvoke(props.invokeRole);
+    }
+  }
+
+  /**
+   * Returns the URL callers reach an HTTP endpoint at: its SigV4 protected API in
+   * "iam" AUTH_MODE, otherwise its load balancer, addressed by the certificate's
+   * domain name when the listener serves HTTPS.
+   *
+   * @param {MEHTTPEndpoint} endpoint - The HTTP endpoint.
+   * @param {ModelEndpointSpec} spec - The model the endpoint serves.
+   * @returns {string} The endpoint URL.
+   */
+  private httpEndpointUrl(
+    endpoint: MEHTTPEndpoint,
+    spec: ModelEndpointSpec
+  ): string {
+    if (endpoint.api) {
+      return endpoint.api.apiEndpoint;
+    }
+    const loadBalancerDnsName =
+      endpoint.networkHTTPEndpoint.loadBalancer.loadBalancerDnsName;
+    if (endpoint.certificate) {
+      const host =
+        spec.tls?.domainName ??
+        endpoint.config.HTTPS_SERVER_NAME ??
+        loadBalancerDnsName;
+      return `https://${host}`;
+    }
+    return `http://${loadBalancerDnsName}`;
+  }
+}
@@ -3,6 +3,10 @@
  */
 
 import { Duration, RemovalPolicy } from "aws-cdk-lib";
+import { HttpApi, VpcLink } from "aws-cdk-lib/aws-apigatewayv2";
+import { HttpIamAuthorizer } from "aws-cdk-lib/aws-apigatewayv2-authorizers";
+import { HttpAlbIntegration } from "aws-cdk-lib/aws-apigatewayv2-integrations";
+import { Certificate, ICertificate } from "aws-cdk-lib/aws-certificatemanager";
 import { ISecurityGroup, SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import {
   Cluster,
@@ -11,15 +15,253 @@ import {
   ContainerInsights,
   LogDriver,
   Protocol,
+  ScalableTaskCount,
   TaskDefinition
 } from "aws-cdk-lib/aws-ecs";
 import { ApplicationLoadBalancedFargateService } from "aws-cdk-lib/aws-ecs-patterns";
-import { IRole } from "aws-cdk-lib/aws-iam";
+import {
+  ApplicationProtocol,
+  CfnListener,
+  ITrustStore,
+  SslPolicy,
+  TrustStore
+} from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Grant, IGrantable, IRole } from "aws-cdk-lib/aws-iam";
 import { LogGroup, RetentionDays } from "aws-cdk-lib/aws-logs";
 import { Construct } from "constructs";
 
 import { OSMLAccount } from "../osml_account";
+import { buildTlsCertificate, buildTlsRecord, OSMLTls } from "../osml_tls";
 import { OSMLVpc } from "../osml_vpc";
+import { BaseConfig, ConfigType } from "../utils/base_config";
+import { ConfigSchema, validateMinMax } from "../utils/config_schema";
+
+/**
+ * Configuration class for MEHTTPEndpoint Construct.
+ */
+export class MEHTTPEndpointConfig extends BaseConfig {
+  /**
+   * The number of tasks to run when autoscaling is disabled.
+   * @default 1
+   */
+  public DESIRED_COUNT: number;
+
+  /**
+   * Whether to autoscale the service on request count and CPU utilization.
+   * @default false
+   */
+  public AUTOSCALING_ENABLED: boolean;
+
+  /**
+   * The minimum number of tasks when autoscaling.
+   * @default 1
+   */
+  public AUTOSCALING_MIN_CAPACITY: number;
+
+  /**
+   * The maximum number of tasks when autoscaling.
+   * @default 4
+   */
+  public AUTOSCALING_MAX_CAPACITY: number;
+
+  /**
+   * The target number of requests per task per minute.
+   * @default 100
+   */
+  public AUTOSCALING_TARGET_REQUESTS_PER_TARGET: number;
+
+  /**
+   * The target CPU utilization percentage of the service.
+   * @default 70
+   */
+  public AUTOSCALING_TARGET_CPU_UTILIZATION: number;
+
+  /**
+   * The cooldown after a scale-in activity, in seconds.
+   * @default 300
+   */
+  public AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: number;
+
+  /**
+   * The cooldown after a scale-out activity, in seconds.
+   * @default 60
+   */
+  public AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: number;
+
+  /**
+   * The ARN of an ACM certificate. When set, the load balancer listens on HTTPS.
+   * @default undefined
+   */
+  public CERTIFICATE_ARN?: string | undefined;
+
+  /**
+   * Whether to redirect HTTP requests to HTTPS when a certificate is configured.
+   * @default true
+   */
+  public REDIRECT_HTTP: boolean;
+
+  /**
+   * The domain name on the certificate. API Gateway verifies it when
+   * AUTH_MODE is "iam" and the endpoint serves HTTPS.
+   * @default undefined
+   */
+  public HTTPS_SERVER_NAME?: string | undefined;
+
+  /**
+   * How callers authenticate with the endpoint: "none", "iam" to front the load
+   * balancer with an API Gateway HTTP API requiring SigV4 signed requests, or
+   * "mtls" to require client certificates on the HTTPS listener.
+   * @default "none"
+   */
+  public AUTH_MODE: string;
+
+  /**
+   * The ARN of an existing trust store holding the CA bundle used to verify client certificates.
+   * @default undefined
+   */
+  public MTLS_TRUST_STORE_ARN?: string | undefined;
+
+  /**
+   * The time the load balancer waits before deregistering a draining task, in seconds.
+   * @default 300
+   */
+  public DEREGISTRATION_DELAY_SECONDS: number;
+
+  /**
+   * The number of consecutive successful health checks before a task is healthy.
+   * @default 5
+   */
+  public HEALTHCHECK_HEALTHY_THRESHOLD: number;
+
+  /**
+   * The number of consecutive failed health checks before a task is unhealthy.
+   * @default 2
+   */
+  public HEALTHCHECK_UNHEALTHY_THRESHOLD: number;
+
+  /**
+   * The time between health checks, in seconds.
+   * @default 30
+   */
+  public HEALTHCHECK_INTERVAL_SECONDS: number;
+
+  /**
+   * The time to wait for a health check response, in seconds.
+   * @default 5
+   */
+  public HEALTHCHECK_TIMEOUT_SECONDS: number;
+
+  /**
+   * The schema describing the allowed MEHTTPEndpointConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    DESIRED_COUNT: { type: "number", integer: true, min: 0 },
+    AUTOSCALING_ENABLED: { type: "boolean" },
+    AUTOSCALING_MIN_CAPACITY: { type: "number", integer: true, min: 0 },
+    AUTOSCALING_MAX_CAPACITY: { type: "number", integer: true, min: 1 },
+    AUTOSCALING_TARGET_REQUESTS_PER_TARGET: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    AUTOSCALING_TARGET_CPU_UTILIZATION: { type: "number", min: 1, max: 100 },
+    AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0
+    },
+    AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0
+    },
+    CERTIFICATE_ARN: { type: "string", pattern: /^arn:/ },
+    REDIRECT_HTTP: { type: "boolean" },
+    HTTPS_SERVER_NAME: { type: "string" },
+    AUTH_MODE: { type: "string", values: ["none", "iam", "mtls"] },
+    MTLS_TRUST_STORE_ARN: { type: "string", pattern: /^arn:/ },
+    DEREGISTRATION_DELAY_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0,
+      max: 3600
+    },
+    HEALTHCHECK_HEALTHY_THRESHOLD: {
+      type: "number",
+      integer: true,
+      min: 2,
+      max: 10
+    },
+    HEALTHCHECK_UNHEALTHY_THRESHOLD: {
+      type: "number",
+      integer: true,
+      min: 2,
+      max: 10
+    },
+    HEALTHCHECK_INTERVAL_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 5,
+      max: 300
+    },
+    HEALTHCHECK_TIMEOUT_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 2,
+      max: 120
+    }
+  };
+
+  /**
+   * Constructor for MEHTTPEndpointConfig.
+   * @param config - The configuration object for MEHTTPEndpoint.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      DESIRED_COUNT: 1,
+      AUTOSCALING_ENABLED: false,
+      AUTOSCALING_MIN_CAPACITY: 1,
+      AUTOSCALING_MAX_CAPACITY: 4,
+      AUTOSCALING_TARGET_REQUESTS_PER_TARGET: 100,
+      AUTOSCALING_TARGET_CPU_UTILIZATION: 70,
+      AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: 300,
+      AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: 60,
+      REDIRECT_HTTP: true,
+      AUTH_MODE: "none",
+      DEREGISTRATION_DELAY_SECONDS: 300,
+      HEALTHCHECK_HEALTHY_THRESHOLD: 5,
+      HEALTHCHECK_UNHEALTHY_THRESHOLD: 2,
+      HEALTHCHECK_INTERVAL_SECONDS: 30,
+      HEALTHCHECK_TIMEOUT_SECONDS: 5,
+      ...config
+    });
+  }
+
+  /**
+   * Validates the autoscaling limits and health check timing.
+   *
+   * @param config - The configuration object being validated.
+   * @returns A list of validation problems, empty if the configuration is valid.
+   */
+  protected static validate(config: ConfigType): string[] {
+    const errors = validateMinMax(
+      "AUTOSCALING_MIN_CAPACITY",
+      config.AUTOSCALING_MIN_CAPACITY,
+      "AUTOSCALING_MAX_CAPACITY",
+      config.AUTOSCALING_MAX_CAPACITY
+    );
+    if (
+      typeof config.HEALTHCHECK_TIMEOUT_SECONDS === "number" &&
+      typeof config.HEALTHCHECK_INTERVAL_SECONDS === "number" &&
+      config.HEALTHCHECK_TIMEOUT_SECONDS >= config.HEALTHCHECK_INTERVAL_SECONDS
+    ) {
+      errors.push(
+        `HEALTHCHECK_TIMEOUT_SECONDS: ${config.HEALTHCHECK_TIMEOUT_SECONDS} must be less than HEALTHCHECK_INTERVAL_SECONDS (${config.HEALTHCHECK_INTERVAL_SECONDS})`
+      );
+    }
+    return errors;
+  }
+}
 
 /**
  * Represents the properties required to configure an OSML (OversightML)
@@ -129,6 +371,47 @@ export interface MEHTTPEndpointProps {
    * @type {string}
    */
   readonly securityGroupId?: string;
+
+  /**
+   * The name of the log group for the endpoint service.
+   * Set a unique name when deploying more than one HTTP endpoint.
+   *
+   * @type {string}
+   * @default "/aws/OSML/HTTPEndpoint"
+   */
+  readonly logGroupName?: string;
+
+  /**
+   * An ACM certificate for the HTTPS listener.
+   * Takes precedence over the configured `CERTIFICATE_ARN`.
+   *
+   * @type {ICertificate}
+   */
+  readonly certificate?: ICertificate;
+
+  /**
+   * The TLS configuration for the HTTPS listener. Takes precedence over the
+   * configured `CERTIFICATE_ARN` and `HTTPS_SERVER_NAME`, and over `REDIRECT_HTTP`
+   * when `redirectHttp` is set.
+   *
+   * @type {OSMLTls}
+   */
+  readonly tls?: OSMLTls;
+
+  /**
+   * The trust store used to verify client certificates when `AUTH_MODE` is "mtls".
+   * Takes precedence over the configured `MTLS_TRUST_STORE_ARN`.
+   *
+   * @type {ITrustStore}
+   */
+  readonly trustStore?: ITrustStore;
+
+  /**
+   * Custom configuration for the MEHTTPEndpoint Construct (optional).
+   *
+   * @type {MEHTTPEndpointConfig}
+   */
+  readonly config?: MEHTTPEndpointConfig;
 }
 
 /**
@@ -155,15 +438,54 @@ export class MEHTTPEndpoint extends Construct {
    */
   public securityGroups: ISecurityGroup[];
 
+  /**
+   * The configuration for the MEHTTPEndpoint.
+   */
+  public config: MEHTTPEndpointConfig;
+
+  /**
+   * The certificate of the HTTPS listener, if HTTPS is enabled.
+   */
+  public certificate?: ICertificate;
+
+  /**
+   * The scalable task count of the service, if autoscaling is enabled.
+   */
+  public scalableTaskCount?: ScalableTaskCount;
+
+  /**
+   * The HTTP API requiring SigV4 signed requests, if `AUTH_MODE` is "iam".
+   */
+  public api?: HttpApi;
+
   /**
    * Creates an instance of OSMLHTTPModelEndpoint.
    * @param {Construct} scope - The scope in which to create the construct.
    * @param {string} id - The ID for the construct.
    * @param {MEHTTPEndpointProps} props - The properties for configuring the OSML HTTP Model Endpoint.
    * @returns MEHTTPEndpoint - The OSMLHTTPModelEndpoint CDK Construct
+   * @throws {Error} If mTLS is requested without a certificate or trust store.
    */
   constructor(scope: Construct, id: string, props: MEHTTPEndpointProps) {
     super(scope, id);
+    this.config = props.config ?? new MEHTTPEndpointConfig();
+
+    // Import the configured certificate to serve HTTPS
+    if (props.certificate) {
+      this.certificate = props.certificate;
+    } else if (props.tls) {
+      this.certificate = buildTlsCertificate(
+        this,
+        "HTTPEndpointCertificate",
+        props.tls
+      );
+    } else if (this.config.CERTIFICATE_ARN) {
+      this.certificate = Certificate.fromCertificateArn(
+        this,
+        "HTTPEndpointCertificate",
+        this.config.CERTIFICATE_ARN
+      );
+    }
 
     // Create an ECS Cluster for the HTTP Model Endpoint
     const httpEndpointCluster = new Cluster(this, props.clusterName, {
@@ -181,7 +503,7 @@ export class MEHTTPEndpoint extends Construct {
 
     // Create a CloudWatch Logs log group for the service
     this.logGroup = new LogGroup(this, "HTTPEndpointServiceLogGroup", {
-      logGroupName: "/aws/OSML/HTTPEndpoint",
+      logGroupName: props.logGroupName ?? "/aws/OSML/HTTPEndpoint",
       retention: RetentionDays.TEN_YEARS,
       removalPolicy: this.removalPolicy
     });
@@ -238,14 +560,182 @@ export class MEHTTPEndpoint extends Construct {
         taskDefinition: taskDefinition,
         taskSubnets: props.osmlVpc.selectedSubnets,
         publicLoadBalancer: false,
-        securityGroups: this.securityGroups
+        // In iam mode only the SigV4 API's VPC link may reach the load balancer
+        openListener: this.config.AUTH_MODE !== "iam",
+        securityGroups: this.securityGroups,
+        desiredCount: this.config.AUTOSCALING_ENABLED
+          ? this.config.AUTOSCALING_MIN_CAPACITY
+          : this.config.DESIRED_COUNT,
+        ...(this.certificate && {
+          certificate: this.certificate,
+          protocol: ApplicationProtocol.HTTPS,
+          redirectHTTP: props.tls?.redirectHttp ?? this.config.REDIRECT_HTTP,
+          sslPolicy: SslPolicy.RECOMMENDED_TLS
+        })
       }
     );
 
+    // Let clients resolve the TLS domain name if a hosted zone is configured
+    if (props.tls) {
+      buildTlsRecord(
+        this,
+        "HTTPEndpointTlsRecord",
+        props.tls,
+        this.networkHTTPEndpoint.loadBalancer
+      );
+    }
+
     // Configure health check for the target group
     this.networkHTTPEndpoint.targetGroup.configureHealthCheck({
       path: props.healthcheckPath,
-      port: props.hostPort.toString()
+      port: props.hostPort.toString(),
+      healthyThresholdCount: this.config.HEALTHCHECK_HEALTHY_THRESHOLD,
+      unhealthyThresholdCount: this.config.HEALTHCHECK_UNHEALTHY_THRESHOLD,
+      interval: Duration.seconds(this.config.HEALTHCHECK_INTERVAL_SECONDS),
+      timeout: Duration.seconds(this.config.HEALTHCHECK_TIMEOUT_SECONDS)
+    });
+    this.networkHTTPEndpoint.targetGroup.setAttribute(
+      "deregistration_delay.timeout_seconds",
+      this.config.DEREGISTRATION_DELAY_SECONDS.toString()
+    );
+
+    if (this.config.AUTOSCALING_ENABLED) {
+      this.buildAutoscaling();
+    }
+
+    if (this.config.AUTH_MODE === "mtls") {
+      this.buildMutualTls(props.trustStore);
+    } else if (this.config.AUTH_MODE === "iam") {
+      this.buildIamApi(props);
+    }
+  }
+
+  /**
+   * Grants a principal the right to invoke the endpoint through its SigV4 protected API.
+   *
+   * @param {IGrantable} grantee - The principal to grant invoke rights to.
+   * @returns {Grant} The grant.
+   * @throws {Error} If `AUTH_MODE` is not "iam".
+   */
+  public grantInvoke(grantee: IGrantable): Grant {
+    if (this.api == undefined) {
+      throw new Error(
+        "MEHTTPEndpoint invoke rights can only be granted when AUTH_MODE is iam."
+      );
+    }
+    return Grant.addToPrincipal({
+      grantee: grantee,
+      actions: ["execute-api:Invoke"],
+      resourceArns: [this.api.arnForExecuteApi()]
+    });
+  }
+
+  /**
+   * Scales the service between the configured capacities on request count and CPU utilization.
+   */
+  private buildAutoscaling(): void {
+    const scaleInCooldown = Duration.seconds(
+      this.config.AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS
+    );
+    const scaleOutCooldown = Duration.seconds(
+      this.config.AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS
+    );
+    this.scalableTaskCount =
+      this.networkHTTPEndpoint.service.autoScaleTaskCount({
+        minCapacity: this.config.AUTOSCALING_MIN_CAPACITY,
+        maxCapacity: this.config.AUTOSCALING_MAX_CAPACITY
+      });
+    this.scalableTaskCount.scaleOnRequestCount("HTTPEndpointRequestScaling", {
+      requestsPerTarget: this.config.AUTOSCALING_TARGET_REQUESTS_PER_TARGET,
+      targetGroup: this.networkHTTPEndpoint.targetGroup,
+      scaleInCooldown: scaleInCooldown,
+      scaleOutCooldown: scaleOutCooldown
+    });
+    this.scalableTaskCount.scaleOnCpuUtilization("HTTPEndpointCpuScaling", {
+      targetUtilizationPercent: this.config.AUTOSCALING_TARGET_CPU_UTILIZATION,
+      scaleInCooldown: scaleInCooldown,
+      scaleOutCooldown: scaleOutCooldown
+    });
+  }
+
+  /**
+   * Requires client certificates signed by the trust store CA bundle on the HTTPS listener.
+   *
+   * @param {ITrustStore} trustStore - The trust store provided in props, if any.
+   * @throws {Error} If HTTPS is not enabled or no trust store is available.
+   */
+  private buildMutualTls(trustStore?: ITrustStore): void {
+    if (this.certificate == undefined) {
+      throw new Error(
+        "MEHTTPEndpoint AUTH_MODE mtls requires a certificate or CERTIFICATE_ARN."
+      );
+    }
+    const store =
+      trustStore ??
+      (this.config.MTLS_TRUST_STORE_ARN
+        ? TrustStore.fromTrustStoreArn(
+            this,
+            "HTTPEndpointTrustStore",
+            this.config.MTLS_TRUST_STORE_ARN
+          )
+        : undefined);
+    if (store == undefined) {
+      throw new Error(
+        "MEHTTPEndpoint AUTH_MODE mtls requires a trustStore or MTLS_TRUST_STORE_ARN."
+      );
+    }
+
+    // The load balanced service pattern does not expose the listener's mTLS settings
+    const listener = this.networkHTTPEndpoint.listener.node
+      .defaultChild as CfnListener;
+    listener.mutualAuthentication = {
+      mode: "verify",
+      trustStoreArn: store.trustStoreArn
+    };
+  }
+
+  /**
+   * Fronts the internal load balancer with an HTTP API that requires SigV4 signed requests.
+   * The load balancer only admits the API's VPC link, so callers cannot bypass it.
+   *
+   * @param {MEHTTPEndpointProps} props - The properties of this construct.
+   * @throws {Error} If the endpoint serves HTTPS without a server name to verify.
+   */
+  private buildIamApi(props: MEHTTPEndpointProps): void {
+    const serverName = props.tls?.domainName ?? this.config.HTTPS_SERVER_NAME;
+    if (this.certificate && serverName == undefined) {
+      throw new Error(
+        "MEHTTPEndpoint AUTH_MODE iam over HTTPS requires HTTPS_SERVER_NAME."
+      );
+    }
+    const vpcLinkSecurityGroup = new SecurityGroup(
+      this,
+      "HTTPEndpointVpcLinkSecurityGroup",
+      {
+        vpc: props.osmlVpc.vpc,
+        description: `VPC link of the SigV4 protected API for ${props.loadBalancerName}`
+      }
+    );
+    this.networkHTTPEndpoint.listener.connections.allowDefaultPortFrom(
+      vpcLinkSecurityGroup,
+      "Allow traffic from the SigV4 protected API"
+    );
+    const vpcLink = new VpcLink(this, "HTTPEndpointVpcLink", {
+      vpc: props.osmlVpc.vpc,
+      subnets: props.osmlVpc.selectedSubnets,
+      securityGroups: [vpcLinkSecurityGroup]
+    });
+    this.api = new HttpApi(this, "HTTPEndpointApi", {
+      description: `SigV4 protected API for ${props.loadBalancerName}`,
+      defaultAuthorizer: new HttpIamAuthorizer(),
+      defaultIntegration: new HttpAlbIntegration(
+        "HTTPEndpointIntegration",
+        this.networkHTTPEndpoint.listener,
+        {
+          vpcLink: vpcLink,
+          secureServerName: serverName
+        }
+      )
     });
   }
 }
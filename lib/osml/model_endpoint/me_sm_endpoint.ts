@@ -1,15 +1,93 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
+import { Duration, RemovalPolicy } from "aws-cdk-lib";
+import {
+  AdjustmentType,
+  PredefinedMetric,
+  ScalableTarget,
+  Schedule,
+  ServiceNamespace
+} from "aws-cdk-lib/aws-applicationautoscaling";
+import { IAlarm, Metric } from "aws-cdk-lib/aws-cloudwatch";
+import { Role } from "aws-cdk-lib/aws-iam";
 import {
   CfnEndpoint,
   CfnEndpointConfig,
   CfnModel
 } from "aws-cdk-lib/aws-sagemaker";
+import { ITopic } from "aws-cdk-lib/aws-sns";
 import { Construct } from "constructs";
 
+import { OSMLAccount } from "../osml_account";
+import { OSMLBucket } from "../osml_bucket";
+import { OSMLContainer } from "../osml_container";
+import { OSMLTopic } from "../osml_topic";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import { ConfigSchema, validateMinMax } from "../utils/config_schema";
+
+/**
+ * The maximum number of containers SageMaker allows in a single model.
+ */
+const MAX_MODEL_CONTAINERS = 15;
+
+/**
+ * Describes one container of a multi-container MESMEndpoint model.
+ *
+ * @interface MESMEndpointContainer
+ */
+export interface MESMEndpointContainer {
+  /**
+   * The container providing the image for this step of the model.
+   *
+   * @type {OSMLContainer}
+   */
+  container: OSMLContainer;
+
+  /**
+   * ENV variables to put into the container.
+   *
+   * @type {Record<string, unknown> | undefined}
+   */
+  containerEnv?: Record<string, unknown>;
+
+  /**
+   * The hostname used to invoke the container directly.
+   * Required when `INFERENCE_EXECUTION_MODE` is "Direct".
+   *
+   * @type {string | undefined}
+   */
+  containerHostname?: string;
+}
+
+/**
+ * Describes a scheduled change to the capacity limits of an MESMEndpoint variant.
+ *
+ * @interface MESMEndpointScalingSchedule
+ */
+export interface MESMEndpointScalingSchedule {
+  /**
+   * The schedule expression, e.g. "cron(0 8 ? * MON-FRI *)" or "rate(1 day)".
+   *
+   * @type {string}
+   */
+  schedule: string;
+
+  /**
+   * The minimum capacity to apply when the schedule runs.
+   *
+   * @type {number | undefined}
+   */
+  minCapacity?: number;
+
+  /**
+   * The maximum capacity to apply when the schedule runs.
+   *
+   * @type {number | undefined}
+   */
+  maxCapacity?: number;
+}
 
 /**
  * Configuration class for MESMEndpoint Construct.
@@ -47,20 +125,362 @@ export class MESMEndpointConfig extends BaseConfig {
    * The repository access mode to use for the SageMaker endpoint container.
    */
   public REPOSITORY_ACCESS_MODE: string;
+
+  /**
+   * How the containers of a multi-container model are invoked: "Serial" runs them
+   * as an inference pipeline, "Direct" lets callers invoke each container by hostname.
+   * Only applies when containers are provided.
+   * @default "Serial"
+   */
+  public INFERENCE_EXECUTION_MODE: string;
+
+  /**
+   * The inference mode of the endpoint: "realtime" for instance-backed endpoints,
+   * "async" for queued asynchronous inference, or "serverless" for on-demand capacity.
+   * @default "realtime"
+   */
+  public ENDPOINT_MODE: string;
+
+  /**
+   * The S3 URI to write asynchronous inference results to.
+   * When unset in async mode, an output bucket is created.
+   * @default undefined
+   */
+  public ASYNC_S3_OUTPUT_PATH?: string | undefined;
+
+  /**
+   * The prefix of the output bucket created in async mode, followed by the model name and account id.
+   * At most 36 lowercase letters, numbers or hyphens, leaving room for them in the bucket name.
+   * @default "me-async-output"
+   */
+  public ASYNC_OUTPUT_BUCKET_PREFIX: string;
+
+  /**
+   * The maximum number of concurrent requests sent to each instance in async mode.
+   * @default undefined
+   */
+  public ASYNC_MAX_CONCURRENT_INVOCATIONS_PER_INSTANCE?: number | undefined;
+
+  /**
+   * The memory, in MB, available to each serverless endpoint invocation.
+   * @default 2048
+   */
+  public SERVERLESS_MEMORY_SIZE_MB: number;
+
+  /**
+   * The maximum number of concurrent invocations of a serverless endpoint.
+   * @default 5
+   */
+  public SERVERLESS_MAX_CONCURRENCY: number;
+
+  /**
+   * The blue/green traffic shifting strategy used when the endpoint is updated:
+   * "ALL_AT_ONCE", "CANARY" or "LINEAR".
+   * When unset, SageMaker shifts all traffic at once without alarm-based rollback.
+   * @default undefined
+   */
+  public DEPLOYMENT_STRATEGY?: string | undefined;
+
+  /**
+   * The percentage of capacity moved to the new fleet in the canary step, or in each linear step.
+   * @default 10
+   */
+  public TRAFFIC_STEP_PERCENT: number;
+
+  /**
+   * The time, in seconds, to watch the rollback alarms between traffic shifting steps.
+   * @default 300
+   */
+  public TRAFFIC_WAIT_INTERVAL_SECONDS: number;
+
+  /**
+   * The time, in seconds, to wait after traffic shifting completes before terminating the old fleet.
+   * @default 0
+   */
+  public TERMINATION_WAIT_SECONDS: number;
+
+  /**
+   * The maximum time, in seconds, the deployment may take before it is rolled back.
+   * @default undefined
+   */
+  public MAXIMUM_EXECUTION_TIMEOUT_SECONDS?: number | undefined;
+
+  /**
+   * The names of existing CloudWatch alarms that roll back a deployment when triggered.
+   * @default undefined
+   */
+  public ROLLBACK_ALARM_NAMES?: string[] | undefined;
+
+  /**
+   * Whether to scale the instance count of each variant with Application Auto Scaling.
+   * @default false
+   */
+  public AUTOSCALING_ENABLED: boolean;
+
+  /**
+   * The minimum number of instances for each variant when autoscaling.
+   * May be 0 in async mode to scale to zero while there is no backlog.
+   * @default 1
+   */
+  public AUTOSCALING_MIN_CAPACITY: number;
+
+  /**
+   * The maximum number of instances for each variant when autoscaling.
+   * @default 4
+   */
+  public AUTOSCALING_MAX_CAPACITY: number;
+
+  /**
+   * The target number of invocations per instance per minute used for target tracking.
+   * @default 100
+   */
+  public AUTOSCALING_TARGET_INVOCATIONS_PER_INSTANCE: number;
+
+  /**
+   * The target number of queued requests per instance used for target tracking in async mode.
+   * @default 5
+   */
+  public AUTOSCALING_TARGET_BACKLOG_PER_INSTANCE: number;
+
+  /**
+   * The average model latency, in milliseconds, above which step scaling adds instances.
+   * Latency never removes instances; the invocation or backlog target tracking policies scale in.
+   * When unset, no latency based step scaling is configured.
+   * @default undefined
+   */
+  public AUTOSCALING_LATENCY_THRESHOLD_MS?: number | undefined;
+
+  /**
+   * The time, in seconds, to wait after scaling in before scaling in again.
+   * @default 300
+   */
+  public AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: number;
+
+  /**
+   * The time, in seconds, to wait after scaling out before scaling out again.
+   * @default 60
+   */
+  public AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: number;
+
+  /**
+   * Scheduled changes to the capacity limits, e.g. to pre-warm ahead of known batch jobs.
+   * @default undefined
+   */
+  public AUTOSCALING_SCHEDULES?: MESMEndpointScalingSchedule[] | undefined;
+
+  /**
+   * The schema describing the allowed MESMEndpointConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    INITIAL_INSTANCE_COUNT: { type: "number", integer: true, min: 1 },
+    INITIAL_VARIANT_WEIGHT: { type: "number", min: 0 },
+    VARIANT_NAME: { type: "string" },
+    SECURITY_GROUP_ID: { type: "string" },
+    CONTAINER_ENV: { type: "object" },
+    REPOSITORY_ACCESS_MODE: { type: "string", values: ["Platform", "Vpc"] },
+    INFERENCE_EXECUTION_MODE: { type: "string", values: ["Serial", "Direct"] },
+    ENDPOINT_MODE: {
+      type: "string",
+      values: ["realtime", "async", "serverless"]
+    },
+    ASYNC_S3_OUTPUT_PATH: { type: "string", pattern: /^s3:\/\// },
+    ASYNC_OUTPUT_BUCKET_PREFIX: {
+      type: "string",
+      pattern: /^[a-z0-9][a-z0-9-]{0,35}$/
+    },
+    ASYNC_MAX_CONCURRENT_INVOCATIONS_PER_INSTANCE: {
+      type: "number",
+      integer: true,
+      min: 1,
+      max: 1000
+    },
+    SERVERLESS_MEMORY_SIZE_MB: {
+      type: "number",
+      values: [1024, 2048, 3072, 4096, 5120, 6144]
+    },
+    SERVERLESS_MAX_CONCURRENCY: {
+      type: "number",
+      integer: true,
+      min: 1,
+      max: 200
+    },
+    DEPLOYMENT_STRATEGY: {
+      type: "string",
+      values: ["ALL_AT_ONCE", "CANARY", "LINEAR"]
+    },
+    TRAFFIC_STEP_PERCENT: { type: "number", integer: true, min: 1, max: 50 },
+    TRAFFIC_WAIT_INTERVAL_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0,
+      max: 3600
+    },
+    TERMINATION_WAIT_SECONDS: { type: "number", integer: true, min: 0 },
+    MAXIMUM_EXECUTION_TIMEOUT_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 600,
+      max: 14400
+    },
+    ROLLBACK_ALARM_NAMES: { type: "string[]" },
+    AUTOSCALING_ENABLED: { type: "boolean" },
+    AUTOSCALING_MIN_CAPACITY: { type: "number", integer: true, min: 0 },
+    AUTOSCALING_MAX_CAPACITY: { type: "number", integer: true, min: 1 },
+    AUTOSCALING_TARGET_INVOCATIONS_PER_INSTANCE: { type: "number", min: 1 },
+    AUTOSCALING_TARGET_BACKLOG_PER_INSTANCE: { type: "number", min: 1 },
+    AUTOSCALING_LATENCY_THRESHOLD_MS: { type: "number", min: 1 },
+    AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0
+    },
+    AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0
+    },
+    AUTOSCALING_SCHEDULES: { type: "object[]" }
+  };
+
   /**
    * Creates an instance of MESMEndpointConfig.
    * @param config - The configuration object for MESMEndpoint.
    */
   constructor(config: ConfigType = {}) {
     super({
-      INITIAL_INSTANCE_TYPE: 1,
       INITIAL_VARIANT_WEIGHT: 1,
       INITIAL_INSTANCE_COUNT: 1,
       VARIANT_NAME: "AllTraffic",
       REPOSITORY_ACCESS_MODE: "Platform",
+      INFERENCE_EXECUTION_MODE: "Serial",
+      ENDPOINT_MODE: "realtime",
+      ASYNC_OUTPUT_BUCKET_PREFIX: "me-async-output",
+      SERVERLESS_MEMORY_SIZE_MB: 2048,
+      SERVERLESS_MAX_CONCURRENCY: 5,
+      TRAFFIC_STEP_PERCENT: 10,
+      TRAFFIC_WAIT_INTERVAL_SECONDS: 300,
+      TERMINATION_WAIT_SECONDS: 0,
+      AUTOSCALING_ENABLED: false,
+      AUTOSCALING_MIN_CAPACITY: 1,
+      AUTOSCALING_MAX_CAPACITY: 4,
+      AUTOSCALING_TARGET_INVOCATIONS_PER_INSTANCE: 100,
+      AUTOSCALING_TARGET_BACKLOG_PER_INSTANCE: 5,
+      AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS: 300,
+      AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS: 60,
       ...config
     });
   }
+
+  /**
+   * Validates the traffic step size against the limits of the deployment strategy,
+   * the autoscaling limits, and the options supported by the endpoint mode.
+   *
+   * @param config - The configuration object to validate.
+   * @returns The validation problems found.
+   */
+  protected static validate(config: ConfigType): string[] {
+    const errors = validateMinMax(
+      "AUTOSCALING_MIN_CAPACITY",
+      config.AUTOSCALING_MIN_CAPACITY,
+      "AUTOSCALING_MAX_CAPACITY",
+      config.AUTOSCALING_MAX_CAPACITY
+    );
+    if (
+      config.DEPLOYMENT_STRATEGY === "LINEAR" &&
+      typeof config.TRAFFIC_STEP_PERCENT === "number" &&
+      config.TRAFFIC_STEP_PERCENT < 10
+    ) {
+      errors.push(
+        `TRAFFIC_STEP_PERCENT: ${config.TRAFFIC_STEP_PERCENT} is below the minimum of 10 for LINEAR deployments`
+      );
+    }
+    if (
+      config.AUTOSCALING_MIN_CAPACITY === 0 &&
+      config.ENDPOINT_MODE !== "async"
+    ) {
+      errors.push(
+        "AUTOSCALING_MIN_CAPACITY: 0 is only supported when ENDPOINT_MODE is async"
+      );
+    }
+    if (config.ENDPOINT_MODE === "serverless") {
+      if (config.AUTOSCALING_ENABLED === true) {
+        errors.push(
+          "AUTOSCALING_ENABLED: serverless endpoints scale automatically and cannot be autoscaled"
+        );
+      }
+      if (
+        config.DEPLOYMENT_STRATEGY === "CANARY" ||
+        config.DEPLOYMENT_STRATEGY === "LINEAR"
+      ) {
+        errors.push(
+          `DEPLOYMENT_STRATEGY: ${config.DEPLOYMENT_STRATEGY} is not supported for serverless endpoints`
+        );
+      }
+    }
+    return errors;
+  }
+}
+
+/**
+ * Describes a production variant served by an MESMEndpoint.
+ *
+ * @interface MESMEndpointVariant
+ */
+export interface MESMEndpointVariant {
+  /**
+   * The name of the production variant.
+   *
+   * @type {string}
+   */
+  variantName: string;
+
+  /**
+   * The container image URI for the variant's model.
+   * Defaults to the endpoint's `containerImageUri`.
+   *
+   * @type {string | undefined}
+   */
+  containerImageUri?: string;
+
+  /**
+   * ENV variables to put into the variant's model container.
+   * Defaults to the configured `CONTAINER_ENV`.
+   *
+   * @type {Record<string, unknown> | undefined}
+   */
+  containerEnv?: Record<string, unknown>;
+
+  /**
+   * The containers of the variant's model, in pipeline order.
+   * Defaults to the endpoint's `containers`.
+   *
+   * @type {MESMEndpointContainer[] | undefined}
+   */
+  containers?: MESMEndpointContainer[];
+
+  /**
+   * The instance type for the variant.
+   * Defaults to the endpoint's `instanceType`.
+   *
+   * @type {string | undefined}
+   */
+  instanceType?: string;
+
+  /**
+   * The initial number of instances for the variant.
+   * Defaults to the configured `INITIAL_INSTANCE_COUNT`.
+   *
+   * @type {number | undefined}
+   */
+  initialInstanceCount?: number;
+
+  /**
+   * The relative share of traffic sent to the variant.
+   * Defaults to the configured `INITIAL_VARIANT_WEIGHT`.
+   *
+   * @type {number | undefined}
+   */
+  initialVariantWeight?: number;
 }
 
 /**
@@ -69,6 +489,14 @@ export class MESMEndpointConfig extends BaseConfig {
  * @interface MESMEndpointProps
  */
 export interface MESMEndpointProps {
+  /**
+   * (Optional) The OSML deployment account.
+   * Required to create the output bucket in async mode when `ASYNC_S3_OUTPUT_PATH` is unset.
+   *
+   * @type {OSMLAccount}
+   */
+  account?: OSMLAccount;
+
   /**
    * The Amazon Resource Name (ARN) of the role that provides permissions for the endpoint.
    *
@@ -104,6 +532,32 @@ export interface MESMEndpointProps {
    */
   subnetIds: string[];
 
+  /**
+   * (Optional) The production variants to serve from the endpoint, e.g. to A/B test model versions.
+   * When unset, a single variant is built from the endpoint properties and configuration.
+   *
+   * @type {MESMEndpointVariant[]}
+   */
+  variants?: MESMEndpointVariant[];
+
+  /**
+   * (Optional) The containers of the model, in pipeline order, e.g. a preprocessing
+   * container, the detector, and a postprocessing container.
+   * When set, these replace the single `containerImageUri` container and run
+   * according to the configured `INFERENCE_EXECUTION_MODE`.
+   *
+   * @type {MESMEndpointContainer[]}
+   */
+  containers?: MESMEndpointContainer[];
+
+  /**
+   * (Optional) CloudWatch alarms that roll back an endpoint deployment when triggered.
+   * Combined with the configured `ROLLBACK_ALARM_NAMES`.
+   *
+   * @type {IAlarm[]}
+   */
+  rollbackAlarms?: IAlarm[];
+
   /**
    * (Optional) Configuration settings for MESMEndpoint resources.
    *
@@ -117,10 +571,15 @@ export interface MESMEndpointProps {
  */
 export class MESMEndpoint extends Construct {
   /**
-   * The SageMaker model configuration.
+   * The SageMaker model configuration of the first variant.
    */
   public model: CfnModel;
 
+  /**
+   * The SageMaker model configurations of every variant, in variant order.
+   */
+  public models: CfnModel[];
+
   /**
    * The SageMaker endpoint configuration.
    */
@@ -136,6 +595,26 @@ export class MESMEndpoint extends Construct {
    */
   public config: MESMEndpointConfig;
 
+  /**
+   * The autoscaling targets for each variant, in variant order, if autoscaling is enabled.
+   */
+  public scalableTargets?: ScalableTarget[];
+
+  /**
+   * The bucket receiving asynchronous inference results, if one was created.
+   */
+  public asyncOutputBucket?: OSMLBucket;
+
+  /**
+   * The topic notified when an asynchronous inference succeeds, in async mode.
+   */
+  public asyncSuccessTopic?: ITopic;
+
+  /**
+   * The topic notified when an asynchronous inference fails, in async mode.
+   */
+  public asyncErrorTopic?: ITopic;
+
   /**
    * Creates a SageMaker endpoint for the specified model.
    *
@@ -150,35 +629,79 @@ export class MESMEndpoint extends Construct {
     // Check if a custom configuration was provided for the model container
     this.config = props.config ?? new MESMEndpointConfig();
 
-    // Create a SageMaker model
-    this.model = new CfnModel(this, id, {
-      executionRoleArn: props.roleArn,
-      containers: [
+    const variants = props.variants ?? [
+      { variantName: this.config.VARIANT_NAME }
+    ];
+    const variantNames = variants.map((variant) => variant.variantName);
+    if (variants.length === 0) {
+      throw new Error("MESMEndpoint requires at least one variant.");
+    }
+    if (new Set(variantNames).size !== variantNames.length) {
+      throw new Error(
+        `MESMEndpoint variant names must be unique: ${variantNames.join(", ")}`
+      );
+    }
+
+    // Create a SageMaker model for each variant
+    this.models = variants.map((variant, index) => {
+      const containers = variant.containers ?? props.containers;
+      const model = new CfnModel(
+        this,
+        index === 0 ? id : `${id}-${variant.variantName}`,
         {
-          image: props.containerImageUri,
-          environment: this.config.CONTAINER_ENV,
-          imageConfig: {
-            repositoryAccessMode: this.config.REPOSITORY_ACCESS_MODE
+          executionRoleArn: props.roleArn,
+          containers: containers
+            ? this.buildContainers(variant.variantName, containers)
+            : [
+                {
+                  image: variant.containerImageUri ?? props.containerImageUri,
+                  environment:
+                    variant.containerEnv ?? this.config.CONTAINER_ENV,
+                  imageConfig: {
+                    repositoryAccessMode: this.config.REPOSITORY_ACCESS_MODE
+                  }
+                }
+              ],
+          inferenceExecutionConfig: containers
+            ? { mode: this.config.INFERENCE_EXECUTION_MODE }
+            : undefined,
+          vpcConfig: {
+            subnets: props.subnetIds,
+            securityGroupIds: [this.config.SECURITY_GROUP_ID]
           }
         }
-      ],
-      vpcConfig: {
-        subnets: props.subnetIds,
-        securityGroupIds: [this.config.SECURITY_GROUP_ID]
-      }
+      );
+      containers?.forEach((step) => model.node.addDependency(step.container));
+      return model;
     });
+    this.model = this.models[0];
 
     // Configure the SageMaker endpoint settings
+    const serverless = this.config.ENDPOINT_MODE === "serverless";
     this.endpointConfig = new CfnEndpointConfig(this, `${id}-EndpointConfig`, {
-      productionVariants: [
-        {
-          initialInstanceCount: this.config.INITIAL_INSTANCE_COUNT,
-          initialVariantWeight: this.config.INITIAL_VARIANT_WEIGHT,
-          instanceType: props.instanceType,
-          modelName: this.model.attrModelName,
-          variantName: this.config.VARIANT_NAME
-        }
-      ],
+      productionVariants: variants.map((variant, index) => ({
+        initialInstanceCount: serverless
+          ? undefined
+          : (variant.initialInstanceCount ??
+            this.config.INITIAL_INSTANCE_COUNT),
+        initialVariantWeight:
+          variant.initialVariantWeight ?? this.config.INITIAL_VARIANT_WEIGHT,
+        instanceType: serverless
+          ? undefined
+          : (variant.instanceType ?? props.instanceType),
+        serverlessConfig: serverless
+          ? {
+              memorySizeInMb: this.config.SERVERLESS_MEMORY_SIZE_MB,
+              maxConcurrency: this.config.SERVERLESS_MAX_CONCURRENCY
+            }
+          : undefined,
+        modelName: this.models[index].attrModelName,
+        variantName: variant.variantName
+      })),
+      asyncInferenceConfig:
+        this.config.ENDPOINT_MODE === "async"
+          ? this.buildAsyncInferenceConfig(props)
+          : undefined,
       tags: [
         { key: "Name", value: props.modelName },
         { key: "Timestamp", value: new Date().toISOString() }
@@ -188,7 +711,270 @@ export class MESMEndpoint extends Construct {
     // Host a SageMaker endpoint on top of the imported model container
     this.endpoint = new CfnEndpoint(this, `${id}-Endpoint`, {
       endpointConfigName: this.endpointConfig.attrEndpointConfigName,
-      endpointName: props.modelName
+      endpointName: props.modelName,
+      deploymentConfig: this.buildDeploymentConfig(props)
+    });
+
+    if (this.config.AUTOSCALING_ENABLED) {
+      this.scalableTargets = variantNames.map((variantName) =>
+        this.buildAutoscaling(variantName)
+      );
+    }
+  }
+
+  /**
+   * Builds the container definitions of a multi-container model.
+   *
+   * @param {string} variantName - The name of the variant the model serves.
+   * @param {MESMEndpointContainer[]} containers - The containers of the model, in pipeline order.
+   * @returns {CfnModel.ContainerDefinitionProperty[]} The container definitions.
+   * @throws {Error} If the number of containers is out of range, or a Direct mode container has no hostname.
+   */
+  private buildContainers(
+    variantName: string,
+    containers: MESMEndpointContainer[]
+  ): CfnModel.ContainerDefinitionProperty[] {
+    if (containers.length < 1 || containers.length > MAX_MODEL_CONTAINERS) {
+      throw new Error(
+        `MESMEndpoint variant ${variantName} must have between 1 and ${MAX_MODEL_CONTAINERS} containers.`
+      );
+    }
+    const direct = this.config.INFERENCE_EXECUTION_MODE === "Direct";
+    if (direct && containers.some((step) => !step.containerHostname)) {
+      throw new Error(
+        `MESMEndpoint variant ${variantName} requires a containerHostname for each container in Direct mode.`
+      );
+    }
+
+    return containers.map((step) => ({
+      image: step.container.containerUri,
+      environment: step.containerEnv,
+      containerHostname: step.containerHostname,
+      imageConfig: {
+        repositoryAccessMode: step.container.repositoryAccessMode
+      }
+    }));
+  }
+
+  /**
+   * Builds the output location and notification topics for asynchronous inference,
+   * and grants the endpoint role access to them.
+   *
+   * @param {MESMEndpointProps} props - The properties of this construct.
+   * @returns {CfnEndpointConfig.AsyncInferenceConfigProperty} The async inference configuration.
+   * @throws {Error} If an output bucket is needed and no account was provided.
+   */
+  private buildAsyncInferenceConfig(
+    props: MESMEndpointProps
+  ): CfnEndpointConfig.AsyncInferenceConfigProperty {
+    const role = Role.fromRoleArn(this, "ImportedSMRole", props.roleArn);
+
+    let s3OutputPath = this.config.ASYNC_S3_OUTPUT_PATH;
+    if (s3OutputPath == undefined) {
+      if (props.account == undefined) {
+        throw new Error(
+          "MESMEndpoint requires an account or ASYNC_S3_OUTPUT_PATH in async mode."
+        );
+      }
+      // S3 bucket names are limited to 63 lowercase letters, numbers, hyphens and periods,
+      // and prod-like accounts add a "-access-logs" bucket named after this one
+      const prefix = this.config.ASYNC_OUTPUT_BUCKET_PREFIX;
+      const bucketModelName = props.modelName
+        .toLowerCase()
+        .replace(/[^a-z0-9-]/g, "-")
+        .slice(0, 51 - prefix.length - props.account.id.length - 2);
+      this.asyncOutputBucket = new OSMLBucket(this, "MEAsyncOutputBucket", {
+        bucketName: `${prefix}-${bucketModelName}-${props.account.id}`,
+        prodLike: props.account.prodLike,
+        removalPolicy: props.account.prodLike
+          ? RemovalPolicy.RETAIN
+          : RemovalPolicy.DESTROY
+      });
+      this.asyncOutputBucket.bucket.grantReadWrite(role);
+      s3OutputPath = this.asyncOutputBucket.bucket.s3UrlForObject("output");
+    }
+
+    const successTopic = new OSMLTopic(this, "MEAsyncSuccessTopic", {
+      topicName: `${props.modelName}-async-success`
+    });
+    const errorTopic = new OSMLTopic(this, "MEAsyncErrorTopic", {
+      topicName: `${props.modelName}-async-error`
+    });
+    for (const osmlTopic of [successTopic, errorTopic]) {
+      osmlTopic.topic.grantPublish(role);
+      // Publishing to an encrypted topic also requires use of its key
+      osmlTopic.key.grant(role, "kms:GenerateDataKey*", "kms:Decrypt");
+    }
+    this.asyncSuccessTopic = successTopic.topic;
+    this.asyncErrorTopic = errorTopic.topic;
+
+    return {
+      outputConfig: {
+        s3OutputPath: s3OutputPath,
+        notificationConfig: {
+          successTopic: this.asyncSuccessTopic.topicArn,
+          errorTopic: this.asyncErrorTopic.topicArn
+        }
+      },
+      clientConfig:
+        this.config.ASYNC_MAX_CONCURRENT_INVOCATIONS_PER_INSTANCE != undefined
+          ? {
+              maxConcurrentInvocationsPerInstance:
+                this.config.ASYNC_MAX_CONCURRENT_INVOCATIONS_PER_INSTANCE
+            }
+          : undefined
+    };
+  }
+
+  /**
+   * Builds the Application Auto Scaling target and policies for a variant.
+   *
+   * @param {string} variantName - The name of the variant to scale.
+   * @returns {ScalableTarget} The scalable target for the variant.
+   */
+  private buildAutoscaling(variantName: string): ScalableTarget {
+    const target = new ScalableTarget(this, `${variantName}ScalableTarget`, {
+      serviceNamespace: ServiceNamespace.SAGEMAKER,
+      resourceId: `endpoint/${this.endpoint.attrEndpointName}/variant/${variantName}`,
+      scalableDimension: "sagemaker:variant:DesiredInstanceCount",
+      minCapacity: this.config.AUTOSCALING_MIN_CAPACITY,
+      maxCapacity: this.config.AUTOSCALING_MAX_CAPACITY
     });
+
+    const scaleInCooldown = Duration.seconds(
+      this.config.AUTOSCALING_SCALE_IN_COOLDOWN_SECONDS
+    );
+    const scaleOutCooldown = Duration.seconds(
+      this.config.AUTOSCALING_SCALE_OUT_COOLDOWN_SECONDS
+    );
+
+    if (this.config.ENDPOINT_MODE === "async") {
+      // Track the queued requests waiting on each instance
+      target.scaleToTrackMetric(`${variantName}BacklogScaling`, {
+        customMetric: this.endpointMetric("ApproximateBacklogSizePerInstance"),
+        targetValue: this.config.AUTOSCALING_TARGET_BACKLOG_PER_INSTANCE,
+        scaleInCooldown: scaleInCooldown,
+        scaleOutCooldown: scaleOutCooldown
+      });
+
+      // Target tracking cannot scale out from zero, so add an instance when work arrives
+      if (this.config.AUTOSCALING_MIN_CAPACITY === 0) {
+        target.scaleOnMetric(`${variantName}ScaleFromZero`, {
+          metric: this.endpointMetric("HasBacklogWithoutCapacity"),
+          scalingSteps: [
+            { upper: 0.5, change: 0 },
+            { lower: 0.5, change: +1 }
+          ],
+          adjustmentType: AdjustmentType.CHANGE_IN_CAPACITY,
+          cooldown: scaleOutCooldown
+        });
+      }
+    } else {
+      // Track the invocation rate handled by each instance
+      target.scaleToTrackMetric(`${variantName}InvocationsScaling`, {
+        predefinedMetric:
+          PredefinedMetric.SAGEMAKER_VARIANT_INVOCATIONS_PER_INSTANCE,
+        targetValue: this.config.AUTOSCALING_TARGET_INVOCATIONS_PER_INSTANCE,
+        scaleInCooldown: scaleInCooldown,
+        scaleOutCooldown: scaleOutCooldown
+      });
+    }
+
+    // Step scale on model latency, which SageMaker reports in microseconds
+    const latencyThreshold = this.config.AUTOSCALING_LATENCY_THRESHOLD_MS;
+    if (latencyThreshold != undefined) {
+      target.scaleOnMetric(`${variantName}LatencyScaling`, {
+        metric: new Metric({
+          namespace: "AWS/SageMaker",
+          metricName: "ModelLatency",
+          dimensionsMap: {
+            EndpointName: this.endpoint.attrEndpointName,
+            VariantName: variantName
+          },
+          statistic: "Average",
+          period: Duration.minutes(1)
+        }),
+        // Scale out only, leaving scale in to target tracking and its scale in cooldown
+        scalingSteps: [
+          { lower: latencyThreshold * 1000, change: +1 },
+          { lower: latencyThreshold * 2000, change: +2 }
+        ],
+        adjustmentType: AdjustmentType.CHANGE_IN_CAPACITY,
+        cooldown: scaleOutCooldown
+      });
+    }
+
+    // Apply any scheduled changes to the capacity limits
+    this.config.AUTOSCALING_SCHEDULES?.forEach((schedule, index) => {
+      target.scaleOnSchedule(`${variantName}Schedule${index}`, {
+        schedule: Schedule.expression(schedule.schedule),
+        minCapacity: schedule.minCapacity,
+        maxCapacity: schedule.maxCapacity
+      });
+    });
+
+    return target;
+  }
+
+  /**
+   * Creates a metric for an endpoint-level SageMaker statistic.
+   *
+   * @param {string} metricName - The name of the SageMaker metric.
+   * @returns {Metric} The metric averaged over one minute.
+   */
+  private endpointMetric(metricName: string): Metric {
+    return new Metric({
+      namespace: "AWS/SageMaker",
+      metricName: metricName,
+      dimensionsMap: { EndpointName: this.endpoint.attrEndpointName },
+      statistic: "Average",
+      period: Duration.minutes(1)
+    });
+  }
+
+  /**
+   * Builds the blue/green deployment configuration used when the endpoint is updated.
+   *
+   * @param {MESMEndpointProps} props - The properties of this construct.
+   * @returns {CfnEndpoint.DeploymentConfigProperty | undefined} The deployment configuration,
+   *          or undefined if no deployment strategy is configured.
+   */
+  private buildDeploymentConfig(
+    props: MESMEndpointProps
+  ): CfnEndpoint.DeploymentConfigProperty | undefined {
+    const strategy = this.config.DEPLOYMENT_STRATEGY;
+    if (strategy == undefined) {
+      return undefined;
+    }
+
+    const stepSize: CfnEndpoint.CapacitySizeProperty = {
+      type: "CAPACITY_PERCENT",
+      value: this.config.TRAFFIC_STEP_PERCENT
+    };
+    const alarmNames = [
+      ...(this.config.ROLLBACK_ALARM_NAMES ?? []),
+      ...(props.rollbackAlarms ?? []).map((alarm) => alarm.alarmName)
+    ];
+
+    return {
+      blueGreenUpdatePolicy: {
+        trafficRoutingConfiguration: {
+          type: strategy,
+          canarySize: strategy === "CANARY" ? stepSize : undefined,
+          linearStepSize: strategy === "LINEAR" ? stepSize : undefined,
+          waitIntervalInSeconds:
+            strategy === "ALL_AT_ONCE"
+              ? undefined
+              : this.config.TRAFFIC_WAIT_INTERVAL_SECONDS
+        },
+        terminationWaitInSeconds: this.config.TERMINATION_WAIT_SECONDS,
+        maximumExecutionTimeoutInSeconds:
+          this.config.MAXIMUM_EXECUTION_TIMEOUT_SECONDS
+      },
+      autoRollbackConfiguration:
+        alarmNames.length > 0
+          ? { alarms: alarmNames.map((alarmName) => ({ alarmName })) }
+          : undefined
+    };
   }
 }
@@ -8,8 +8,14 @@ import { Construct } from "constructs";
 
 import { OSMLAccount } from "../osml_account";
 import { OSMLContainer, OSMLContainerConfig } from "../osml_container";
+import { OSMLTls } from "../osml_tls";
 import { OSMLVpc } from "../osml_vpc";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import {
+  ConfigSchema,
+  FARGATE_TASK_CPU_VALUES,
+  validateFargateTaskSize
+} from "../utils/config_schema";
 import { RegionalConfig } from "../utils/regional_config";
 import { MEHTTPEndpoint } from "./me_http_endpoint";
 import { MESMEndpoint, MESMEndpointConfig } from "./me_sm_endpoint";
@@ -161,6 +167,46 @@ export class METestEndpointsConfig extends BaseConfig {
    */
   public SM_ROLE_NAME?: string | undefined;
 
+  /**
+   * The schema describing the allowed METestEndpointsConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    BUILD_FROM_SOURCE: { type: "boolean" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    CONTAINER_BUILD_TARGET: { type: "string" },
+    CONTAINER_DOCKERFILE: { type: "string" },
+    CONTAINER_URI: { type: "string" },
+    DEPLOY_HTTP_AIRCRAFT_ENDPOINT: { type: "boolean" },
+    DEPLOY_SM_AIRCRAFT_ENDPOINT: { type: "boolean" },
+    DEPLOY_SM_CENTERPOINT_ENDPOINT: { type: "boolean" },
+    DEPLOY_SM_FLOOD_ENDPOINT: { type: "boolean" },
+    HTTP_ENDPOINT_CPU: { type: "number", values: FARGATE_TASK_CPU_VALUES },
+    HTTP_ENDPOINT_CONTAINER_PORT: {
+      type: "number",
+      integer: true,
+      min: 1,
+      max: 65535
+    },
+    HTTP_ENDPOINT_DOMAIN_NAME: { type: "string" },
+    HTTP_ENDPOINT_NAME: { type: "string" },
+    HTTP_ENDPOINT_HOST_PORT: {
+      type: "number",
+      integer: true,
+      min: 1,
+      max: 65535
+    },
+    HTTP_ENDPOINT_HEALTHCHECK_PATH: { type: "string", pattern: /^\// },
+    HTTP_ENDPOINT_MEMORY: { type: "number", integer: true, min: 512 },
+    HTTP_ENDPOINT_ROLE_NAME: { type: "string" },
+    SECURITY_GROUP_ID: { type: "string" },
+    SM_AIRCRAFT_MODEL: { type: "string" },
+    SM_CENTER_POINT_MODEL: { type: "string" },
+    SM_CPU_INSTANCE_TYPE: { type: "string", pattern: /^ml\./ },
+    SM_FLOOD_MODEL: { type: "string" },
+    SM_GPU_INSTANCE_TYPE: { type: "string", pattern: /^ml\./ },
+    SM_ROLE_NAME: { type: "string" }
+  };
+
   /**
    * Constructor for METestEndpointsConfig.
    * @param config - The configuration object for METestEndpoints.
@@ -190,6 +236,21 @@ export class METestEndpointsConfig extends BaseConfig {
       ...config
     });
   }
+
+  /**
+   * Validates the Fargate task size of the HTTP endpoint.
+   *
+   * @param config - The configuration object being validated.
+   * @returns A list of validation problems, empty if the configuration is valid.
+   */
+  protected static validate(config: ConfigType): string[] {
+    return validateFargateTaskSize(
+      "HTTP_ENDPOINT_CPU",
+      config.HTTP_ENDPOINT_CPU,
+      "HTTP_ENDPOINT_MEMORY",
+      config.HTTP_ENDPOINT_MEMORY
+    );
+  }
 }
 
 /**
@@ -225,6 +286,13 @@ export interface METestEndpointsProps {
    * @type {IRole}
    */
   smRole?: IRole;
+
+  /**
+   * (Optional) The TLS configuration for the HTTP endpoint's load balancer.
+   *
+   * @type {OSMLTls}
+   */
+  tls?: OSMLTls;
 }
 
 /**
@@ -381,7 +449,8 @@ export class METestEndpoints extends Construct {
           containerEnv: {
             MODEL_SELECTION: this.config.SM_CENTER_POINT_MODEL
           },
-          securityGroupId: this.securityGroupId
+          securityGroupId: this.securityGroupId,
+          tls: props.tls
         }
       );
       this.httpCenterpointModelEndpoint.node.addDependency(this.modelContainer);
@@ -0,0 +1,130 @@
+# Copyright 2025 Amazon.com, Inc. or its affiliates.
+
+import json
+import os
+from datetime import datetime, timezone
+from typing import Any, Dict, Iterator, List, Optional, Tuple
+
+import boto3
+
+s3 = boto3.client("s3")
+sns = boto3.client("sns")
+
+
+def lambda_handler(event: Dict[str, Any], context) -> Dict[str, Any]:
+    """
+    Publish a STAC item for the features of each completed Model Runner image job.
+
+    :param event: SNS event carrying Model Runner image status messages
+    :param context: Lambda context
+
+    :return: The number of STAC items published
+    """
+    published = 0
+    for record in event.get("Records", []):
+        attributes = record["Sns"].get("MessageAttributes", {})
+        job_id = attributes.get("job_id", {}).get("Value")
+        if not job_id:
+            print("Skipping image status message without a job_id")
+            continue
+
+        key = job_output_key(job_id)
+        item = build_stac_item(job_id, key)
+        if item is None:
+            print(f"Skipping s3://{os.environ['SINK_BUCKET']}/{key} with no features")
+            continue
+        sns.publish(TopicArn=os.environ["INGEST_TOPIC_ARN"], Message=json.dumps(item))
+        published += 1
+
+    print(f"Published {published} STAC items")
+    return {"published": published}
+
+
+def job_output_key(job_id: str) -> str:
+    """
+    Return the key Model Runner writes a job's GeoJSON feature collection to in the sink bucket.
+
+    :param job_id: The Model Runner job ID
+
+    :return: The object key
+    """
+    prefix = os.environ.get("SINK_PREFIX", "").strip("/")
+    return f"{prefix}/{job_id}.geojson" if prefix else f"{job_id}.geojson"
+
+
+def build_stac_item(job_id: str, key: str) -> Optional[Dict[str, Any]]:
+    """
+    Build a STAC item describing a feature collection written by Model Runner.
+
+    :param job_id: The Model Runner job ID
+    :param key: The object key of the feature collection
+
+    :return: The STAC item, or None if the collection is missing or has no features
+    """
+    bucket = os.environ["SINK_BUCKET"]
+    try:
+        body = s3.get_object(Bucket=bucket, Key=key)["Body"].read()
+    except s3.exceptions.NoSuchKey:
+        return None
+    features = json.loads(body).get("features", [])
+    bbox = feature_bbox(features)
+    if bbox is None:
+        return None
+
+    min_x, min_y, max_x, max_y = bbox
+    return {
+        "type": "Feature",
+        "stac_version": "1.0.0",
+        "id": job_id,
+        "collection": os.environ["STAC_COLLECTION"],
+        "bbox": [min_x, min_y, max_x, max_y],
+        "geometry": {
+            "type": "Polygon",
+            "coordinates": [[[min_x, min_y], [max_x, min_y], [max_x, max_y], [min_x, max_y], [min_x, min_y]]],
+        },
+        "properties": {
+            "datetime": datetime.now(timezone.utc).isoformat(),
+            "feature_count": len(features),
+        },
+        "links": [],
+        "assets": {
+            "detections": {
+                "href": f"s3://{bucket}/{key}",
+                "type": "application/geo+json",
+                "roles": ["data"],
+            }
+        },
+    }
+
+
+def feature_bbox(features: List[Dict[str, Any]]) -> Optional[Tuple[float, float, float, float]]:
+    """
+    Compute the bounding box of a list of GeoJSON features.
+
+    :param features: The GeoJSON features
+
+    :return: The (min_x, min_y, max_x, max_y) bounding box, or None if there are no coordinates
+    """
+    points = [point for feature in features for point in flatten(feature.get("geometry", {}).get("coordinates"))]
+    if not points:
+        return None
+    xs = [point[0] for point in points]
+    ys = [point[1] for point in points]
+    return min(xs), min(ys), max(xs), max(ys)
+
+
+def flatten(coordinates: Any) -> Iterator[List[float]]:
+    """
+    Yield every position in a nested GeoJSON coordinate array.
+
+    :param coordinates: The GeoJSON coordinates
+
+    :return: The positions
+    """
+    if not isinstance(coordinates, list) or not coordinates:
+        return
+    if isinstance(coordinates[0], (int, float)):
+        yield coordinates
+    else:
+        for child in coordinates:
+            yield from flatten(child)
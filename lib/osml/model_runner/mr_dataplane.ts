@@ -44,6 +44,13 @@ import { OSMLTable } from "../osml_table";
 import { OSMLTopic } from "../osml_topic";
 import { OSMLVpc } from "../osml_vpc";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import {
+  ConfigSchema,
+  FARGATE_TASK_CPU_VALUES,
+  validateContainerFitsTask,
+  validateFargateTaskSize,
+  validateMinMax
+} from "../utils/config_schema";
 import { RegionalConfig } from "../utils/regional_config";
 import { MRMonitoring } from "./mr_monitoring";
 import { MRExecutionRole } from "./roles/mr_execution_role";
@@ -111,7 +118,7 @@ export class MRDataplaneConfig extends BaseConfig {
    * The name of the DynamoDB table for outstanding image jobs.
    * @default "OutstandingImageProcessingJobs"
    */
-  public DDB_OUTSTANDING_IMAGE_JOBS_TABLE: string
+  public DDB_OUTSTANDING_IMAGE_JOBS_TABLE: string;
 
   /**
    * The name of the DynamoDB table for region request status.
@@ -221,6 +228,68 @@ export class MRDataplaneConfig extends BaseConfig {
    */
   public ECS_TASK_ROLE_NAME?: string | undefined;
 
+  /**
+   * The number of messages in a dead letter queue that raises an alarm.
+   * @default 1
+   */
+  public MR_ALARM_DLQ_DEPTH_THRESHOLD: number;
+
+  /**
+   * The number of consecutive periods a threshold must be breached to raise an alarm.
+   * @default 3
+   */
+  public MR_ALARM_EVALUATION_PERIODS: number;
+
+  /**
+   * The p95 image processing duration, in seconds, that raises an alarm.
+   * @default 900
+   */
+  public MR_ALARM_IMAGE_DURATION_P95_SECONDS: number;
+
+  /**
+   * The image input formats to alarm on image processing duration for.
+   * @default ["NITF", "TIFF"]
+   */
+  public MR_ALARM_INPUT_FORMATS: string[];
+
+  /**
+   * The percentage of failed model invocations that raises an alarm.
+   * @default 5
+   */
+  public MR_ALARM_MODEL_ERROR_RATE_PERCENT: number;
+
+  /**
+   * The model names to alarm on invocation errors and image processing duration for.
+   * Model Runner publishes these metrics per model, so models must be listed to be alarmed on.
+   * @default undefined
+   */
+  public MR_ALARM_MODEL_NAMES?: string[] | undefined;
+
+  /**
+   * Which alarms notify the alarm topic: "each" for every individual alarm, or "composite"
+   * for only the composite alarm raised when any of them is, so one incident notifies once.
+   * @default "each"
+   */
+  public MR_ALARM_NOTIFICATIONS: string;
+
+  /**
+   * The age, in seconds, of the oldest image request that raises an alarm.
+   * @default 3600
+   */
+  public MR_ALARM_OLDEST_MESSAGE_AGE_SECONDS: number;
+
+  /**
+   * The period, in seconds, alarm metrics are evaluated over.
+   * @default 300
+   */
+  public MR_ALARM_PERIOD_SECONDS: number;
+
+  /**
+   * Whether to deploy CloudWatch alarms for model runner. Requires MR_ENABLE_MONITORING.
+   * @default false
+   */
+  public MR_ENABLE_ALARMS: boolean;
+
   /**
    * Whether to deploy image status messages.
    * @default true
@@ -329,6 +398,80 @@ export class MRDataplaneConfig extends BaseConfig {
    */
   public SQS_REGION_STATUS_QUEUE: string;
 
+  /**
+   * The schema describing the allowed MRDataplaneConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    BUILD_FROM_SOURCE: { type: "boolean" },
+    CW_METRICS_NAMESPACE: { type: "string" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    CONTAINER_BUILD_TARGET: { type: "string" },
+    CONTAINER_DOCKERFILE: { type: "string" },
+    CONTAINER_URI: { type: "string" },
+    DDB_ENDPOINT_PROCESSING_TABLE: { type: "string" },
+    DDB_FEATURES_TABLE: { type: "string" },
+    DDB_JOB_STATUS_TABLE: { type: "string" },
+    DDB_OUTSTANDING_IMAGE_JOBS_TABLE: { type: "string" },
+    DDB_REGION_REQUEST_TABLE: { type: "string" },
+    DDB_TTL_ATTRIBUTE: { type: "string" },
+    ECS_AUTOSCALING_TASK_MAX_COUNT: { type: "number", integer: true, min: 1 },
+    ECS_AUTOSCALING_TASK_MIN_COUNT: { type: "number", integer: true, min: 0 },
+    ECS_AUTOSCALING_TASK_IN_COOLDOWN: { type: "number", min: 0 },
+    ECS_AUTOSCALING_TASK_IN_INCREMENT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_AUTOSCALING_TASK_OUT_COOLDOWN: { type: "number", min: 0 },
+    ECS_AUTOSCALING_TASK_OUT_INCREMENT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_CONTAINER_CPU: { type: "number", integer: true, min: 128 },
+    ECS_CONTAINER_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_CONTAINER_NAME: { type: "string" },
+    ECS_CLUSTER_NAME: { type: "string" },
+    ECS_DEFAULT_DESIRE_COUNT: { type: "number", integer: true, min: 0 },
+    ECS_SECURITY_GROUP_ID: { type: "string" },
+    ECS_TASK_CPU: { type: "number", values: FARGATE_TASK_CPU_VALUES },
+    ECS_TASK_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_EXECUTION_ROLE_NAME: { type: "string" },
+    ECS_TASK_ROLE_NAME: { type: "string" },
+    MR_ALARM_DLQ_DEPTH_THRESHOLD: { type: "number", integer: true, min: 1 },
+    MR_ALARM_EVALUATION_PERIODS: { type: "number", integer: true, min: 1 },
+    MR_ALARM_IMAGE_DURATION_P95_SECONDS: { type: "number", min: 1 },
+    MR_ALARM_INPUT_FORMATS: { type: "string[]" },
+    MR_ALARM_MODEL_ERROR_RATE_PERCENT: { type: "number", min: 0, max: 100 },
+    MR_ALARM_MODEL_NAMES: { type: "string[]" },
+    MR_ALARM_NOTIFICATIONS: { type: "string", values: ["each", "composite"] },
+    MR_ALARM_OLDEST_MESSAGE_AGE_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 60
+    },
+    MR_ALARM_PERIOD_SECONDS: { type: "number", values: [60, 300, 900, 3600] },
+    MR_ENABLE_ALARMS: { type: "boolean" },
+    MR_ENABLE_IMAGE_STATUS: { type: "boolean" },
+    MR_ENABLE_KINESIS_SINK: { type: "boolean" },
+    MR_ENABLE_MONITORING: { type: "boolean" },
+    MR_ENABLE_REGION_STATUS: { type: "boolean" },
+    MR_ENABLE_S3_SINK: { type: "boolean" },
+    MR_KINESIS_SINK_STREAM_PREFIX: { type: "string" },
+    MR_REGION_SIZE: { type: "string", pattern: /^\(\s*\d+\s*,\s*\d+\s*\)$/ },
+    MR_TERRAIN_URI: { type: "string" },
+    MR_WORKERS_PER_CPU: { type: "number", integer: true, min: 1 },
+    S3_SINK_BUCKET_PREFIX: { type: "string" },
+    SNS_IMAGE_STATUS_TOPIC: { type: "string" },
+    SNS_IMAGE_STATUS_TOPIC_ARN: { type: "string" },
+    SNS_REGION_STATUS_TOPIC: { type: "string" },
+    SNS_REGION_STATUS_TOPIC_ARN: { type: "string" },
+    SQS_IMAGE_REQUEST_QUEUE: { type: "string" },
+    SQS_IMAGE_STATUS_QUEUE: { type: "string" },
+    SQS_REGION_REQUEST_QUEUE: { type: "string" },
+    SQS_REGION_STATUS_QUEUE: { type: "string" }
+  };
+
   /**
    * Constructor for MRDataplaneConfig.
    * @param config - The configuration object for MRDataplane.
@@ -360,6 +503,15 @@ export class MRDataplaneConfig extends BaseConfig {
       ECS_DEFAULT_DESIRE_COUNT: 1,
       ECS_TASK_CPU: 8192,
       ECS_TASK_MEMORY: 16384,
+      MR_ALARM_DLQ_DEPTH_THRESHOLD: 1,
+      MR_ALARM_EVALUATION_PERIODS: 3,
+      MR_ALARM_IMAGE_DURATION_P95_SECONDS: 900,
+      MR_ALARM_INPUT_FORMATS: ["NITF", "TIFF"],
+      MR_ALARM_MODEL_ERROR_RATE_PERCENT: 5,
+      MR_ALARM_NOTIFICATIONS: "each",
+      MR_ALARM_OLDEST_MESSAGE_AGE_SECONDS: 3600,
+      MR_ALARM_PERIOD_SECONDS: 300,
+      MR_ENABLE_ALARMS: false,
       MR_ENABLE_IMAGE_STATUS: true,
       MR_ENABLE_KINESIS_SINK: true,
       MR_ENABLE_MONITORING: true,
@@ -378,6 +530,45 @@ export class MRDataplaneConfig extends BaseConfig {
       ...config
     });
   }
+
+  /**
+   * Validates the Fargate task size, autoscaling bounds and alarm prerequisites.
+   *
+   * @param config - The configuration object being validated.
+   * @returns A list of validation problems, empty if the configuration is valid.
+   */
+  protected static validate(config: ConfigType): string[] {
+    return [
+      ...validateFargateTaskSize(
+        "ECS_TASK_CPU",
+        config.ECS_TASK_CPU,
+        "ECS_TASK_MEMORY",
+        config.ECS_TASK_MEMORY
+      ),
+      ...validateContainerFitsTask(
+        "ECS_CONTAINER_CPU",
+        config.ECS_CONTAINER_CPU,
+        "ECS_TASK_CPU",
+        config.ECS_TASK_CPU
+      ),
+      ...validateContainerFitsTask(
+        "ECS_CONTAINER_MEMORY",
+        config.ECS_CONTAINER_MEMORY,
+        "ECS_TASK_MEMORY",
+        config.ECS_TASK_MEMORY
+      ),
+      ...validateMinMax(
+        "ECS_AUTOSCALING_TASK_MIN_COUNT",
+        config.ECS_AUTOSCALING_TASK_MIN_COUNT,
+        "ECS_AUTOSCALING_TASK_MAX_COUNT",
+        config.ECS_AUTOSCALING_TASK_MAX_COUNT
+      ),
+      ...(config.MR_ENABLE_ALARMS === true &&
+      config.MR_ENABLE_MONITORING === false
+        ? ["MR_ENABLE_ALARMS: requires MR_ENABLE_MONITORING"]
+        : [])
+    ];
+  }
 }
 
 /**
@@ -396,6 +587,12 @@ export interface MRDataplaneProps {
    */
   osmlVpc: OSMLVpc;
 
+  /**
+   * The SNS topic alarm notifications are routed to when MR_ENABLE_ALARMS is set (optional).
+   * @type {ITopic | undefined}
+   */
+  alarmTopic?: ITopic;
+
   /**
    * Custom configuration for the MRDataplane Construct (optional).
    * @type {MRDataplaneConfig | undefined}
@@ -569,18 +766,22 @@ export class MRDataplane extends Construct {
     this.setup(props);
 
     // Outstanding jobs currently being tracked by the scheduler
-    this.outstandingImageJobsTable = new OSMLTable(this, "MROutstandingImageJobsTable", {
-      tableName: this.config.DDB_OUTSTANDING_IMAGE_JOBS_TABLE,
-      partitionKey: {
-        name: "endpoint_id",
-        type: AttributeType.STRING
-      },
-      sortKey: {
-        name: "job_id",
-        type: AttributeType.STRING
-      },
-      removalPolicy: this.removalPolicy,
-    });
+    this.outstandingImageJobsTable = new OSMLTable(
+      this,
+      "MROutstandingImageJobsTable",
+      {
+        tableName: this.config.DDB_OUTSTANDING_IMAGE_JOBS_TABLE,
+        partitionKey: {
+          name: "endpoint_id",
+          type: AttributeType.STRING
+        },
+        sortKey: {
+          name: "job_id",
+          type: AttributeType.STRING
+        },
+        removalPolicy: this.removalPolicy
+      }
+    );
 
     // Job status table to store worker status info
     this.jobStatusTable = new OSMLTable(this, "MRJobStatusTable", {
@@ -832,7 +1033,7 @@ export class MRDataplane extends Construct {
   }
 
   /**
-   * Builds a monitoring dashboard for the MR service if monitoring is enabled.
+   * Builds a monitoring dashboard, and alarms if enabled, for the MR service.
    *
    * @param {MRDataplaneProps} props - The properties for configuring the MRDataplane Construct.
    */
@@ -844,7 +1045,8 @@ export class MRDataplane extends Construct {
       imageRequestDlQueue: this.imageRequestQueue.dlQueue,
       regionRequestDlQueue: this.regionRequestQueue.dlQueue,
       service: this.fargateService,
-      mrDataplaneConfig: this.config
+      mrDataplaneConfig: this.config,
+      alarmTopic: props.alarmTopic
     });
   }
 
@@ -0,0 +1,261 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Duration } from "aws-cdk-lib";
+import { ISecurityGroup, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { IRole, Role } from "aws-cdk-lib/aws-iam";
+import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { ITopic, SubscriptionFilter } from "aws-cdk-lib/aws-sns";
+import { LambdaSubscription } from "aws-cdk-lib/aws-sns-subscriptions";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { OSMLVpc } from "../osml_vpc";
+import { resolvePackagePath } from "../utils/asset_path";
+import { BaseConfig, ConfigType } from "../utils/base_config";
+import { ConfigSchema } from "../utils/config_schema";
+import { MRDataplane } from "./mr_dataplane";
+
+/**
+ * Configuration class for MRDCBridge Construct.
+ */
+export class MRDCBridgeConfig extends BaseConfig {
+  /**
+   * The image statuses that trigger publishing a job's results to the catalog.
+   * @default ["SUCCESS", "PARTIAL"]
+   */
+  public IMAGE_STATUSES: string[];
+
+  /**
+   * The name of the bridge Lambda function.
+   * @default "MRDCBridgeLambda"
+   */
+  public LAMBDA_FUNCTION_NAME: string;
+
+  /**
+   * The memory in MB to give the lambda runtime.
+   * @default 512
+   */
+  public LAMBDA_MEMORY_SIZE: number;
+
+  /**
+   * The name of an existing role to use for the bridge Lambda.
+   * @default undefined
+   */
+  public LAMBDA_ROLE_NAME?: string | undefined;
+
+  /**
+   * The security group ID to use for the bridge Lambda.
+   * @default undefined
+   */
+  public LAMBDA_SECURITY_GROUP_ID?: string | undefined;
+
+  /**
+   * The timeout, in seconds, for the Lambda function.
+   * @default 300
+   */
+  public LAMBDA_TIMEOUT: number;
+
+  /**
+   * The key prefix Model Runner writes job results under in the sink bucket. Each job's
+   * results are read from "<SINK_PREFIX>/<job_id>.geojson".
+   * @default ""
+   */
+  public SINK_PREFIX: string;
+
+  /**
+   * The STAC collection to assign the generated items.
+   * @default "OSML"
+   */
+  public STAC_COLLECTION: string;
+
+  /**
+   * The schema describing the allowed MRDCBridgeConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    IMAGE_STATUSES: { type: "string[]" },
+    LAMBDA_FUNCTION_NAME: { type: "string" },
+    LAMBDA_MEMORY_SIZE: { type: "number", integer: true, min: 128, max: 10240 },
+    LAMBDA_ROLE_NAME: { type: "string" },
+    LAMBDA_SECURITY_GROUP_ID: { type: "string" },
+    LAMBDA_TIMEOUT: { type: "number", integer: true, min: 1, max: 900 },
+    SINK_PREFIX: { type: "string" },
+    STAC_COLLECTION: { type: "string" }
+  };
+
+  /**
+   * Constructor for MRDCBridgeConfig.
+   * @param config - The configuration object for MRDCBridge.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      IMAGE_STATUSES: ["SUCCESS", "PARTIAL"],
+      LAMBDA_FUNCTION_NAME: "MRDCBridgeLambda",
+      LAMBDA_MEMORY_SIZE: 512,
+      LAMBDA_TIMEOUT: 300,
+      SINK_PREFIX: "",
+      STAC_COLLECTION: "OSML",
+      ...config
+    });
+  }
+}
+
+/**
+ * Interface representing properties for configuring the MRDCBridge Construct.
+ */
+export interface MRDCBridgeProps {
+  /**
+   * The OSML deployment account.
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The OSML VPC (Virtual Private Cloud) configuration for the bridge.
+   * @type {OSMLVpc}
+   */
+  osmlVpc: OSMLVpc;
+
+  /**
+   * The Model Runner dataplane whose results should be catalogued.
+   * It must have image status tracking and the S3 sink enabled.
+   * @type {MRDataplane}
+   */
+  mrDataplane: MRDataplane;
+
+  /**
+   * The Data Catalog ingest topic to publish STAC items to.
+   * @type {ITopic}
+   */
+  ingestTopic: ITopic;
+
+  /**
+   * Custom configuration for the MRDCBridge Construct (optional).
+   * @type {MRDCBridgeConfig | undefined}
+   */
+  config?: MRDCBridgeConfig;
+}
+
+/**
+ * Represents a bridge that catalogues Model Runner results. It listens for image
+ * completion events on the Model Runner image status topic, builds a STAC item from
+ * the feature collection the job wrote to the S3 sink, and publishes the item to the
+ * Data Catalog ingest topic.
+ *
+ * @param {Construct} scope - The scope/stack in which to define this construct.
+ * @param {string} id - The id of this construct within the current scope.
+ * @param {MRDCBridgeProps} props - The properties of this construct.
+ * @returns {MRDCBridge} - The MRDCBridge construct.
+ */
+export class MRDCBridge extends Construct {
+  /**
+   * The configuration for the MRDCBridge.
+   */
+  public config: MRDCBridgeConfig;
+
+  /**
+   * The Lambda function that publishes STAC items.
+   */
+  public bridgeFunction: Function;
+
+  /**
+   * The IAM role for the Lambda function, if one was imported.
+   */
+  public lambdaRole?: IRole;
+
+  /**
+   * The security group for the Lambda function.
+   */
+  public securityGroup?: ISecurityGroup;
+
+  /**
+   * Constructs an instance of MRDCBridge.
+   *
+   * @constructor
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {MRDCBridgeProps} props - The properties of this construct.
+   * @throws {Error} If the Model Runner dataplane has no image status topic or S3 sink.
+   */
+  constructor(scope: Construct, id: string, props: MRDCBridgeProps) {
+    super(scope, id);
+    this.setup(props);
+
+    const imageStatusTopic = props.mrDataplane.imageStatusTopic;
+    const sinkBucket = props.mrDataplane.sinkBucket?.bucket;
+    if (imageStatusTopic == undefined || sinkBucket == undefined) {
+      throw new Error(
+        "MRDCBridge requires an MRDataplane with MR_ENABLE_IMAGE_STATUS and MR_ENABLE_S3_SINK enabled."
+      );
+    }
+
+    this.bridgeFunction = new Function(this, "MRDCBridgeFunction", {
+      functionName: this.config.LAMBDA_FUNCTION_NAME,
+      runtime: Runtime.PYTHON_3_11,
+      code: Code.fromAsset(
+        resolvePackagePath("lib/osml/model_runner/lambda/mr_dc_bridge")
+      ),
+      handler: "lambda_function.lambda_handler",
+      timeout: Duration.seconds(this.config.LAMBDA_TIMEOUT),
+      memorySize: this.config.LAMBDA_MEMORY_SIZE,
+      vpc: props.osmlVpc.vpc,
+      vpcSubnets: props.osmlVpc.selectedSubnets,
+      securityGroups: this.securityGroup ? [this.securityGroup] : undefined,
+      role: this.lambdaRole,
+      environment: {
+        SINK_BUCKET: sinkBucket.bucketName,
+        SINK_PREFIX: this.config.SINK_PREFIX,
+        INGEST_TOPIC_ARN: props.ingestTopic.topicArn,
+        STAC_COLLECTION: this.config.STAC_COLLECTION
+      }
+    });
+
+    // Grant access when the function owns its role
+    if (this.lambdaRole == undefined) {
+      sinkBucket.grantRead(this.bridgeFunction);
+      props.ingestTopic.grantPublish(this.bridgeFunction);
+    }
+
+    // Only invoke the bridge for completed images
+    imageStatusTopic.addSubscription(
+      new LambdaSubscription(this.bridgeFunction, {
+        filterPolicy: {
+          status: SubscriptionFilter.stringFilter({
+            allowlist: this.config.IMAGE_STATUSES
+          })
+        }
+      })
+    );
+  }
+
+  /**
+   * Sets up the MRDCBridge construct with the provided properties.
+   *
+   * @param {MRDCBridgeProps} props - The properties used to configure the bridge.
+   */
+  private setup(props: MRDCBridgeProps): void {
+    this.config = props.config ?? new MRDCBridgeConfig();
+
+    // If a custom security group was provided
+    if (this.config.LAMBDA_SECURITY_GROUP_ID) {
+      this.securityGroup = SecurityGroup.fromSecurityGroupId(
+        this,
+        "MRDCBridgeImportSecurityGroup",
+        this.config.LAMBDA_SECURITY_GROUP_ID
+      );
+    }
+
+    // Import an existing role if one was provided
+    if (this.config.LAMBDA_ROLE_NAME != undefined) {
+      this.lambdaRole = Role.fromRoleName(
+        this,
+        "ImportedMRDCBridgeRole",
+        this.config.LAMBDA_ROLE_NAME,
+        {
+          mutable: false
+        }
+      );
+    }
+  }
+}
@@ -1,17 +1,29 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
+import { Duration } from "aws-cdk-lib";
 import {
+  Alarm,
+  AlarmRule,
+  AlarmState,
+  ComparisonOperator,
+  CompositeAlarm,
   Dashboard,
   GraphWidget,
   GraphWidgetView,
+  IAlarm,
+  IMetric,
   LogQueryVisualizationType,
   LogQueryWidget,
   MathExpression,
-  SingleValueWidget
+  Metric,
+  SingleValueWidget,
+  TreatMissingData
 } from "aws-cdk-lib/aws-cloudwatch";
+import { SnsAction } from "aws-cdk-lib/aws-cloudwatch-actions";
 import { FargateService } from "aws-cdk-lib/aws-ecs";
+import { ITopic } from "aws-cdk-lib/aws-sns";
 import { Queue } from "aws-cdk-lib/aws-sqs";
 import { Construct } from "constructs";
 
@@ -72,6 +84,13 @@ export interface MRMonitoringProps {
    * @type {MRDataplaneConfig}
    */
   mrDataplaneConfig: MRDataplaneConfig;
+
+  /**
+   * The SNS topic alarm notifications are routed to (optional).
+   *
+   * @type {ITopic | undefined}
+   */
+  alarmTopic?: ITopic;
 }
 
 /**
@@ -86,6 +105,17 @@ export class MRMonitoring extends Construct {
    * @returns {MRMonitoring} - The MRMonitoring construct.
    */
   public mrDashboard: Dashboard;
+
+  /**
+   * The model runner alarms, if MR_ENABLE_ALARMS is set.
+   */
+  public alarms: Alarm[] = [];
+
+  /**
+   * The composite alarm raised when any model runner alarm is raised, if MR_ENABLE_ALARMS is set.
+   */
+  public unhealthyAlarm?: CompositeAlarm;
+
   constructor(scope: Construct, id: string, props: MRMonitoringProps) {
     super(scope, id);
 
@@ -227,5 +257,185 @@ export class MRMonitoring extends Construct {
         ]
       })
     );
+
+    if (props.mrDataplaneConfig.MR_ENABLE_ALARMS) {
+      this.buildAlarms(props);
+    }
+  }
+
+  /**
+   * Builds the model runner alarms and a composite alarm raised when any of them is,
+   * routing either the alarms or the composite alarm to the alarm topic when one is provided.
+   *
+   * @param {MRMonitoringProps} props - The properties of this construct.
+   */
+  private buildAlarms(props: MRMonitoringProps): void {
+    const config = props.mrDataplaneConfig;
+    const period = Duration.seconds(config.MR_ALARM_PERIOD_SECONDS);
+
+    // Alarm on failed requests landing in the dead letter queues
+    for (const [name, queue] of [
+      ["ImageRequestDLQ", props.imageRequestDlQueue],
+      ["RegionRequestDLQ", props.regionRequestDlQueue]
+    ] as const) {
+      this.addAlarm(props, `${name}DepthAlarm`, {
+        description: `Messages are waiting in the model runner ${name}.`,
+        metric: queue.metricApproximateNumberOfMessagesVisible({
+          statistic: "Maximum",
+          period: period
+        }),
+        threshold: config.MR_ALARM_DLQ_DEPTH_THRESHOLD,
+        evaluationPeriods: 1
+      });
+    }
+
+    // Alarm on image requests that have waited too long to be processed
+    this.addAlarm(props, "ImageRequestAgeAlarm", {
+      description: "The oldest model runner image request has waited too long.",
+      metric: props.imageRequestQueue.metricApproximateAgeOfOldestMessage({
+        statistic: "Maximum",
+        period: period
+      }),
+      threshold: config.MR_ALARM_OLDEST_MESSAGE_AGE_SECONDS,
+      evaluationPeriods: config.MR_ALARM_EVALUATION_PERIODS
+    });
+
+    // Alarm when no model runner tasks are running; stopped tasks report no data
+    this.addAlarm(props, "NoRunningTasksAlarm", {
+      description: "No model runner tasks are running.",
+      metric: props.service.metricCpuUtilization({
+        statistic: "SampleCount",
+        period: Duration.minutes(1)
+      }),
+      threshold: 1,
+      comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+      evaluationPeriods: config.MR_ALARM_EVALUATION_PERIODS,
+      treatMissingData: TreatMissingData.BREACHING
+    });
+
+    // Model metrics are published per model, so alarm on each configured model
+    for (const modelName of config.MR_ALARM_MODEL_NAMES ?? []) {
+      this.addAlarm(props, `${modelName}ModelErrorRateAlarm`, {
+        description: `Model invocation errors for ${modelName} exceed the configured rate.`,
+        metric: new MathExpression({
+          label: "Error Rate (%)",
+          expression: "IF(invocations > 0, 100 * errors / invocations, 0)",
+          usingMetrics: {
+            errors: this.modelRunnerMetric("Errors", "Sum", period, {
+              ModelName: modelName,
+              Operation: "ModelInvocation"
+            }),
+            invocations: this.modelRunnerMetric("Invocations", "Sum", period, {
+              ModelName: modelName,
+              Operation: "ModelInvocation"
+            })
+          },
+          period: period
+        }),
+        threshold: config.MR_ALARM_MODEL_ERROR_RATE_PERCENT,
+        evaluationPeriods: config.MR_ALARM_EVALUATION_PERIODS
+      });
+
+      const durations: Record<string, IMetric> = {};
+      config.MR_ALARM_INPUT_FORMATS.forEach((inputFormat, index) => {
+        durations[`duration${index}`] = this.modelRunnerMetric(
+          "Duration",
+          "p95",
+          period,
+          {
+            InputFormat: inputFormat,
+            ModelName: modelName,
+            Operation: "ImageProcessing"
+          }
+        );
+      });
+      this.addAlarm(props, `${modelName}ImageDurationAlarm`, {
+        description: `The p95 image processing time for ${modelName} exceeds the configured duration.`,
+        metric: new MathExpression({
+          label: "Image Processing p95 (Seconds)",
+          expression: `MAX([${Object.keys(durations).join(", ")}])`,
+          usingMetrics: durations,
+          period: period
+        }),
+        threshold: config.MR_ALARM_IMAGE_DURATION_P95_SECONDS,
+        evaluationPeriods: config.MR_ALARM_EVALUATION_PERIODS
+      });
+    }
+
+    this.unhealthyAlarm = new CompositeAlarm(this, "MRUnhealthyAlarm", {
+      alarmDescription: "One or more model runner alarms are raised.",
+      alarmRule: AlarmRule.anyOf(
+        ...this.alarms.map((alarm: IAlarm) =>
+          AlarmRule.fromAlarm(alarm, AlarmState.ALARM)
+        )
+      )
+    });
+    if (props.alarmTopic && config.MR_ALARM_NOTIFICATIONS === "composite") {
+      this.unhealthyAlarm.addAlarmAction(new SnsAction(props.alarmTopic));
+    }
+  }
+
+  /**
+   * Creates a model runner alarm that feeds the composite alarm, routing it to the
+   * alarm topic when one is provided and each alarm notifies.
+   *
+   * @param {MRMonitoringProps} props - The properties of this construct.
+   * @param {string} id - The id of the alarm.
+   * @param options - The alarm settings.
+   */
+  private addAlarm(
+    props: MRMonitoringProps,
+    id: string,
+    options: {
+      description: string;
+      metric: IMetric;
+      threshold: number;
+      evaluationPeriods: number;
+      comparisonOperator?: ComparisonOperator;
+      treatMissingData?: TreatMissingData;
+    }
+  ): void {
+    const alarm = new Alarm(this, id, {
+      alarmDescription: options.description,
+      metric: options.metric,
+      threshold: options.threshold,
+      evaluationPeriods: options.evaluationPeriods,
+      comparisonOperator:
+        options.comparisonOperator ??
+        ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData:
+        options.treatMissingData ?? TreatMissingData.NOT_BREACHING
+    });
+    if (
+      props.alarmTopic &&
+      props.mrDataplaneConfig.MR_ALARM_NOTIFICATIONS === "each"
+    ) {
+      alarm.addAlarmAction(new SnsAction(props.alarmTopic));
+    }
+    this.alarms.push(alarm);
+  }
+
+  /**
+   * Creates a metric published by model runner.
+   *
+   * @param {string} metricName - The name of the metric.
+   * @param {string} statistic - The statistic to apply.
+   * @param {Duration} period - The period to aggregate over.
+   * @param dimensionsMap - The dimensions of the metric.
+   * @returns {Metric} The metric.
+   */
+  private modelRunnerMetric(
+    metricName: string,
+    statistic: string,
+    period: Duration,
+    dimensionsMap: Record<string, string>
+  ): Metric {
+    return new Metric({
+      namespace: "OSML/ModelRunner",
+      metricName: metricName,
+      statistic: statistic,
+      period: period,
+      dimensionsMap: dimensionsMap
+    });
   }
 }
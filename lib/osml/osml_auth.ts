@@ -1,13 +1,57 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
+import { DockerImageCode, IFunction } from "aws-cdk-lib/aws-lambda";
+
+/**
+ * Restricts a set of API routes to callers with the listed scopes or groups.
+ *
+ * @interface OSMLRouteAuthorization
+ */
+export interface OSMLRouteAuthorization {
+  /**
+   * The resource path the rule applies to, relative to the stage, such as
+   * "xyz/*". A "*" matches any characters.
+   */
+  path: string;
+
+  /**
+   * The HTTP methods the rule applies to.
+   *
+   * @default - all methods
+   */
+  methods?: string[];
+
+  /**
+   * The OAuth scopes allowed on the routes. Callers need at least one of them.
+   *
+   * @default - no scope is required
+   */
+  scopes?: string[];
+
+  /**
+   * The groups allowed on the routes. Callers need to belong to at least one of them.
+   *
+   * @default - no group is required
+   */
+  groups?: string[];
+}
+
 /**
- * Represents the configuration for the authentication server.
+ * Represents the configuration for an OIDC authentication server whose JWTs are
+ * validated by a Lambda authorizer.
  *
- * @interface OSMLAuth
+ * @interface OSMLJwtAuth
  */
-export interface OSMLAuth {
+export interface OSMLJwtAuth {
+  /**
+   * The authentication strategy.
+   *
+   * @default "jwt"
+   */
+  type?: "jwt";
+
   /**
    * The audience of the application.
    */
@@ -17,4 +61,166 @@ export interface OSMLAuth {
    * The authority of the authentication.
    */
   authority: string;
+
+  /**
+   * The time, in seconds, API Gateway caches the authorizer's decision for a token.
+   *
+   * @default 0
+   */
+  cacheTtlSeconds?: number;
+
+  /**
+   * The JWT claim listing the caller's groups.
+   *
+   * @default "groups"
+   */
+  groupsClaim?: string;
+
+  /**
+   * The scopes and groups required on specific routes. Other routes accept any valid token.
+   */
+  routes?: OSMLRouteAuthorization[];
+
+  /**
+   * The time, in seconds, the authorizer caches the authority's signing keys.
+   *
+   * @default 300
+   */
+  jwksCacheTtlSeconds?: number;
+
+  /**
+   * The signing algorithms tokens may use.
+   *
+   * @default ["RS256"]
+   */
+  algorithms?: string[];
+
+  /**
+   * The claims tokens must carry, such as "exp" and "iat".
+   *
+   * @default - no claim is required
+   */
+  requiredClaims?: string[];
+
+  /**
+   * The clock skew, in seconds, tolerated when checking the token's time claims.
+   *
+   * @default 0
+   */
+  clockSkewSeconds?: number;
+
+  /**
+   * A directory holding the authorizer code with its dependencies already installed.
+   *
+   * @default - the pre-built bundle published packages include, or, in a source checkout
+   * without `npm run bundle:authorizer`, the authorizer with dependencies installed in Docker
+   */
+  bundlePath?: string;
+
+  /**
+   * A container image to run as the authorizer instead of the bundled code. It
+   * receives the same environment as the bundled authorizer.
+   *
+   * @default - the bundled authorizer
+   */
+  authorizerImage?: DockerImageCode;
+
+  /**
+   * A function to use as the authorizer instead of building one. It receives API
+   * Gateway REQUEST authorizer events.
+   *
+   * @default - the bundled authorizer
+   */
+  authorizerFunction?: IFunction;
+}
+
+/**
+ * Represents the configuration for a Cognito user pool authorizer.
+ *
+ * @interface OSMLCognitoAuth
+ */
+export interface OSMLCognitoAuth {
+  /**
+   * The authentication strategy.
+   */
+  type: "cognito";
+
+  /**
+   * The ARN of the Cognito user pool issuing the tokens.
+   */
+  userPoolArn: string;
+
+  /**
+   * The time, in seconds, API Gateway caches the authorizer's decision for a token.
+   *
+   * @default 0
+   */
+  cacheTtlSeconds?: number;
+
+  /**
+   * The scopes required on specific API methods. Cognito cannot check groups, and
+   * paths under the API proxy resource are matched as "{proxy+}".
+   */
+  routes?: Omit<OSMLRouteAuthorization, "groups">[];
 }
+
+/**
+ * Represents the configuration for requests signed with AWS SigV4 credentials.
+ *
+ * @interface OSMLIamAuth
+ */
+export interface OSMLIamAuth {
+  /**
+   * The authentication strategy.
+   */
+  type: "iam";
+}
+
+/**
+ * Represents the configuration for requests carrying an API key, metered by a usage plan.
+ *
+ * @interface OSMLApiKeyAuth
+ */
+export interface OSMLApiKeyAuth {
+  /**
+   * The authentication strategy.
+   */
+  type: "apiKey";
+
+  /**
+   * The steady-state request rate limit of the usage plan, in requests per second.
+   *
+   * @default - no limit
+   */
+  throttleRateLimit?: number;
+
+  /**
+   * The request burst limit of the usage plan.
+   *
+   * @default - no limit
+   */
+  throttleBurstLimit?: number;
+
+  /**
+   * The number of requests allowed per quota period.
+   *
+   * @default - no quota
+   */
+  quotaLimit?: number;
+
+  /**
+   * The period the quota applies to, "DAY", "WEEK" or "MONTH".
+   *
+   * @default "DAY"
+   */
+  quotaPeriod?: "DAY" | "WEEK" | "MONTH";
+}
+
+/**
+ * Represents the authentication strategy protecting an OSML API.
+ */
+export type OSMLAuth =
+  | OSMLJwtAuth
+  | OSMLCognitoAuth
+  | OSMLIamAuth
+  | OSMLApiKeyAuth;
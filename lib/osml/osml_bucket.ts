@@ -1,5 +1,5 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { RemovalPolicy } from "aws-cdk-lib";
@@ -9,6 +9,7 @@ import {
   BucketAccessControl,
   BucketEncryption,
   IBucket,
+  LifecycleRule,
   ObjectOwnership
 } from "aws-cdk-lib/aws-s3";
 import { Construct } from "constructs";
@@ -48,6 +49,13 @@ export interface OSMLBucketProps {
    * @type {IBucket | undefined}
    */
   accessLogsBucket?: IBucket;
+
+  /**
+   * (Optional) The lifecycle rules to apply to objects in the OSML bucket.
+   *
+   * @type {LifecycleRule[] | undefined}
+   */
+  lifecycleRules?: LifecycleRule[];
 }
 
 /**
@@ -109,7 +117,8 @@ export class OSMLBucket extends Construct {
         bucketName: props.bucketName,
         versioned: props.prodLike,
         accessControl: BucketAccessControl.BUCKET_OWNER_FULL_CONTROL,
-        serverAccessLogsBucket: this.accessLogsBucket
+        serverAccessLogsBucket: this.accessLogsBucket,
+        lifecycleRules: props.lifecycleRules
       })
     );
   }
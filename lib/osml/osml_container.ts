@@ -13,6 +13,7 @@ import * as path from "path";
 
 import { OSMLAccount } from "./osml_account";
 import { BaseConfig, ConfigType } from "./utils/base_config";
+import { ConfigSchema } from "./utils/config_schema";
 import { RegionalConfig, RegionConfig } from "./utils/regional_config";
 
 /**
@@ -52,13 +53,25 @@ export class OSMLContainerConfig extends BaseConfig {
    */
   public ECR_REPOSITORY_TAG?: string;
 
+  /**
+   * The schema describing the allowed OSMLContainerConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    CONTAINER_URI: { type: "string" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    CONTAINER_BUILD_TARGET: { type: "string" },
+    CONTAINER_DOCKERFILE: { type: "string" },
+    ECR_REPOSITORY_ARN: { type: "string", pattern: /^arn:[^:]+:ecr:/ },
+    ECR_REPOSITORY_TAG: { type: "string" }
+  };
+
   /**
    * Creates an instance of OSMLContainerConfig.
    * @param config - The configuration object for OSMLContainer.
    */
   constructor(config: ConfigType = {}) {
     super({
-      REPOSITORY_TAG: "latest",
+      ECR_REPOSITORY_TAG: "latest",
       ...config
     });
   }
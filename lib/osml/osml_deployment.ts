@@ -0,0 +1,443 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import { Construct } from "constructs";
+
+import { DCDataplane, DCDataplaneConfig } from "./data_catalog/dc_dataplane";
+import { DIDataplane, DIDataplaneConfig } from "./data_intake/di_dataplane";
+import {
+  METestEndpoints,
+  METestEndpointsConfig
+} from "./model_endpoint/me_test_endpoints";
+import { MRDataplane, MRDataplaneConfig } from "./model_runner/mr_dataplane";
+import { MRDCBridge, MRDCBridgeConfig } from "./model_runner/mr_dc_bridge";
+import { OSMLAccount } from "./osml_account";
+import { OSMLAuth } from "./osml_auth";
+import { OSMLDomain } from "./osml_domain";
+import {
+  OSMLOperationsDashboard,
+  OSMLOperationsDashboardConfig
+} from "./osml_operations_dashboard";
+import { OSMLRestApiConfig } from "./osml_restapi";
+import { OSMLTls } from "./osml_tls";
+import { OSMLVpc, OSMLVpcConfig } from "./osml_vpc";
+import { TSDataplane, TSDataplaneConfig } from "./tile_server/ts_dataplane";
+import { BaseConfig, ConfigType } from "./utils/base_config";
+import { ConfigSchema } from "./utils/config_schema";
+
+/**
+ * Configuration class for OSMLDeployment Construct.
+ */
+export class OSMLDeploymentConfig extends BaseConfig {
+  /**
+   * Whether to deploy the Model Runner dataplane.
+   * @default true
+   */
+  public DEPLOY_MODEL_RUNNER: boolean;
+
+  /**
+   * Whether to deploy the Tile Server dataplane.
+   * @default true
+   */
+  public DEPLOY_TILE_SERVER: boolean;
+
+  /**
+   * Whether to deploy the Data Intake dataplane.
+   * @default true
+   */
+  public DEPLOY_DATA_INTAKE: boolean;
+
+  /**
+   * Whether to deploy the Data Catalog dataplane.
+   * @default true
+   */
+  public DEPLOY_DATA_CATALOG: boolean;
+
+  /**
+   * Whether to deploy the test model endpoints.
+   * @default false
+   */
+  public DEPLOY_TEST_ENDPOINTS: boolean;
+
+  /**
+   * Whether to catalog Model Runner results in the Data Catalog.
+   * Requires both the Model Runner and Data Catalog to be deployed.
+   * @default false
+   */
+  public DEPLOY_MR_DC_BRIDGE: boolean;
+
+  /**
+   * Whether to deploy a dashboard summarizing the health of every deployed component.
+   * @default false
+   */
+  public DEPLOY_OPERATIONS_DASHBOARD: boolean;
+
+  /**
+   * A security group ID shared by every component that does not configure its own.
+   * @default undefined
+   */
+  public SECURITY_GROUP_ID?: string | undefined;
+
+  /**
+   * The schema describing the allowed OSMLDeploymentConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    DEPLOY_MODEL_RUNNER: { type: "boolean" },
+    DEPLOY_TILE_SERVER: { type: "boolean" },
+    DEPLOY_DATA_INTAKE: { type: "boolean" },
+    DEPLOY_DATA_CATALOG: { type: "boolean" },
+    DEPLOY_TEST_ENDPOINTS: { type: "boolean" },
+    DEPLOY_MR_DC_BRIDGE: { type: "boolean" },
+    DEPLOY_OPERATIONS_DASHBOARD: { type: "boolean" },
+    SECURITY_GROUP_ID: { type: "string" }
+  };
+
+  /**
+   * Constructor for OSMLDeploymentConfig.
+   * @param config - The configuration object for OSMLDeployment.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      DEPLOY_MODEL_RUNNER: true,
+      DEPLOY_TILE_SERVER: true,
+      DEPLOY_DATA_INTAKE: true,
+      DEPLOY_DATA_CATALOG: true,
+      DEPLOY_TEST_ENDPOINTS: false,
+      DEPLOY_MR_DC_BRIDGE: false,
+      DEPLOY_OPERATIONS_DASHBOARD: false,
+      ...config
+    });
+  }
+}
+
+/**
+ * Interface representing properties for configuring the OSMLDeployment Construct.
+ */
+export interface OSMLDeploymentProps {
+  /**
+   * The OSML deployment account.
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * An existing OSML VPC to deploy into (optional).
+   * When unset, a VPC is created from `vpcConfig`.
+   * @type {OSMLVpc | undefined}
+   */
+  osmlVpc?: OSMLVpc;
+
+  /**
+   * Custom configuration for the VPC created when `osmlVpc` is unset (optional).
+   * @type {OSMLVpcConfig | undefined}
+   */
+  vpcConfig?: OSMLVpcConfig;
+
+  /**
+   * The authentication configuration shared by the Tile Server and Data Catalog APIs (optional).
+   * @type {OSMLAuth | undefined}
+   */
+  auth?: OSMLAuth;
+
+  /**
+   * The TLS configuration for the Tile Server load balancers (optional).
+   * @type {OSMLTls | undefined}
+   */
+  tls?: OSMLTls;
+
+  /**
+   * The TLS configuration for the test HTTP model endpoint load balancer (optional).
+   * It needs its own domain name, since it is a different load balancer.
+   * @type {OSMLTls | undefined}
+   */
+  meTls?: OSMLTls;
+
+  /**
+   * The hosted zone and certificate giving the Tile Server and Data Catalog APIs
+   * stable host names (optional).
+   * @type {OSMLDomain | undefined}
+   */
+  domain?: OSMLDomain;
+
+  /**
+   * The SNS topic component alarms are routed to (optional).
+   * @type {ITopic | undefined}
+   */
+  alarmTopic?: ITopic;
+
+  /**
+   * The SageMaker execution role for the test model endpoints (optional).
+   * @type {IRole | undefined}
+   */
+  smRole?: IRole;
+
+  /**
+   * Custom configuration for the OSMLDeployment Construct (optional).
+   * @type {OSMLDeploymentConfig | undefined}
+   */
+  config?: OSMLDeploymentConfig;
+
+  /**
+   * Custom configuration for the MRDataplane Construct (optional).
+   * @type {MRDataplaneConfig | undefined}
+   */
+  mrConfig?: MRDataplaneConfig;
+
+  /**
+   * Custom configuration for the TSDataplane Construct (optional).
+   * @type {TSDataplaneConfig | undefined}
+   */
+  tsConfig?: TSDataplaneConfig;
+
+  /**
+   * Custom configuration for the Tile Server API (optional).
+   * @type {OSMLRestApiConfig | undefined}
+   */
+  tsApiConfig?: OSMLRestApiConfig;
+
+  /**
+   * Custom configuration for the DIDataplane Construct (optional).
+   * @type {DIDataplaneConfig | undefined}
+   */
+  diConfig?: DIDataplaneConfig;
+
+  /**
+   * Custom configuration for the DCDataplane Construct (optional).
+   * @type {DCDataplaneConfig | undefined}
+   */
+  dcConfig?: DCDataplaneConfig;
+
+  /**
+   * Custom configuration for the Data Catalog STAC API (optional).
+   * @type {OSMLRestApiConfig | undefined}
+   */
+  dcApiConfig?: OSMLRestApiConfig;
+
+  /**
+   * Custom configuration for the METestEndpoints Construct (optional).
+   * @type {METestEndpointsConfig | undefined}
+   */
+  meConfig?: METestEndpointsConfig;
+
+  /**
+   * Custom configuration for the MRDCBridge Construct (optional).
+   * @type {MRDCBridgeConfig | undefined}
+   */
+  bridgeConfig?: MRDCBridgeConfig;
+
+  /**
+   * Custom configuration for the OSMLOperationsDashboard Construct (optional).
+   * @type {OSMLOperationsDashboardConfig | undefined}
+   */
+  dashboardConfig?: OSMLOperationsDashboardConfig;
+}
+
+/**
+ * Represents a complete OSML deployment, creating the VPC and each enabled
+ * dataplane and wiring the resources they share: the VPC, a common security
+ * group, API authentication, and the Data Intake STAC topic that feeds the
+ * Data Catalog. Model Runner results can also be catalogued through an MRDCBridge.
+ *
+ * @param {Construct} scope - The scope/stack in which to define this construct.
+ * @param {string} id - The id of this construct within the current scope.
+ * @param {OSMLDeploymentProps} props - The properties of this construct.
+ * @returns {OSMLDeployment} - The OSMLDeployment construct.
+ */
+export class OSMLDeployment extends Construct {
+  /**
+   * The configuration for the OSMLDeployment.
+   */
+  public config: OSMLDeploymentConfig;
+
+  /**
+   * The VPC shared by every component.
+   */
+  public osmlVpc: OSMLVpc;
+
+  /**
+   * The Model Runner dataplane, if deployed.
+   */
+  public modelRunner?: MRDataplane;
+
+  /**
+   * The Tile Server dataplane, if deployed.
+   */
+  public tileServer?: TSDataplane;
+
+  /**
+   * The Data Intake dataplane, if deployed.
+   */
+  public dataIntake?: DIDataplane;
+
+  /**
+   * The Data Catalog dataplane, if deployed.
+   */
+  public dataCatalog?: DCDataplane;
+
+  /**
+   * The test model endpoints, if deployed.
+   */
+  public testEndpoints?: METestEndpoints;
+
+  /**
+   * The bridge cataloguing Model Runner results, if deployed.
+   */
+  public mrDcBridge?: MRDCBridge;
+
+  /**
+   * The dashboard summarizing the deployed components, if deployed.
+   */
+  public operationsDashboard?: OSMLOperationsDashboard;
+
+  /**
+   * Constructs an instance of OSMLDeployment.
+   *
+   * @constructor
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {OSMLDeploymentProps} props - The properties of this construct.
+   */
+  constructor(scope: Construct, id: string, props: OSMLDeploymentProps) {
+    super(scope, id);
+    this.config = props.config ?? new OSMLDeploymentConfig();
+
+    this.osmlVpc =
+      props.osmlVpc ??
+      new OSMLVpc(this, "OSMLVpc", {
+        account: props.account,
+        config: props.vpcConfig
+      });
+
+    if (this.config.DEPLOY_TEST_ENDPOINTS) {
+      this.testEndpoints = new METestEndpoints(this, "METestEndpoints", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        smRole: props.smRole,
+        tls: props.meTls,
+        config: this.withSecurityGroup(
+          METestEndpointsConfig,
+          "SECURITY_GROUP_ID",
+          props.meConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_MODEL_RUNNER) {
+      this.modelRunner = new MRDataplane(this, "MRDataplane", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        alarmTopic: props.alarmTopic,
+        config: this.withSecurityGroup(
+          MRDataplaneConfig,
+          "ECS_SECURITY_GROUP_ID",
+          props.mrConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_TILE_SERVER) {
+      this.tileServer = new TSDataplane(this, "TSDataplane", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        auth: props.auth,
+        apiConfig: props.tsApiConfig,
+        tls: props.tls,
+        domain: props.domain,
+        config: this.withSecurityGroup(
+          TSDataplaneConfig,
+          "SECURITY_GROUP_ID",
+          props.tsConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_DATA_INTAKE) {
+      this.dataIntake = new DIDataplane(this, "DIDataplane", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        config: this.withSecurityGroup(
+          DIDataplaneConfig,
+          "LAMBDA_SECURITY_GROUP_ID",
+          props.diConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_DATA_CATALOG) {
+      // Catalog the STAC items generated by Data Intake when both are deployed
+      this.dataCatalog = new DCDataplane(this, "DCDataplane", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        auth: props.auth,
+        apiConfig: props.dcApiConfig,
+        domain: props.domain,
+        ingestTopic: this.dataIntake?.stacTopic,
+        config: this.withSecurityGroup(
+          DCDataplaneConfig,
+          "LAMBDA_SECURITY_GROUP_ID",
+          props.dcConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_MR_DC_BRIDGE) {
+      if (this.modelRunner == undefined || this.dataCatalog == undefined) {
+        throw new Error(
+          "DEPLOY_MR_DC_BRIDGE requires DEPLOY_MODEL_RUNNER and DEPLOY_DATA_CATALOG."
+        );
+      }
+      this.mrDcBridge = new MRDCBridge(this, "MRDCBridge", {
+        account: props.account,
+        osmlVpc: this.osmlVpc,
+        mrDataplane: this.modelRunner,
+        ingestTopic: this.dataCatalog.ingestTopic,
+        config: this.withSecurityGroup(
+          MRDCBridgeConfig,
+          "LAMBDA_SECURITY_GROUP_ID",
+          props.bridgeConfig
+        )
+      });
+    }
+
+    if (this.config.DEPLOY_OPERATIONS_DASHBOARD) {
+      this.operationsDashboard = new OSMLOperationsDashboard(
+        this,
+        "OSMLOperationsDashboard",
+        {
+          account: props.account,
+          dataIntake: this.dataIntake,
+          dataCatalog: this.dataCatalog,
+          modelRunner: this.modelRunner,
+          tileServer: this.tileServer,
+          config: props.dashboardConfig
+        }
+      );
+    }
+  }
+
+  /**
+   * Applies the shared security group to a component configuration that does not set its own.
+   *
+   * @param configClass - The component configuration class.
+   * @param key - The configuration key holding the component's security group ID.
+   * @param config - The component configuration provided by the caller, if any.
+   * @returns The component configuration to use.
+   */
+  private withSecurityGroup<T extends BaseConfig>(
+    configClass: new (config?: ConfigType) => T,
+    key: string,
+    config?: T
+  ): T | undefined {
+    const securityGroupId = this.config.SECURITY_GROUP_ID;
+    if (
+      securityGroupId === undefined ||
+      (config as ConfigType | undefined)?.[key] !== undefined
+    ) {
+      return config;
+    }
+    return new configClass({ ...config, [key]: securityGroupId });
+  }
+}
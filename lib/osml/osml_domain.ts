@@ -0,0 +1,82 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { ILoadBalancerV2 } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  ARecord,
+  HostedZone,
+  IHostedZone,
+  RecordTarget
+} from "aws-cdk-lib/aws-route53";
+import { LoadBalancerTarget } from "aws-cdk-lib/aws-route53-targets";
+import { Construct } from "constructs";
+
+/**
+ * Represents the hosted zone and certificate OSML APIs and load balancers are
+ * given stable host names with.
+ *
+ * @interface OSMLDomain
+ */
+export interface OSMLDomain {
+  /**
+   * The ID of the Route 53 hosted zone records are created in.
+   */
+  hostedZoneId: string;
+
+  /**
+   * The name of the hosted zone, such as "osml.example.internal".
+   */
+  zoneName: string;
+
+  /**
+   * The ARN of an ACM certificate in the region of the APIs covering their host
+   * names, such as "*.osml.example.internal".
+   */
+  certificateArn: string;
+}
+
+/**
+ * Imports the hosted zone of a domain.
+ *
+ * @param {Construct} scope - The scope in which to define the hosted zone.
+ * @param {string} id - The id of the hosted zone within the scope.
+ * @param {OSMLDomain} domain - The domain configuration.
+ * @returns {IHostedZone} The hosted zone.
+ */
+export function importHostedZone(
+  scope: Construct,
+  id: string,
+  domain: OSMLDomain
+): IHostedZone {
+  return HostedZone.fromHostedZoneAttributes(scope, id, {
+    hostedZoneId: domain.hostedZoneId,
+    zoneName: domain.zoneName
+  });
+}
+
+/**
+ * Records a host name in the hosted zone of a domain as an alias of a load balancer.
+ *
+ * @param {Construct} scope - The scope in which to define the record.
+ * @param {string} id - The id of the record within the scope.
+ * @param {OSMLDomain} domain - The domain configuration.
+ * @param {string} hostName - The host name within the zone, such as "tiles-alb".
+ * @param {ILoadBalancerV2} loadBalancer - The load balancer the host name resolves to.
+ * @returns {string} The fully qualified host name.
+ */
+export function buildLoadBalancerRecord(
+  scope: Construct,
+  id: string,
+  domain: OSMLDomain,
+  hostName: string,
+  loadBalancer: ILoadBalancerV2
+): string {
+  const domainName = `${hostName}.${domain.zoneName}`;
+  new ARecord(scope, id, {
+    zone: importHostedZone(scope, `${id}HostedZone`, domain),
+    recordName: domainName,
+    target: RecordTarget.fromAlias(new LoadBalancerTarget(loadBalancer))
+  });
+  return domainName;
+}
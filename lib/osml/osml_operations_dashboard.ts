@@ -0,0 +1,406 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Duration } from "aws-cdk-lib";
+import {
+  Dashboard,
+  GraphWidget,
+  GraphWidgetView,
+  IMetric,
+  IWidget,
+  MathExpression,
+  SingleValueWidget,
+  TextWidget
+} from "aws-cdk-lib/aws-cloudwatch";
+import {
+  HttpCodeElb,
+  HttpCodeTarget
+} from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Construct } from "constructs";
+
+import { DCDataplane } from "./data_catalog/dc_dataplane";
+import { DIDataplane } from "./data_intake/di_dataplane";
+import { MRDataplane } from "./model_runner/mr_dataplane";
+import { OSMLAccount } from "./osml_account";
+import { TSDataplane } from "./tile_server/ts_dataplane";
+import { BaseConfig, ConfigType } from "./utils/base_config";
+import { ConfigSchema } from "./utils/config_schema";
+
+/**
+ * Configuration class for OSMLOperationsDashboard Construct.
+ */
+export class OSMLOperationsDashboardConfig extends BaseConfig {
+  /**
+   * The name of the dashboard.
+   * @default "OSML-Operations"
+   */
+  public DASHBOARD_NAME: string;
+
+  /**
+   * The percentage of requests each component should serve successfully.
+   * @default 99.5
+   */
+  public SLO_AVAILABILITY_PERCENT: number;
+
+  /**
+   * The p99 Tile Server response time objective, in seconds.
+   * @default 1
+   */
+  public SLO_LATENCY_SECONDS: number;
+
+  /**
+   * The number of days SLOs and error budgets are measured over.
+   * @default 30
+   */
+  public SLO_WINDOW_DAYS: number;
+
+  /**
+   * The schema describing the allowed OSMLOperationsDashboardConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    DASHBOARD_NAME: { type: "string", pattern: /^[\w-]+$/ },
+    SLO_AVAILABILITY_PERCENT: { type: "number", min: 1, max: 99.999 },
+    SLO_LATENCY_SECONDS: { type: "number", min: 0.001 },
+    SLO_WINDOW_DAYS: { type: "number", integer: true, min: 1, max: 455 }
+  };
+
+  /**
+   * Constructor for OSMLOperationsDashboardConfig.
+   * @param config - The configuration object for OSMLOperationsDashboard.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      DASHBOARD_NAME: "OSML-Operations",
+      SLO_AVAILABILITY_PERCENT: 99.5,
+      SLO_LATENCY_SECONDS: 1,
+      SLO_WINDOW_DAYS: 30,
+      ...config
+    });
+  }
+}
+
+/**
+ * Interface representing properties for configuring the OSMLOperationsDashboard Construct.
+ */
+export interface OSMLOperationsDashboardProps {
+  /**
+   * The OSML deployment account.
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The Data Intake dataplane to include (optional).
+   * @type {DIDataplane | undefined}
+   */
+  dataIntake?: DIDataplane;
+
+  /**
+   * The Data Catalog dataplane to include (optional).
+   * @type {DCDataplane | undefined}
+   */
+  dataCatalog?: DCDataplane;
+
+  /**
+   * The Model Runner dataplane to include (optional).
+   * @type {MRDataplane | undefined}
+   */
+  modelRunner?: MRDataplane;
+
+  /**
+   * The Tile Server dataplane to include (optional).
+   * @type {TSDataplane | undefined}
+   */
+  tileServer?: TSDataplane;
+
+  /**
+   * Custom configuration for the OSMLOperationsDashboard Construct (optional).
+   * @type {OSMLOperationsDashboardConfig | undefined}
+   */
+  config?: OSMLOperationsDashboardConfig;
+}
+
+/**
+ * The request and error metrics an SLO row is computed from.
+ */
+interface ComponentMetrics {
+  /**
+   * The requests handled by the component.
+   */
+  requests: IMetric;
+
+  /**
+   * The requests the component failed.
+   */
+  errors: IMetric;
+}
+
+/**
+ * Represents a single CloudWatch dashboard summarizing the health of the OSML
+ * components along the end-to-end flow: intake, catalog, model runner and tile server.
+ * Each component row shows its availability against the SLO, the remaining error
+ * budget and its request volume, and the dashboard links to each component's own
+ * detailed dashboard.
+ */
+export class OSMLOperationsDashboard extends Construct {
+  /**
+   * The configuration for the OSMLOperationsDashboard.
+   */
+  public config: OSMLOperationsDashboardConfig;
+
+  /**
+   * The operations dashboard.
+   */
+  public dashboard: Dashboard;
+
+  /**
+   * Creates an OSMLOperationsDashboard construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {OSMLOperationsDashboardProps} props - The properties of this construct.
+   * @throws {Error} If no dataplane is provided.
+   */
+  constructor(
+    scope: Construct,
+    id: string,
+    props: OSMLOperationsDashboardProps
+  ) {
+    super(scope, id);
+    this.config = props.config ?? new OSMLOperationsDashboardConfig();
+
+    if (
+      !props.dataIntake &&
+      !props.dataCatalog &&
+      !props.modelRunner &&
+      !props.tileServer
+    ) {
+      throw new Error(
+        "OSMLOperationsDashboard requires at least one dataplane to display."
+      );
+    }
+
+    this.dashboard = new Dashboard(this, "OSMLOperationsDashboard", {
+      dashboardName: this.config.DASHBOARD_NAME
+    });
+    this.dashboard.addWidgets(this.buildLinks(props));
+
+    if (props.dataIntake) {
+      const fn = props.dataIntake.lambdaFunction;
+      this.addComponentRow(props, "Data Intake", {
+        requests: fn.metricInvocations(),
+        errors: fn.metricErrors()
+      });
+    }
+
+    if (props.dataCatalog) {
+      const ingest = props.dataCatalog.ingestFunction;
+      const stac = props.dataCatalog.stacFunction;
+      this.addComponentRow(
+        props,
+        "Data Catalog",
+        {
+          requests: new MathExpression({
+            label: "Invocations",
+            expression: "FILL(ingest, 0) + FILL(stac, 0)",
+            usingMetrics: {
+              ingest: ingest.metricInvocations(),
+              stac: stac.metricInvocations()
+            }
+          }),
+          errors: new MathExpression({
+            label: "Errors",
+            expression: "FILL(ingest, 0) + FILL(stac, 0)",
+            usingMetrics: {
+              ingest: ingest.metricErrors(),
+              stac: stac.metricErrors()
+            }
+          })
+        },
+        [
+          props.dataCatalog.osDomain.metricClusterStatusRed({
+            label: "Cluster Status Red"
+          })
+        ]
+      );
+    }
+
+    if (props.modelRunner) {
+      this.addComponentRow(
+        props,
+        "Model Runner",
+        {
+          requests: new MathExpression({
+            label: "Images",
+            expression:
+              "SUM(SEARCH('{OSML/ModelRunner, InputFormat, ModelName, Operation} ImageProcessing Invocations', 'Sum'))"
+          }),
+          errors: new MathExpression({
+            label: "Image Errors",
+            expression:
+              "SUM(SEARCH('{OSML/ModelRunner, InputFormat, ModelName, Operation} ImageProcessing Errors', 'Sum'))"
+          })
+        },
+        [
+          props.modelRunner.imageRequestQueue.dlQueue.metricApproximateNumberOfMessagesVisible(
+            { label: "Failed Image Requests", statistic: "Maximum" }
+          )
+        ]
+      );
+    }
+
+    if (props.tileServer) {
+      const albMetrics = props.tileServer.alb.metrics;
+      this.addComponentRow(props, "Tile Server", {
+        requests: albMetrics.requestCount({ label: "Requests" }),
+        errors: new MathExpression({
+          label: "5xx Errors",
+          expression: "FILL(elb, 0) + FILL(target, 0)",
+          usingMetrics: {
+            elb: albMetrics.httpCodeElb(HttpCodeElb.ELB_5XX_COUNT),
+            target: albMetrics.httpCodeTarget(HttpCodeTarget.TARGET_5XX_COUNT)
+          }
+        })
+      });
+      this.dashboard.addWidgets(
+        new GraphWidget({
+          region: props.account.region,
+          title: "Tile Server p99 Response Time (Seconds)",
+          width: 24,
+          height: 5,
+          view: GraphWidgetView.TIME_SERIES,
+          left: [
+            albMetrics.targetResponseTime({ label: "p99", statistic: "p99" })
+          ],
+          leftAnnotations: [
+            {
+              color: "#d62728",
+              label: "SLO",
+              value: this.config.SLO_LATENCY_SECONDS
+            }
+          ]
+        })
+      );
+    }
+  }
+
+  /**
+   * Builds the header linking to each component's detailed dashboard.
+   *
+   * @param {OSMLOperationsDashboardProps} props - The properties of this construct.
+   * @returns {TextWidget} The header widget.
+   */
+  private buildLinks(props: OSMLOperationsDashboardProps): TextWidget {
+    const components = [
+      {
+        name: "Data Intake",
+        deployed: props.dataIntake != undefined,
+        dashboard: props.dataIntake?.monitoring?.diDashboard,
+        flag: "DI_ENABLE_MONITORING"
+      },
+      {
+        name: "Data Catalog",
+        deployed: props.dataCatalog != undefined,
+        dashboard: props.dataCatalog?.monitoring?.dcDashboard,
+        flag: "DC_ENABLE_MONITORING"
+      },
+      {
+        name: "Model Runner",
+        deployed: props.modelRunner != undefined,
+        dashboard: props.modelRunner?.monitoring?.mrDashboard,
+        flag: "MR_ENABLE_MONITORING"
+      },
+      {
+        name: "Tile Server",
+        deployed: props.tileServer != undefined,
+        dashboard: props.tileServer?.monitoring?.tsDashboard,
+        flag: "TS_ENABLE_MONITORING"
+      }
+    ];
+    // Relative links resolve against the console the dashboard is viewed in, in any partition
+    const links = components
+      .filter((component) => component.deployed)
+      .map(({ name, dashboard, flag }) =>
+        dashboard
+          ? `[${name}](#dashboards:name=${dashboard.dashboardName})`
+          : `${name} (set \`${flag}\` for a detailed dashboard)`
+      );
+    return new TextWidget({
+      markdown: [
+        "# OSML Operations",
+        `Availability objective: ${this.config.SLO_AVAILABILITY_PERCENT}% over ${this.config.SLO_WINDOW_DAYS} days.`,
+        `Detailed dashboards: ${links.join(" | ")}`
+      ].join("\n\n"),
+      width: 24,
+      height: 3
+    });
+  }
+
+  /**
+   * Adds a row showing a component's availability, remaining error budget and traffic.
+   *
+   * @param {OSMLOperationsDashboardProps} props - The properties of this construct.
+   * @param {string} title - The component name shown in widget titles.
+   * @param {ComponentMetrics} metrics - The component's request and error metrics.
+   * @param {IMetric[]} health - Additional health metrics to graph alongside the traffic.
+   */
+  private addComponentRow(
+    props: OSMLOperationsDashboardProps,
+    title: string,
+    metrics: ComponentMetrics,
+    health: IMetric[] = []
+  ): void {
+    const availability = new MathExpression({
+      label: "Availability (%)",
+      expression:
+        "IF(requests > 0, 100 * (1 - FILL(errors, 0) / requests), 100)",
+      usingMetrics: {
+        requests: metrics.requests,
+        errors: metrics.errors
+      }
+    });
+    const errorBudget = Number(
+      (100 - this.config.SLO_AVAILABILITY_PERCENT).toFixed(6)
+    );
+    const sloWindow = `-P${this.config.SLO_WINDOW_DAYS}D`;
+
+    const widgets: IWidget[] = [
+      new SingleValueWidget({
+        region: props.account.region,
+        title: `${title} Availability`,
+        width: 4,
+        height: 5,
+        metrics: [availability],
+        setPeriodToTimeRange: true,
+        start: sloWindow
+      }),
+      new SingleValueWidget({
+        region: props.account.region,
+        title: `${title} Error Budget Remaining`,
+        width: 4,
+        height: 5,
+        metrics: [
+          new MathExpression({
+            label: "Remaining (%)",
+            expression: `100 - 100 * (100 - availability) / ${errorBudget}`,
+            usingMetrics: { availability: availability }
+          })
+        ],
+        setPeriodToTimeRange: true,
+        start: sloWindow
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: `${title} Traffic`,
+        width: 16,
+        height: 5,
+        view: GraphWidgetView.TIME_SERIES,
+        statistic: "Sum",
+        period: Duration.minutes(5),
+        left: [metrics.requests, metrics.errors],
+        right: health
+      })
+    ];
+    this.dashboard.addWidgets(...widgets);
+  }
+}
@@ -1,23 +1,475 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
-import { Duration } from "aws-cdk-lib";
+import { Aspects, Duration, RemovalPolicy } from "aws-cdk-lib";
 import {
+  AccessLogField,
+  AccessLogFormat,
   AuthorizationType,
+  CfnBasePathMappingV2,
+  CfnDomainNameAccessAssociation,
+  CfnDomainNameV2,
+  CfnMethod,
+  CognitoUserPoolsAuthorizer,
   Cors,
+  DomainName,
   EndpointType,
+  IApiKey,
   IdentitySource,
   Integration,
+  LogGroupLogDestination,
+  Method,
+  MethodDeploymentOptions,
+  MethodLoggingLevel,
+  MethodOptions,
+  Period,
   RequestAuthorizer,
-  RestApi
+  RestApi,
+  SecurityPolicy,
+  StageOptions,
+  UsagePlan
 } from "aws-cdk-lib/aws-apigateway";
-import { IRole } from "aws-cdk-lib/aws-iam";
+import { Certificate } from "aws-cdk-lib/aws-certificatemanager";
+import { UserPool } from "aws-cdk-lib/aws-cognito";
+import {
+  IInterfaceVpcEndpoint,
+  InterfaceVpcEndpoint
+} from "aws-cdk-lib/aws-ec2";
+import {
+  AnyPrincipal,
+  Effect,
+  Grant,
+  IGrantable,
+  IRole,
+  PolicyDocument,
+  PolicyStatement
+} from "aws-cdk-lib/aws-iam";
+import { LogGroup, RetentionDays } from "aws-cdk-lib/aws-logs";
+import {
+  ARecord,
+  HostedZone,
+  IHostedZone,
+  PrivateHostedZone,
+  RecordTarget
+} from "aws-cdk-lib/aws-route53";
+import {
+  ApiGatewayDomain,
+  InterfaceVpcEndpointTarget
+} from "aws-cdk-lib/aws-route53-targets";
+import {
+  CfnIPSet,
+  CfnWebACL,
+  CfnWebACLAssociation
+} from "aws-cdk-lib/aws-wafv2";
 import { Construct } from "constructs";
 
 import { OSMLAuthorizer } from "./authorizer/authorizor_function";
 import { OSMLAccount } from "./osml_account";
-import { OSMLAuth } from "./osml_auth";
+import {
+  OSMLApiKeyAuth,
+  OSMLAuth,
+  OSMLCognitoAuth,
+  OSMLJwtAuth
+} from "./osml_auth";
+import { importHostedZone, OSMLDomain } from "./osml_domain";
 import { OSMLVpc } from "./osml_vpc";
+import { BaseConfig, ConfigType } from "./utils/base_config";
+import { ConfigSchema } from "./utils/config_schema";
+
+/**
+ * Throttles requests to a single API method on the stage.
+ *
+ * @interface OSMLRestApiMethodThrottle
+ */
+export interface OSMLRestApiMethodThrottle {
+  /**
+   * The resource path of the method, such as "/xyz/{viewpoint_id}/{format}/{z}/{x}/{y}"
+   * or "/{proxy+}".
+   *
+   * @type {string}
+   */
+  path: string;
+
+  /**
+   * The HTTP method, or "*" for all methods on the resource.
+   *
+   * @type {string | undefined}
+   */
+  method?: string;
+
+  /**
+   * The steady-state request rate limit, in requests per second.
+   *
+   * @type {number | undefined}
+   */
+  rateLimit?: number;
+
+  /**
+   * The request burst limit.
+   *
+   * @type {number | undefined}
+   */
+  burstLimit?: number;
+}
+
+/**
+ * Describes the usage plan and API key issued to a consumer team.
+ *
+ * @interface OSMLRestApiUsagePlan
+ */
+export interface OSMLRestApiUsagePlan extends Omit<OSMLApiKeyAuth, "type"> {
+  /**
+   * The name of the consumer team, used to name its usage plan and API key.
+   *
+   * @type {string}
+   */
+  name: string;
+}
+
+/**
+ * Checks a field of a config list entry, returning the problem found, if any.
+ */
+type EntryFieldCheck = (value: unknown) => string | undefined;
+
+const requiredString: EntryFieldCheck = (value) =>
+  typeof value === "string" && value.length > 0
+    ? undefined
+    : "a non-empty string is required";
+
+/**
+ * Checks an optional non-negative limit.
+ *
+ * @param integer - Whether the limit must be a whole number.
+ * @returns The field check.
+ */
+function optionalLimit(integer: boolean): EntryFieldCheck {
+  return (value) =>
+    value == undefined ||
+    (typeof value === "number" &&
+      value >= 0 &&
+      (integer ? Number.isInteger(value) : Number.isFinite(value)))
+      ? undefined
+      : `${JSON.stringify(value)} is not a non-negative ${integer ? "integer" : "number"}`;
+}
+
+/**
+ * Checks an optional value against a list of allowed values.
+ *
+ * @param values - The allowed values, in upper case.
+ * @param ignoreCase - Whether values are accepted in any case.
+ * @returns The field check.
+ */
+function optionalOneOf(values: string[], ignoreCase = false): EntryFieldCheck {
+  return (value) =>
+    value == undefined ||
+    (typeof value === "string" &&
+      values.includes(ignoreCase ? value.toUpperCase() : value))
+      ? undefined
+      : `${JSON.stringify(value)} is not one of ${values.join(", ")}`;
+}
+
+/**
+ * Checks the fields of each entry of a config key holding a list of objects.
+ *
+ * @param key - The config key.
+ * @param entries - The value of the config key.
+ * @param fields - The check of each field.
+ * @returns The validation problems found.
+ */
+function validateEntries(
+  key: string,
+  entries: unknown,
+  fields: Record<string, EntryFieldCheck>
+): string[] {
+  // The schema reports values that are not lists of objects
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  const errors: string[] = [];
+  entries.forEach((entry: unknown, index) => {
+    if (typeof entry !== "object" || entry == null) {
+      return;
+    }
+    for (const [field, check] of Object.entries(fields)) {
+      const problem = check((entry as Record<string, unknown>)[field]);
+      if (problem) {
+        errors.push(`${key}[${index}].${field}: ${problem}`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Configuration class for the OSMLRestApi Construct.
+ */
+export class OSMLRestApiConfig extends BaseConfig {
+  /**
+   * The endpoint type of the API, "REGIONAL" or "PRIVATE". Private APIs are only
+   * reachable through the execute-api interface endpoint of the OSML VPC.
+   * @default "REGIONAL"
+   */
+  public ENDPOINT_TYPE: string;
+
+  /**
+   * The custom domain name of a private API, such as "tiles.osml.example.internal".
+   * @default undefined
+   */
+  public PRIVATE_DOMAIN_NAME?: string | undefined;
+
+  /**
+   * The ARN of the ACM certificate covering PRIVATE_DOMAIN_NAME.
+   * @default undefined
+   */
+  public PRIVATE_CERTIFICATE_ARN?: string | undefined;
+
+  /**
+   * The name of the Route 53 private hosted zone the domain name is recorded in.
+   * @default undefined
+   */
+  public PRIVATE_HOSTED_ZONE_NAME?: string | undefined;
+
+  /**
+   * The ID of an existing private hosted zone named PRIVATE_HOSTED_ZONE_NAME. When
+   * unset, a private hosted zone is created for the OSML VPC.
+   * @default undefined
+   */
+  public PRIVATE_HOSTED_ZONE_ID?: string | undefined;
+
+  /**
+   * The origins allowed to make cross-origin requests. "*" allows any origin.
+   * @default ["*"]
+   */
+  public CORS_ALLOWED_ORIGINS: string[];
+
+  /**
+   * The steady-state request rate limit of the stage, in requests per second.
+   * @default undefined
+   */
+  public THROTTLE_RATE_LIMIT?: number | undefined;
+
+  /**
+   * The request burst limit of the stage.
+   * @default undefined
+   */
+  public THROTTLE_BURST_LIMIT?: number | undefined;
+
+  /**
+   * Throttling limits for individual methods, overriding the stage limits.
+   * @default undefined
+   */
+  public METHOD_THROTTLES?: OSMLRestApiMethodThrottle[] | undefined;
+
+  /**
+   * Usage plans to issue API keys for, one per consumer team. When set, every
+   * method requires an API key in addition to the auth strategy.
+   * @default undefined
+   */
+  public USAGE_PLANS?: OSMLRestApiUsagePlan[] | undefined;
+
+  /**
+   * Whether to protect the stage with an AWS WAF web ACL.
+   * @default false
+   */
+  public WAF_ENABLED: boolean;
+
+  /**
+   * The AWS managed rule groups evaluated by the web ACL. The common rule set also
+   * limits request body and URI sizes.
+   * @default ["AWSManagedRulesCommonRuleSet", "AWSManagedRulesKnownBadInputsRuleSet"]
+   */
+  public WAF_MANAGED_RULE_GROUPS: string[];
+
+  /**
+   * The IPv4 and IPv6 CIDR ranges allowed to reach the API. When set, requests from
+   * other addresses are blocked.
+   * @default undefined
+   */
+  public WAF_ALLOWED_IP_CIDRS?: string[] | undefined;
+
+  /**
+   * The maximum number of requests a single IP address may make in any 5 minute
+   * window before it is blocked.
+   * @default undefined
+   */
+  public WAF_RATE_LIMIT?: number | undefined;
+
+  /**
+   * Whether to write a JSON access log entry for each request to a dedicated log group.
+   * @default - true for prodLike accounts
+   */
+  public ACCESS_LOGGING_ENABLED?: boolean | undefined;
+
+  /**
+   * The execution logging level of the stage, "OFF", "ERROR" or "INFO". INFO logs
+   * record authorizer decisions.
+   * @default - "INFO" for prodLike accounts, otherwise "OFF"
+   */
+  public EXECUTION_LOGGING_LEVEL?: string | undefined;
+
+  /**
+   * Whether to trace requests with X-Ray on the stage and the authorizer Lambda function.
+   * @default - true for prodLike accounts
+   */
+  public TRACING_ENABLED?: boolean | undefined;
+
+  /**
+   * Whether to publish CloudWatch metrics for each API method.
+   * @default - true for prodLike accounts
+   */
+  public METRICS_ENABLED?: boolean | undefined;
+
+  /**
+   * Whether to create the account-level role API Gateway writes logs with when
+   * logging is enabled. Disable it if the account already has one.
+   * @default true
+   */
+  public CLOUDWATCH_ROLE_ENABLED: boolean;
+
+  /**
+   * The schema describing the allowed OSMLRestApiConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    ENDPOINT_TYPE: { type: "string", values: ["REGIONAL", "PRIVATE"] },
+    PRIVATE_DOMAIN_NAME: { type: "string" },
+    PRIVATE_CERTIFICATE_ARN: { type: "string", pattern: /^arn:/ },
+    PRIVATE_HOSTED_ZONE_NAME: { type: "string" },
+    PRIVATE_HOSTED_ZONE_ID: { type: "string" },
+    CORS_ALLOWED_ORIGINS: { type: "string[]" },
+    THROTTLE_RATE_LIMIT: { type: "number", min: 0 },
+    THROTTLE_BURST_LIMIT: { type: "number", integer: true, min: 0 },
+    METHOD_THROTTLES: { type: "object[]" },
+    USAGE_PLANS: { type: "object[]" },
+    WAF_ENABLED: { type: "boolean" },
+    WAF_MANAGED_RULE_GROUPS: { type: "string[]" },
+    WAF_ALLOWED_IP_CIDRS: { type: "string[]" },
+    WAF_RATE_LIMIT: {
+      type: "number",
+      integer: true,
+      min: 10,
+      max: 2000000000
+    },
+    ACCESS_LOGGING_ENABLED: { type: "boolean" },
+    EXECUTION_LOGGING_LEVEL: {
+      type: "string",
+      values: ["OFF", "ERROR", "INFO"]
+    },
+    TRACING_ENABLED: { type: "boolean" },
+    METRICS_ENABLED: { type: "boolean" },
+    CLOUDWATCH_ROLE_ENABLED: { type: "boolean" }
+  };
+
+  /**
+   * Creates an instance of OSMLRestApiConfig.
+   * @param config - The configuration object for OSMLRestApi.
+   */
+  constructor(config: ConfigType = {}) {
+    super({
+      ENDPOINT_TYPE: "REGIONAL",
+      CORS_ALLOWED_ORIGINS: ["*"],
+      WAF_ENABLED: false,
+      WAF_MANAGED_RULE_GROUPS: [
+        "AWSManagedRulesCommonRuleSet",
+        "AWSManagedRulesKnownBadInputsRuleSet"
+      ],
+      CLOUDWATCH_ROLE_ENABLED: true,
+      ...config
+    });
+  }
+
+  /**
+   * Validates the private domain settings, the method throttles and usage plans, the CORS
+   * origins and the allowed CIDR ranges.
+   *
+   * @param config - The configuration object to validate.
+   * @returns The validation problems found.
+   */
+  protected static validate(config: ConfigType): string[] {
+    const errors: string[] = [];
+    if (config.PRIVATE_DOMAIN_NAME != undefined) {
+      if (config.ENDPOINT_TYPE !== "PRIVATE") {
+        errors.push(
+          "PRIVATE_DOMAIN_NAME: custom domain names require the PRIVATE ENDPOINT_TYPE"
+        );
+      }
+      for (const key of [
+        "PRIVATE_CERTIFICATE_ARN",
+        "PRIVATE_HOSTED_ZONE_NAME"
+      ] as const) {
+        if (config[key] == undefined) {
+          errors.push(`${key}: a value is required with PRIVATE_DOMAIN_NAME`);
+        }
+      }
+    }
+    errors.push(
+      ...validateEntries("METHOD_THROTTLES", config.METHOD_THROTTLES, {
+        path: requiredString,
+        method: optionalOneOf(
+          ["*", "GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+          true
+        ),
+        rateLimit: optionalLimit(false),
+        burstLimit: optionalLimit(true)
+      }),
+      ...validateEntries("USAGE_PLANS", config.USAGE_PLANS, {
+        name: requiredString,
+        throttleRateLimit: optionalLimit(false),
+        throttleBurstLimit: optionalLimit(true),
+        quotaLimit: optionalLimit(true),
+        quotaPeriod: optionalOneOf(["DAY", "WEEK", "MONTH"])
+      })
+    );
+    const origins = config.CORS_ALLOWED_ORIGINS as string[] | undefined;
+    if (origins?.includes("*") && origins.length > 1) {
+      errors.push(
+        'CORS_ALLOWED_ORIGINS: "*" cannot be combined with other origins'
+      );
+    }
+    const cidrs = (config.WAF_ALLOWED_IP_CIDRS as string[] | undefined) ?? [];
+    for (const cidr of cidrs) {
+      if (!/^[0-9a-fA-F:.]+\/\d{1,3}$/.test(cidr)) {
+        errors.push(`WAF_ALLOWED_IP_CIDRS: ${cidr} is not a CIDR range`);
+      }
+    }
+    return errors;
+  }
+}
+
+/**
+ * The fields of each JSON access log entry, including why the authorizer, WAF or
+ * integration rejected a request.
+ */
+const ACCESS_LOG_FORMAT = AccessLogFormat.custom(
+  JSON.stringify({
+    requestId: AccessLogField.contextRequestId(),
+    extendedRequestId: AccessLogField.contextExtendedRequestId(),
+    xrayTraceId: AccessLogField.contextXrayTraceId(),
+    requestTime: AccessLogField.contextRequestTime(),
+    sourceIp: AccessLogField.contextIdentitySourceIp(),
+    userAgent: AccessLogField.contextIdentityUserAgent(),
+    caller: AccessLogField.contextIdentityCaller(),
+    apiKeyId: AccessLogField.contextIdentityApiKeyId(),
+    principalId: AccessLogField.contextAuthorizerPrincipalId(),
+    httpMethod: AccessLogField.contextHttpMethod(),
+    resourcePath: AccessLogField.contextResourcePath(),
+    path: AccessLogField.contextPath(),
+    protocol: AccessLogField.contextProtocol(),
+    status: AccessLogField.contextStatus(),
+    responseLength: AccessLogField.contextResponseLength(),
+    responseLatency: AccessLogField.contextResponseLatency(),
+    authorizeStatus: AccessLogField.contextAuthorizeStatus(),
+    authorizeError: AccessLogField.contextAuthorizeError(),
+    authorizerStatus: AccessLogField.contextAuthorizerStatus(),
+    authorizerError: AccessLogField.contextAuthorizerError(),
+    authorizerLatency: AccessLogField.contextAuthorizerLatency(),
+    wafResponseCode: AccessLogField.contextWafResponseCode(),
+    integrationStatus: AccessLogField.contextIntegrationStatus(),
+    integrationLatency: AccessLogField.contextIntegrationLatency(),
+    integrationError: AccessLogField.contextIntegrationErrorMessage(),
+    errorMessage: AccessLogField.contextErrorMessage(),
+    errorResponseType: AccessLogField.contextErrorResponseType()
+  })
+);
 
 /**
  * Represents the properties required to configure the OSMLRestApi Construct.
@@ -69,15 +521,118 @@ export interface OSMLRestApiProps {
    * The IAM role for the Lambda function.
    */
   lambdaRole?: IRole;
+
+  /**
+   * Additional settings for the stage deployment, such as caching and per-method throttling.
+   * The stage name is always taken from `apiStageName`.
+   *
+   * @type {StageOptions | undefined}
+   */
+  deployOptions?: StageOptions;
+
+  /**
+   * The hosted zone and certificate to serve the API at `domainHostName` with (optional).
+   *
+   * @type {OSMLDomain | undefined}
+   */
+  domain?: OSMLDomain;
+
+  /**
+   * The host name of the API within the domain, such as "tiles". Required with `domain`.
+   *
+   * @type {string | undefined}
+   */
+  domainHostName?: string;
+
+  /**
+   * Custom configuration for the OSMLRestApi Construct (optional).
+   *
+   * @type {OSMLRestApiConfig | undefined}
+   */
+  config?: OSMLRestApiConfig;
 }
 
 /**
  * Represents the construct that attach authorizer to RestApi
  */
 export class OSMLRestApi extends Construct {
-  public requestAuthorizer: RequestAuthorizer;
+  /**
+   * The Lambda authorizer validating JWTs, if the "jwt" auth strategy is used.
+   */
+  public requestAuthorizer?: RequestAuthorizer;
+
+  /**
+   * The Cognito user pool authorizer, if the "cognito" auth strategy is used.
+   */
+  public cognitoAuthorizer?: CognitoUserPoolsAuthorizer;
+
+  /**
+   * The API key callers present, if the "apiKey" auth strategy is used.
+   */
+  public apiKey?: IApiKey;
+
+  /**
+   * The usage plan metering the API key, if the "apiKey" auth strategy is used.
+   */
+  public usagePlan?: UsagePlan;
+
+  /**
+   * The API keys issued to consumer teams, by team name.
+   */
+  public consumerApiKeys: { [name: string]: IApiKey } = {};
+
+  /**
+   * The usage plans metering consumer teams, by team name.
+   */
+  public consumerUsagePlans: { [name: string]: UsagePlan } = {};
+
+  /**
+   * The execute-api interface endpoint the API is reached through, if it is private.
+   */
+  public vpcEndpoint?: IInterfaceVpcEndpoint;
+
+  /**
+   * The custom domain name of the private API, if configured.
+   */
+  public privateDomainName?: CfnDomainNameV2;
+
+  /**
+   * The regional custom domain name of the API, if a domain is provided.
+   */
+  public domainName?: DomainName;
+
+  /**
+   * The URL of the API stage at its custom domain name, if one is configured.
+   */
+  public domainUrl?: string;
+
+  /**
+   * The WAF web ACL protecting the stage, if enabled.
+   */
+  public webAcl?: CfnWebACL;
+
+  /**
+   * Whether callers must present an API key.
+   */
+  public apiKeyRequired: boolean;
+
+  /**
+   * The log group receiving the access logs of the stage, if enabled.
+   */
+  public accessLogGroup?: LogGroup;
+
   public restApi: RestApi;
 
+  /**
+   * The configuration for the OSMLRestApi.
+   */
+  public config: OSMLRestApiConfig;
+
+  /**
+   * The authentication strategy protecting the API.
+   */
+  private readonly auth: OSMLAuth;
+
   /**
    * Creates an instance of OSML Rest APi
    * @param {Construct} scope - The scope/stack in which to define this construct.
@@ -87,41 +642,88 @@ export class OSMLRestApi extends Construct {
   constructor(scope: Construct, id: string, props: OSMLRestApiProps) {
     super(scope, id);
 
-    const osmlAuthorizer = new OSMLAuthorizer(this, `Authorizer${id}`, {
-      auth: props.auth,
-      name: props.name,
-      osmlVpc: props.osmlVpc,
-      lambdaRole: props.lambdaRole
-    });
+    this.auth = props.auth;
+    this.config = props.config ?? new OSMLRestApiConfig();
+    const auth = props.auth;
+    const prodLike = props.account.prodLike;
+    const tracingEnabled = this.config.TRACING_ENABLED ?? prodLike;
+    const loggingLevel =
+      this.config.EXECUTION_LOGGING_LEVEL ?? (prodLike ? "INFO" : "OFF");
+    let methodOptions: MethodOptions;
+    if (auth.type === "cognito") {
+      methodOptions = this.buildCognitoAuthorizer(props, auth);
+    } else if (auth.type === "iam") {
+      methodOptions = { authorizationType: AuthorizationType.IAM };
+    } else if (auth.type === "apiKey") {
+      methodOptions = {
+        authorizationType: AuthorizationType.NONE,
+        apiKeyRequired: true
+      };
+    } else {
+      methodOptions = this.buildJwtAuthorizer(id, props, auth, tracingEnabled);
+    }
+    const usagePlans = this.config.USAGE_PLANS ?? [];
+    if (usagePlans.length > 0) {
+      methodOptions = { ...methodOptions, apiKeyRequired: true };
+    }
+    this.apiKeyRequired = methodOptions.apiKeyRequired ?? false;
 
-    this.requestAuthorizer = new RequestAuthorizer(
-      this,
-      `RequestAuthorizer${id}`,
-      {
-        authorizerName: `${props.name}-Authorizer`,
-        handler: osmlAuthorizer.authorizerFunction,
-        identitySources: [IdentitySource.header("Authorization")],
-        resultsCacheTtl: Duration.minutes(0)
-      }
-    );
+    let policy: PolicyDocument | undefined;
+    if (this.config.ENDPOINT_TYPE === "PRIVATE") {
+      this.vpcEndpoint = props.osmlVpc.executeApiEndpoint();
+      policy = this.buildPrivatePolicy(this.vpcEndpoint);
+    }
+
+    if (this.config.ACCESS_LOGGING_ENABLED ?? prodLike) {
+      this.accessLogGroup = new LogGroup(this, "AccessLogGroup", {
+        logGroupName: `/aws/OSML/${props.name}-ApiAccessLogs`,
+        retention: RetentionDays.TEN_YEARS,
+        removalPolicy: prodLike ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY
+      });
+    }
 
     this.restApi = new RestApi(this, `RestApi${id}`, {
       restApiName: `${props.name}-RestApi`,
+      // API Gateway needs an account-level role to write logs
+      cloudWatchRole:
+        this.config.CLOUDWATCH_ROLE_ENABLED &&
+        (this.accessLogGroup != undefined || loggingLevel !== "OFF"),
       deployOptions: {
+        ...props.deployOptions,
+        accessLogDestination: this.accessLogGroup
+          ? new LogGroupLogDestination(this.accessLogGroup)
+          : undefined,
+        accessLogFormat: this.accessLogGroup ? ACCESS_LOG_FORMAT : undefined,
+        loggingLevel:
+          MethodLoggingLevel[loggingLevel as "OFF" | "ERROR" | "INFO"],
+        metricsEnabled: this.config.METRICS_ENABLED ?? prodLike,
+        tracingEnabled: tracingEnabled,
+        throttlingRateLimit:
+          this.config.THROTTLE_RATE_LIMIT ??
+          props.deployOptions?.throttlingRateLimit,
+        throttlingBurstLimit:
+          this.config.THROTTLE_BURST_LIMIT ??
+          props.deployOptions?.throttlingBurstLimit,
+        methodOptions: this.buildMethodThrottles(props.deployOptions),
         stageName: props.apiStageName
       },
-      endpointTypes: [EndpointType.REGIONAL],
+      endpointConfiguration: {
+        types: [
+          this.vpcEndpoint ? EndpointType.PRIVATE : EndpointType.REGIONAL
+        ],
+        vpcEndpoints: this.vpcEndpoint ? [this.vpcEndpoint] : undefined
+      },
+      policy: policy,
       defaultIntegration: props.integration,
       defaultMethodOptions: {
         requestParameters: {
           "method.request.path.proxy": true,
           "method.request.header.Accept": true
         },
-        authorizer: this.requestAuthorizer,
-        authorizationType: AuthorizationType.CUSTOM
+        ...methodOptions
       },
       defaultCorsPreflightOptions: {
-        allowOrigins: Cors.ALL_ORIGINS,
+        allowOrigins: this.config.CORS_ALLOWED_ORIGINS,
         allowHeaders: Cors.DEFAULT_HEADERS,
         allowMethods: Cors.ALL_METHODS
       }
@@ -130,5 +732,487 @@ export class OSMLRestApi extends Construct {
     this.restApi.root.addProxy({
       anyMethod: true
     });
+
+    if (auth.type === "apiKey") {
+      const plan = this.buildUsagePlan("", props.name, auth);
+      this.apiKey = plan.apiKey;
+      this.usagePlan = plan.usagePlan;
+    }
+    for (const usagePlan of usagePlans) {
+      const plan = this.buildUsagePlan(
+        usagePlan.name,
+        `${props.name}-${usagePlan.name}`,
+        usagePlan
+      );
+      this.consumerApiKeys[usagePlan.name] = plan.apiKey;
+      this.consumerUsagePlans[usagePlan.name] = plan.usagePlan;
+    }
+
+    if (this.config.WAF_ENABLED) {
+      this.buildWebAcl(props);
+    }
+
+    if (props.domain) {
+      this.buildDomainName(props, policy);
+    } else if (this.config.PRIVATE_DOMAIN_NAME) {
+      this.buildPrivateDomainName(
+        props,
+        policy!,
+        this.config.PRIVATE_DOMAIN_NAME,
+        this.config.PRIVATE_CERTIFICATE_ARN!,
+        this.buildPrivateHostedZone(props)
+      );
+    }
+  }
+
+  /**
+   * Grants a principal the right to invoke the API with SigV4 signed requests.
+   *
+   * @param {IGrantable} grantee - The principal to grant invoke rights to.
+   * @returns {Grant} The grant.
+   * @throws {Error} If the "iam" auth strategy is not used.
+   */
+  public grantInvoke(grantee: IGrantable): Grant {
+    if (this.auth.type !== "iam") {
+      throw new Error(
+        "OSMLRestApi invoke rights can only be granted with the iam auth strategy."
+      );
+    }
+    return Grant.addToPrincipal({
+      grantee: grantee,
+      actions: ["execute-api:Invoke"],
+      resourceArns: [this.restApi.arnForExecuteApi()]
+    });
+  }
+
+  /**
+   * Builds a Lambda authorizer validating JWTs issued by the OIDC authority.
+   *
+   * @param {string} id - The unique id of this construct within its scope.
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   * @param {OSMLJwtAuth} auth - The JWT auth configuration.
+   * @param {boolean} tracingEnabled - Whether to trace the authorizer with X-Ray.
+   * @returns {MethodOptions} The method options applying the authorizer.
+   */
+  private buildJwtAuthorizer(
+    id: string,
+    props: OSMLRestApiProps,
+    auth: OSMLJwtAuth,
+    tracingEnabled: boolean
+  ): MethodOptions {
+    const osmlAuthorizer = new OSMLAuthorizer(this, `Authorizer${id}`, {
+      auth: auth,
+      name: props.name,
+      osmlVpc: props.osmlVpc,
+      lambdaRole: props.lambdaRole,
+      tracingEnabled: tracingEnabled
+    });
+
+    this.requestAuthorizer = new RequestAuthorizer(
+      this,
+      `RequestAuthorizer${id}`,
+      {
+        authorizerName: `${props.name}-Authorizer`,
+        handler: osmlAuthorizer.authorizerFunction,
+        identitySources: [IdentitySource.header("Authorization")],
+        resultsCacheTtl: Duration.seconds(auth.cacheTtlSeconds ?? 0)
+      }
+    );
+    return {
+      authorizer: this.requestAuthorizer,
+      authorizationType: AuthorizationType.CUSTOM
+    };
+  }
+
+  /**
+   * Builds a Cognito user pool authorizer. Methods matching a route rule require one
+   * of its scopes.
+   *
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   * @param {OSMLCognitoAuth} auth - The Cognito auth configuration.
+   * @returns {MethodOptions} The method options applying the authorizer.
+   */
+  private buildCognitoAuthorizer(
+    props: OSMLRestApiProps,
+    auth: OSMLCognitoAuth
+  ): MethodOptions {
+    this.cognitoAuthorizer = new CognitoUserPoolsAuthorizer(
+      this,
+      "CognitoAuthorizer",
+      {
+        authorizerName: `${props.name}-CognitoAuthorizer`,
+        cognitoUserPools: [
+          UserPool.fromUserPoolArn(this, "UserPool", auth.userPoolArn)
+        ],
+        identitySource: IdentitySource.header("Authorization"),
+        resultsCacheTtl: Duration.seconds(auth.cacheTtlSeconds ?? 0)
+      }
+    );
+
+    // Methods are also added after this construct, so scopes are applied at synthesis
+    const routes = auth.routes ?? [];
+    Aspects.of(this).add({
+      visit: (node) => {
+        if (!(node instanceof Method) || node.httpMethod === "OPTIONS") {
+          return;
+        }
+        const scopes = routes
+          .filter((route) => routeMatches(route, node))
+          .flatMap((route) => route.scopes ?? []);
+        if (scopes.length > 0) {
+          (node.node.defaultChild as CfnMethod).authorizationScopes = [
+            ...new Set(scopes)
+          ];
+        }
+      }
+    });
+
+    return {
+      authorizer: this.cognitoAuthorizer,
+      authorizationType: AuthorizationType.COGNITO
+    };
+  }
+
+  /**
+   * Merges the configured method throttles into the method settings of the stage.
+   *
+   * @param {StageOptions | undefined} deployOptions - The stage settings provided to this construct.
+   * @returns The method settings of the stage, by resource path and method.
+   */
+  private buildMethodThrottles(deployOptions?: StageOptions): {
+    [path: string]: MethodDeploymentOptions;
+  } {
+    const methodOptions = { ...deployOptions?.methodOptions };
+    for (const throttle of this.config.METHOD_THROTTLES ?? []) {
+      // The root resource is keyed as "//METHOD"
+      const path = throttle.path.replace(/^\/+|\/+$/g, "");
+      const key = `/${path}/${(throttle.method ?? "*").toUpperCase()}`;
+      methodOptions[key] = {
+        ...methodOptions[key],
+        throttlingRateLimit: throttle.rateLimit,
+        throttlingBurstLimit: throttle.burstLimit
+      };
+    }
+    return methodOptions;
+  }
+
+  /**
+   * Builds an API key and a usage plan metering it on the API stage.
+   *
+   * @param {string} id - The id prefix of the API key and usage plan.
+   * @param {string} name - The name prefix of the API key and usage plan.
+   * @param {Omit<OSMLApiKeyAuth, "type">} limits - The throttling and quota of the usage plan.
+   * @returns The API key and the usage plan.
+   */
+  private buildUsagePlan(
+    id: string,
+    name: string,
+    limits: Omit<OSMLApiKeyAuth, "type">
+  ): { apiKey: IApiKey; usagePlan: UsagePlan } {
+    const apiKey = this.restApi.addApiKey(`${id}ApiKey`, {
+      apiKeyName: `${name}-ApiKey`
+    });
+    const usagePlan = this.restApi.addUsagePlan(`${id}UsagePlan`, {
+      name: `${name}-UsagePlan`,
+      apiStages: [{ api: this.restApi, stage: this.restApi.deploymentStage }],
+      throttle:
+        limits.throttleRateLimit != undefined ||
+        limits.throttleBurstLimit != undefined
+          ? {
+              rateLimit: limits.throttleRateLimit,
+              burstLimit: limits.throttleBurstLimit
+            }
+          : undefined,
+      quota:
+        limits.quotaLimit != undefined
+          ? {
+              limit: limits.quotaLimit,
+              period: Period[limits.quotaPeriod ?? "DAY"]
+            }
+          : undefined
+    });
+    usagePlan.addApiKey(apiKey);
+    return { apiKey: apiKey, usagePlan: usagePlan };
+  }
+
+  /**
+   * Builds a resource policy only admitting requests through the execute-api interface endpoint.
+   *
+   * @param {IInterfaceVpcEndpoint} vpcEndpoint - The execute-api interface endpoint.
+   * @returns {PolicyDocument} The resource policy.
+   */
+  private buildPrivatePolicy(
+    vpcEndpoint: IInterfaceVpcEndpoint
+  ): PolicyDocument {
+    return new PolicyDocument({
+      statements: [
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          principals: [new AnyPrincipal()],
+          actions: ["execute-api:Invoke"],
+          resources: ["execute-api:/*"]
+        }),
+        new PolicyStatement({
+          effect: Effect.DENY,
+          principals: [new AnyPrincipal()],
+          actions: ["execute-api:Invoke"],
+          resources: ["execute-api:/*"],
+          conditions: {
+            StringNotEquals: { "aws:SourceVpce": vpcEndpoint.vpcEndpointId }
+          }
+        })
+      ]
+    });
+  }
+
+  /**
+   * Serves the API at its host name in the configured domain. Private APIs get a
+   * private custom domain name, other APIs a regional one recorded as an alias of
+   * the API Gateway domain.
+   *
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   * @param {PolicyDocument | undefined} policy - The resource policy of a private API.
+   * @throws {Error} If no host name is set, or if PRIVATE_DOMAIN_NAME is also set.
+   */
+  private buildDomainName(
+    props: OSMLRestApiProps,
+    policy?: PolicyDocument
+  ): void {
+    const domain = props.domain!;
+    if (props.domainHostName == undefined) {
+      throw new Error("OSMLRestApi requires a domainHostName with a domain.");
+    }
+    if (this.config.PRIVATE_DOMAIN_NAME) {
+      throw new Error(
+        "OSMLRestApi accepts either PRIVATE_DOMAIN_NAME or a domain, not both."
+      );
+    }
+
+    const domainName = `${props.domainHostName}.${domain.zoneName}`;
+    const zone = importHostedZone(this, "HostedZone", domain);
+    if (policy) {
+      this.buildPrivateDomainName(
+        props,
+        policy,
+        domainName,
+        domain.certificateArn,
+        zone
+      );
+      return;
+    }
+
+    this.domainName = new DomainName(this, "DomainName", {
+      domainName: domainName,
+      certificate: Certificate.fromCertificateArn(
+        this,
+        "DomainCertificate",
+        domain.certificateArn
+      ),
+      endpointType: EndpointType.REGIONAL,
+      securityPolicy: SecurityPolicy.TLS_1_2
+    });
+    // Keep the stage in the path, so URLs built from the stage stay valid
+    this.domainName.addBasePathMapping(this.restApi, {
+      basePath: props.apiStageName
+    });
+    new ARecord(this, "DomainRecord", {
+      zone: zone,
+      recordName: domainName,
+      target: RecordTarget.fromAlias(new ApiGatewayDomain(this.domainName))
+    });
+    this.domainUrl = `https://${domainName}/${props.apiStageName}/`;
   }
+
+  /**
+   * Imports the private hosted zone named PRIVATE_HOSTED_ZONE_NAME, or creates it for
+   * the OSML VPC.
+   *
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   * @returns {IHostedZone} The private hosted zone.
+   */
+  private buildPrivateHostedZone(props: OSMLRestApiProps): IHostedZone {
+    const zoneName = this.config.PRIVATE_HOSTED_ZONE_NAME!;
+    return this.config.PRIVATE_HOSTED_ZONE_ID
+      ? HostedZone.fromHostedZoneAttributes(this, "PrivateHostedZone", {
+          hostedZoneId: this.config.PRIVATE_HOSTED_ZONE_ID,
+          zoneName: zoneName
+        })
+      : new PrivateHostedZone(this, "PrivateHostedZone", {
+          zoneName: zoneName,
+          vpc: props.osmlVpc.vpc
+        });
+  }
+
+  /**
+   * Builds a custom domain name for the private API, maps the stage under its name,
+   * and records the domain name in a hosted zone as an alias of the execute-api
+   * interface endpoint.
+   *
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   * @param {PolicyDocument} policy - The resource policy of the private API.
+   * @param {string} domainName - The custom domain name.
+   * @param {string} certificateArn - The ARN of the certificate covering the domain name.
+   * @param {IHostedZone} zone - The hosted zone the domain name is recorded in.
+   * @throws {Error} If the execute-api interface endpoint was imported.
+   */
+  private buildPrivateDomainName(
+    props: OSMLRestApiProps,
+    policy: PolicyDocument,
+    domainName: string,
+    certificateArn: string,
+    zone: IHostedZone
+  ): void {
+    if (!(this.vpcEndpoint instanceof InterfaceVpcEndpoint)) {
+      throw new Error(
+        "Private custom domain names require the execute-api endpoint created by OSMLVpc, since the DNS names of imported endpoints are unknown."
+      );
+    }
+
+    this.privateDomainName = new CfnDomainNameV2(this, "PrivateDomainName", {
+      domainName: domainName,
+      certificateArn: certificateArn,
+      endpointConfiguration: { types: ["PRIVATE"] },
+      securityPolicy: "TLS_1_2",
+      policy: policy
+    });
+    // Keep the stage in the path, so URLs built from the stage stay valid
+    new CfnBasePathMappingV2(this, "PrivateBasePathMapping", {
+      domainNameArn: this.privateDomainName.attrDomainNameArn,
+      restApiId: this.restApi.restApiId,
+      stage: this.restApi.deploymentStage.stageName,
+      basePath: props.apiStageName
+    });
+    new CfnDomainNameAccessAssociation(
+      this,
+      "PrivateDomainNameAccessAssociation",
+      {
+        accessAssociationSource: this.vpcEndpoint.vpcEndpointId,
+        accessAssociationSourceType: "VPCE",
+        domainNameArn: this.privateDomainName.attrDomainNameArn
+      }
+    );
+    new ARecord(this, "PrivateDomainRecord", {
+      zone: zone,
+      recordName: domainName,
+      target: RecordTarget.fromAlias(
+        new InterfaceVpcEndpointTarget(this.vpcEndpoint)
+      )
+    });
+    this.domainUrl = `https://${domainName}/${props.apiStageName}/`;
+  }
+
+  /**
+   * Builds a WAF web ACL for the API stage. It blocks addresses outside the allowed
+   * CIDR ranges, rate limits each address and evaluates the managed rule groups.
+   *
+   * @param {OSMLRestApiProps} props - The properties of this construct.
+   */
+  private buildWebAcl(props: OSMLRestApiProps): void {
+    const visibilityConfig = (metricName: string) => ({
+      cloudWatchMetricsEnabled: true,
+      metricName: metricName,
+      sampledRequestsEnabled: true
+    });
+    const rules: CfnWebACL.RuleProperty[] = [];
+
+    const cidrs = this.config.WAF_ALLOWED_IP_CIDRS ?? [];
+    if (cidrs.length > 0) {
+      const ipSetStatements = (["IPV4", "IPV6"] as const)
+        .map((version) => ({
+          version: version,
+          addresses: cidrs.filter(
+            (cidr) => cidr.includes(":") == (version === "IPV6")
+          )
+        }))
+        .filter((ipSet) => ipSet.addresses.length > 0)
+        .map((ipSet) => ({
+          ipSetReferenceStatement: {
+            arn: new CfnIPSet(this, `AllowedIpSet${ipSet.version}`, {
+              name: `${props.name}-AllowedIps-${ipSet.version}`,
+              scope: "REGIONAL",
+              ipAddressVersion: ipSet.version,
+              addresses: ipSet.addresses
+            }).attrArn
+          }
+        }));
+      rules.push({
+        name: "BlockUnlistedIps",
+        priority: rules.length,
+        action: { block: {} },
+        statement: {
+          notStatement: {
+            statement:
+              ipSetStatements.length > 1
+                ? { orStatement: { statements: ipSetStatements } }
+                : ipSetStatements[0]
+          }
+        },
+        visibilityConfig: visibilityConfig(`${props.name}-BlockUnlistedIps`)
+      });
+    }
+
+    if (this.config.WAF_RATE_LIMIT != undefined) {
+      rules.push({
+        name: "RateLimitPerIp",
+        priority: rules.length,
+        action: { block: {} },
+        statement: {
+          rateBasedStatement: {
+            limit: this.config.WAF_RATE_LIMIT,
+            aggregateKeyType: "IP"
+          }
+        },
+        visibilityConfig: visibilityConfig(`${props.name}-RateLimitPerIp`)
+      });
+    }
+
+    for (const ruleGroup of this.config.WAF_MANAGED_RULE_GROUPS) {
+      rules.push({
+        name: ruleGroup,
+        priority: rules.length,
+        overrideAction: { none: {} },
+        statement: {
+          managedRuleGroupStatement: { vendorName: "AWS", name: ruleGroup }
+        },
+        visibilityConfig: visibilityConfig(`${props.name}-${ruleGroup}`)
+      });
+    }
+
+    this.webAcl = new CfnWebACL(this, "WebAcl", {
+      name: `${props.name}-WebAcl`,
+      scope: "REGIONAL",
+      defaultAction: { allow: {} },
+      rules: rules,
+      visibilityConfig: visibilityConfig(`${props.name}-WebAcl`)
+    });
+    new CfnWebACLAssociation(this, "WebAclAssociation", {
+      resourceArn: this.restApi.deploymentStage.stageArn,
+      webAclArn: this.webAcl.attrArn
+    });
+  }
+}
+
+/**
+ * Checks whether a route authorization rule applies to an API method.
+ *
+ * @param route - The route authorization rule.
+ * @param {Method} method - The API method.
+ * @returns {boolean} True if the rule applies to the method.
+ */
+function routeMatches(
+  route: { path: string; methods?: string[] },
+  method: Method
+): boolean {
+  const pattern = route.path
+    .replace(/^\//, "")
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const methods = (route.methods ?? []).map((m) => m.toUpperCase());
+  return (
+    new RegExp(`^${pattern}$`).test(method.resource.path.replace(/^\//, "")) &&
+    (methods.length == 0 ||
+      methods.includes(method.httpMethod) ||
+      method.httpMethod === "ANY")
+  );
 }
@@ -1,11 +1,12 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { RemovalPolicy } from "aws-cdk-lib";
 import {
   Attribute,
   BillingMode,
+  StreamViewType,
   Table,
   TableEncryption
 } from "aws-cdk-lib/aws-dynamodb";
@@ -51,6 +52,13 @@ export interface OSMLTableProps {
    * @type {string | undefined}
    */
   ttlAttribute?: string;
+
+  /**
+   * (Optional) The item changes to publish to the table's stream.
+   *
+   * @type {StreamViewType | undefined}
+   */
+  stream?: StreamViewType;
 }
 
 /**
@@ -84,7 +92,8 @@ export class OSMLTable extends Construct {
       billingMode: BillingMode.PAY_PER_REQUEST,
       encryption: TableEncryption.AWS_MANAGED,
       removalPolicy: props.removalPolicy,
-      timeToLiveAttribute: props.ttlAttribute
+      timeToLiveAttribute: props.ttlAttribute,
+      stream: props.stream
     });
   }
 }
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { CertificateAuthority } from "aws-cdk-lib/aws-acmpca";
+import {
+  Certificate,
+  ICertificate,
+  PrivateCertificate
+} from "aws-cdk-lib/aws-certificatemanager";
+import { ILoadBalancerV2 } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { ARecord, HostedZone, RecordTarget } from "aws-cdk-lib/aws-route53";
+import { LoadBalancerTarget } from "aws-cdk-lib/aws-route53-targets";
+import { Construct } from "constructs";
+
+/**
+ * Represents the TLS configuration for HTTPS load balancer listeners.
+ *
+ * @interface OSMLTls
+ */
+export interface OSMLTls {
+  /**
+   * The domain name clients and API Gateway VPC link integrations use to reach
+   * the load balancers. It must be covered by the certificate.
+   */
+  domainName: string;
+
+  /**
+   * The ARN of an existing ACM certificate. Either this or
+   * `certificateAuthorityArn` must be set.
+   */
+  certificateArn?: string;
+
+  /**
+   * The ARN of an ACM Private CA that issues a certificate for `domainName`.
+   */
+  certificateAuthorityArn?: string;
+
+  /**
+   * Whether to redirect HTTP requests to HTTPS. When false, load balancers only
+   * listen on HTTPS.
+   *
+   * @default true
+   */
+  redirectHttp?: boolean;
+
+  /**
+   * The ID of a Route 53 hosted zone to record `domainName` in, as an alias of the
+   * load balancer. Without it, `domainName` must resolve to the load balancer by
+   * other means.
+   *
+   * @default - no record is created
+   */
+  hostedZoneId?: string;
+}
+
+/**
+ * Imports the configured certificate, or issues one for the domain name from the
+ * configured private CA.
+ *
+ * @param {Construct} scope - The scope in which to define the certificate.
+ * @param {string} id - The id of the certificate within the scope.
+ * @param {OSMLTls} tls - The TLS configuration.
+ * @returns {ICertificate} The certificate.
+ * @throws {Error} If not exactly one of the certificate ARN and private CA ARN is set.
+ */
+export function buildTlsCertificate(
+  scope: Construct,
+  id: string,
+  tls: OSMLTls
+): ICertificate {
+  if (
+    (tls.certificateArn == undefined) ==
+    (tls.certificateAuthorityArn == undefined)
+  ) {
+    throw new Error(
+      "OSMLTls requires exactly one of certificateArn or certificateAuthorityArn."
+    );
+  }
+  if (tls.certificateArn) {
+    return Certificate.fromCertificateArn(scope, id, tls.certificateArn);
+  }
+  return new PrivateCertificate(scope, id, {
+    domainName: tls.domainName,
+    certificateAuthority: CertificateAuthority.fromCertificateAuthorityArn(
+      scope,
+      `${id}Authority`,
+      tls.certificateAuthorityArn!
+    )
+  });
+}
+
+/**
+ * Records the domain name in the configured hosted zone as an alias of a load
+ * balancer, if a hosted zone is configured.
+ *
+ * @param {Construct} scope - The scope in which to define the record.
+ * @param {string} id - The id of the record within the scope.
+ * @param {OSMLTls} tls - The TLS configuration.
+ * @param {ILoadBalancerV2} loadBalancer - The load balancer the domain name resolves to.
+ * @returns {ARecord | undefined} The record, if one was created.
+ */
+export function buildTlsRecord(
+  scope: Construct,
+  id: string,
+  tls: OSMLTls,
+  loadBalancer: ILoadBalancerV2
+): ARecord | undefined {
+  if (tls.hostedZoneId == undefined) {
+    return undefined;
+  }
+  return new ARecord(scope, id, {
+    zone: HostedZone.fromHostedZoneId(
+      scope,
+      `${id}HostedZone`,
+      tls.hostedZoneId
+    ),
+    // A fully qualified name, since the zone name of an imported zone is unknown
+    recordName: `${tls.domainName}.`,
+    target: RecordTarget.fromAlias(new LoadBalancerTarget(loadBalancer))
+  });
+}
@@ -8,6 +8,8 @@ import {
   FlowLogDestination,
   FlowLogResourceType,
   GatewayVpcEndpointAwsService,
+  IInterfaceVpcEndpoint,
+  InterfaceVpcEndpoint,
   InterfaceVpcEndpointAwsService,
   InterfaceVpcEndpointService,
   IVpc,
@@ -22,6 +24,7 @@ import { Construct } from "constructs";
 
 import { OSMLAccount } from "./osml_account";
 import { BaseConfig, ConfigType } from "./utils/base_config";
+import { ConfigSchema } from "./utils/config_schema";
 import { RegionalConfig } from "./utils/regional_config";
 
 export class OSMLVpcConfig extends BaseConfig {
@@ -56,6 +59,39 @@ export class OSMLVpcConfig extends BaseConfig {
    */
   public ENABLE_VPC_ENDPOINTS?: boolean;
 
+  /**
+   * The ID of an existing execute-api interface endpoint to use for private APIs
+   * instead of creating one.
+   */
+  public EXECUTE_API_VPC_ENDPOINT_ID?: string;
+
+  /**
+   * Whether the execute-api interface endpoint created for private APIs resolves every
+   * execute-api host name in the VPC. Disable it when REGIONAL APIs, such as a regional
+   * Data Catalog API next to a private Tile Server API, are called from inside the VPC.
+   * Private APIs are then reached through their custom domain names or the endpoint's
+   * `<api-id>-<vpce-id>.execute-api.<region>.vpce.amazonaws.com` host names.
+   * @default true
+   */
+  public EXECUTE_API_PRIVATE_DNS_ENABLED: boolean;
+
+  /**
+   * The schema describing the allowed OSMLVpcConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    VPC_NAME: { type: "string" },
+    VPC_ID: { type: "string", pattern: /^vpc-[0-9a-f]+$/ },
+    TARGET_SUBNETS: { type: "string[]" },
+    MAX_AZS: { type: "number", integer: true, min: 1 },
+    IAM_FLOW_LOG_ROLE_NAME: { type: "string" },
+    ENABLE_VPC_ENDPOINTS: { type: "boolean" },
+    EXECUTE_API_VPC_ENDPOINT_ID: {
+      type: "string",
+      pattern: /^vpce-[0-9a-f]+$/
+    },
+    EXECUTE_API_PRIVATE_DNS_ENABLED: { type: "boolean" }
+  };
+
   /**
    * Constructor for MRDataplaneConfig.
    * @param config - The configuration object for the VPC.
@@ -66,6 +102,7 @@ export class OSMLVpcConfig extends BaseConfig {
       // Set default values here
       VPC_NAME: "OSML-VPC",
       ENABLE_VPC_ENDPOINTS: true,
+      EXECUTE_API_PRIVATE_DNS_ENABLED: true,
       ...config
     });
   }
@@ -131,6 +168,17 @@ export class OSMLVpc extends Construct {
    */
   public flowLogRole?: IRole;
 
+  /**
+   * The endpoint service name prefix of the region, for regions whose endpoint
+   * service names differ from the AWS defaults.
+   */
+  private readonly endpointServicePrefix?: string;
+
+  /**
+   * The execute-api interface endpoint, once a private API requested it.
+   */
+  private executeApiVpcEndpoint?: IInterfaceVpcEndpoint;
+
   /**
    * Constructor for OSMLVpc. Sets up a VPC with or without custom configurations based on the provided properties.
    * @param scope - The scope/stack in which to define this construct.
@@ -151,6 +199,12 @@ export class OSMLVpc extends Construct {
 
     const regionConfig = RegionalConfig.getConfig(props.account.region);
 
+    if (props.account.region === "us-iso-east-1") {
+      this.endpointServicePrefix = `gov.ic.c2s.${props.account.region}`;
+    } else if (props.account.region === "us-isob-east-1") {
+      this.endpointServicePrefix = `gov.sgov.sc2s.${props.account.region}`;
+    }
+
     this.removalPolicy = props.account.prodLike
       ? RemovalPolicy.RETAIN
       : RemovalPolicy.DESTROY;
@@ -200,28 +254,21 @@ export class OSMLVpc extends Construct {
    * @param props - The properties object containing account and VPC configurations.
    */
   private setupVpcEndpoints(props: OSMLVpcProps): void {
-    let partitionPrefix;
-    if (props.account.region === "us-iso-east-1") {
-      partitionPrefix = "gov.ic.c2s";
-    } else if (props.account.region === "us-isob-east-1") {
-      partitionPrefix = "gov.sgov.sc2s";
-    }
-
     this.vpc.addGatewayEndpoint("S3GatewayEndpoint", {
       service: GatewayVpcEndpointAwsService.S3
     });
     this.vpc.addInterfaceEndpoint("SMApiInterfaceEndpoint", {
-      service: partitionPrefix
+      service: this.endpointServicePrefix
         ? new InterfaceVpcEndpointService(
-            `${partitionPrefix}.${props.account.region}.sagemaker.api`
+            `${this.endpointServicePrefix}.sagemaker.api`
           )
         : InterfaceVpcEndpointAwsService.SAGEMAKER_API,
       privateDnsEnabled: true
     });
     this.vpc.addInterfaceEndpoint("SMRuntimeInterfaceEndpoint", {
-      service: partitionPrefix
+      service: this.endpointServicePrefix
         ? new InterfaceVpcEndpointService(
-            `${partitionPrefix}.${props.account.region}.sagemaker.runtime`
+            `${this.endpointServicePrefix}.sagemaker.runtime`
           )
         : InterfaceVpcEndpointAwsService.SAGEMAKER_RUNTIME,
       privateDnsEnabled: true
@@ -242,6 +289,44 @@ export class OSMLVpc extends Construct {
     }
   }
 
+  /**
+   * Returns the execute-api interface endpoint private APIs are reached through.
+   * The endpoint named by EXECUTE_API_VPC_ENDPOINT_ID is used if set, otherwise one
+   * is created on first use, with private DNS unless EXECUTE_API_PRIVATE_DNS_ENABLED
+   * is false, and shared by all private APIs.
+   *
+   * @returns {IInterfaceVpcEndpoint} The execute-api interface endpoint.
+   */
+  public executeApiEndpoint(): IInterfaceVpcEndpoint {
+    if (this.executeApiVpcEndpoint == undefined) {
+      if (this.config.EXECUTE_API_VPC_ENDPOINT_ID) {
+        this.executeApiVpcEndpoint =
+          InterfaceVpcEndpoint.fromInterfaceVpcEndpointAttributes(
+            this,
+            "ExecuteApiImportEndpoint",
+            {
+              vpcEndpointId: this.config.EXECUTE_API_VPC_ENDPOINT_ID,
+              port: 443
+            }
+          );
+      } else {
+        this.executeApiVpcEndpoint = this.vpc.addInterfaceEndpoint(
+          "ExecuteApiInterfaceEndpoint",
+          {
+            service: this.endpointServicePrefix
+              ? new InterfaceVpcEndpointService(
+                  `${this.endpointServicePrefix}.execute-api`
+                )
+              : InterfaceVpcEndpointAwsService.APIGATEWAY,
+            privateDnsEnabled: this.config.EXECUTE_API_PRIVATE_DNS_ENABLED,
+            subnets: { subnets: this.selectedSubnets.subnets }
+          }
+        );
+      }
+    }
+    return this.executeApiVpcEndpoint;
+  }
+
   /**
    * Sets up the VPC flow logs for monitoring and auditing network traffic.
    * The logs are stored in CloudWatch with a specified retention period and removal policy.
@@ -0,0 +1,57 @@
+# Copyright 2025 Amazon.com, Inc. or its affiliates.
+
+import os
+from typing import Any, Dict, List, Optional
+
+import boto3
+
+cloudfront = boto3.client("cloudfront")
+
+
+def lambda_handler(event: Dict[str, Any], context) -> Dict[str, Any]:
+    """
+    Invalidate the cached tiles of each deleted or expired viewpoint.
+
+    :param event: DynamoDB stream event carrying tile server job table changes
+    :param context: Lambda context
+
+    :return: The number of viewpoints invalidated
+    """
+    viewpoint_ids = sorted({vid for vid in map(find_viewpoint_id, event.get("Records", [])) if vid})
+    if not viewpoint_ids:
+        return {"invalidated": 0}
+
+    paths = build_invalidation_paths(viewpoint_ids)
+    cloudfront.create_invalidation(
+        DistributionId=os.environ["DISTRIBUTION_ID"],
+        InvalidationBatch={
+            "Paths": {"Quantity": len(paths), "Items": paths},
+            "CallerReference": context.aws_request_id,
+        },
+    )
+
+    print(f"Invalidated cached tiles for {len(viewpoint_ids)} viewpoints")
+    return {"invalidated": len(viewpoint_ids)}
+
+
+def find_viewpoint_id(record: Dict[str, Any]) -> Optional[str]:
+    """
+    Find the viewpoint ID of a job table stream record.
+
+    :param record: The DynamoDB stream record
+
+    :return: The viewpoint ID, or None if the record has none
+    """
+    return record.get("dynamodb", {}).get("Keys", {}).get("viewpoint_id", {}).get("S")
+
+
+def build_invalidation_paths(viewpoint_ids: List[str]) -> List[str]:
+    """
+    Build the CloudFront paths covering every cached response of the viewpoints.
+
+    :param viewpoint_ids: The viewpoint IDs to invalidate
+
+    :return: The invalidation paths
+    """
+    prefixes = os.environ["INVALIDATION_PATH_PREFIXES"].split(",")
+    return [f"{prefix}{viewpoint_id}/*" for prefix in prefixes for viewpoint_id in viewpoint_ids]
@@ -1,5 +1,5 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { region_info } from "aws-cdk-lib";
@@ -161,13 +161,31 @@ export class TSTaskRole extends Construct {
       ]
     });
 
+    // Add permission for autoscaling ECS permissions
+    const autoScalingEcsPolicyStatement = new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ["ecs:DescribeServices", "ecs:UpdateService"],
+      resources: [
+        `arn:${this.partition}:ecs:${props.account.region}:${props.account.id}:*`
+      ]
+    });
+
+    // Add permission for autoscaling CW permissions
+    const autoScalingCwPolicyStatement = new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ["cloudwatch:DescribeAlarms"],
+      resources: [`*`]
+    });
+
     tsPolicy.addStatements(
       s3PolicyStatement,
       kmsPolicyStatement,
       eventsPolicyStatement,
       sqsPolicyStatement,
       ddbPolicyStatement,
-      stsPolicyStatement
+      stsPolicyStatement,
+      autoScalingEcsPolicyStatement,
+      autoScalingCwPolicyStatement
     );
 
     tsTaskRole.addManagedPolicy(tsPolicy);
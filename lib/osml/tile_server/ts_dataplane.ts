@@ -2,7 +2,8 @@
  * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
-import { Duration, RemovalPolicy } from "aws-cdk-lib";
+import { EcsIsoServiceAutoscaler } from "@cdklabs/cdk-enterprise-iac";
+import { CfnOutput, Duration, RemovalPolicy, Size } from "aws-cdk-lib";
 import {
   ConnectionType,
   HttpIntegration,
@@ -14,7 +15,9 @@ import {
   BackupResource,
   BackupVault
 } from "aws-cdk-lib/aws-backup";
-import { AttributeType } from "aws-cdk-lib/aws-dynamodb";
+import { ICertificate } from "aws-cdk-lib/aws-certificatemanager";
+import { Alarm, Metric } from "aws-cdk-lib/aws-cloudwatch";
+import { AttributeType, StreamViewType } from "aws-cdk-lib/aws-dynamodb";
 import { ISecurityGroup, Peer, Port, SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import {
   AwsLogDriver,
@@ -23,7 +26,9 @@ import {
   Compatibility,
   ContainerDefinition,
   ContainerInsights,
+  FargateService,
   Protocol as ecs_protocol,
+  ScalableTaskCount,
   TaskDefinition
 } from "aws-cdk-lib/aws-ecs";
 import { ApplicationLoadBalancedFargateService } from "aws-cdk-lib/aws-ecs-patterns";
@@ -36,9 +41,12 @@ import {
 } from "aws-cdk-lib/aws-efs";
 import {
   ApplicationLoadBalancer,
+  ApplicationProtocol,
   NetworkLoadBalancer,
-  Protocol as elbv2_protocol
+  Protocol as elbv2_protocol,
+  SslPolicy
 } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { AlbListenerTarget } from "aws-cdk-lib/aws-elasticloadbalancingv2-targets";
 import {
   AnyPrincipal,
   IRole,
@@ -47,31 +55,57 @@ import {
 } from "aws-cdk-lib/aws-iam";
 import { DockerImageFunction } from "aws-cdk-lib/aws-lambda";
 import { LogGroup, RetentionDays } from "aws-cdk-lib/aws-logs";
+import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
 
 import { OSMLAccount } from "../osml_account";
 import { OSMLAuth } from "../osml_auth";
+import { OSMLBucket } from "../osml_bucket";
 import { OSMLContainer } from "../osml_container";
+import { buildLoadBalancerRecord, OSMLDomain } from "../osml_domain";
 import { OSMLQueue } from "../osml_queue";
-import { OSMLRestApi } from "../osml_restapi";
+import { OSMLRestApi, OSMLRestApiConfig } from "../osml_restapi";
 import { OSMLTable } from "../osml_table";
+import { buildTlsCertificate, buildTlsRecord, OSMLTls } from "../osml_tls";
 import { OSMLVpc } from "../osml_vpc";
 import { BaseConfig, ConfigType } from "../utils/base_config";
+import {
+  ConfigSchema,
+  FARGATE_TASK_CPU_VALUES,
+  validateContainerFitsTask,
+  validateFargateTaskSize,
+  validateMinMax
+} from "../utils/config_schema";
 import { RegionalConfig } from "../utils/regional_config";
 import { TSExecutionRole } from "./roles/ts_execution_role";
 import { TSLambdaRole } from "./roles/ts_lambda_role";
 import { TSTaskRole } from "./roles/ts_task_role";
+import { TSMonitoring } from "./ts_monitoring";
+import { TSTileCache } from "./ts_tile_cache";
+import { TSTileRoutes } from "./ts_tile_routes";
 
 /**
  * Configuration class for TSDataplane Construct.
  */
 export class TSDataplaneConfig extends BaseConfig {
+  /**
+   * The size, in GB, of the API stage cache used by tile routes with a cache TTL.
+   * @default "0.5"
+   */
+  public API_CACHE_CLUSTER_SIZE: string;
+
   /**
    * The default API path to use if auth was configured.
    * @default "latest/viewpoints"
    */
   public API_DEFAULT_PATH: string;
 
+  /**
+   * Whether to add WMTS, XYZ and TileJSON routes to the API if auth was configured.
+   * @default true
+   */
+  public API_ENABLE_TILE_ROUTES: boolean;
+
   /**
    * The FastAPI root path for viewpoints.
    * @default "viewpoints"
@@ -84,6 +118,60 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public API_SERVICE_NAME_ABBREVIATION: string;
 
+  /**
+   * The time, in seconds, the API caches TileJSON responses. 0 disables caching.
+   * @default 0
+   */
+  public API_TILEJSON_CACHE_TTL_SECONDS: number;
+
+  /**
+   * The steady-state TileJSON request rate limit, in requests per second.
+   * @default 50
+   */
+  public API_TILEJSON_THROTTLE_RATE_LIMIT: number;
+
+  /**
+   * The TileJSON request burst limit.
+   * @default 100
+   */
+  public API_TILEJSON_THROTTLE_BURST_LIMIT: number;
+
+  /**
+   * The time, in seconds, the API caches WMTS responses. 0 disables caching.
+   * @default 0
+   */
+  public API_WMTS_CACHE_TTL_SECONDS: number;
+
+  /**
+   * The steady-state WMTS request rate limit, in requests per second.
+   * @default 500
+   */
+  public API_WMTS_THROTTLE_RATE_LIMIT: number;
+
+  /**
+   * The WMTS request burst limit.
+   * @default 1000
+   */
+  public API_WMTS_THROTTLE_BURST_LIMIT: number;
+
+  /**
+   * The time, in seconds, the API caches XYZ tiles. 0 disables caching.
+   * @default 0
+   */
+  public API_XYZ_CACHE_TTL_SECONDS: number;
+
+  /**
+   * The steady-state XYZ tile request rate limit, in requests per second.
+   * @default 1000
+   */
+  public API_XYZ_THROTTLE_RATE_LIMIT: number;
+
+  /**
+   * The XYZ tile request burst limit.
+   * @default 2000
+   */
+  public API_XYZ_THROTTLE_BURST_LIMIT: number;
+
   /**
    * Whether to build container resources from source.
    * @default "false"
@@ -138,12 +226,103 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public DEPLOY_TEST_COMPONENTS: boolean;
 
+  /**
+   * The host name of the load balancer within the domain, if a domain is provided.
+   * @default "tiles-alb"
+   */
+  public DOMAIN_ALB_HOST_NAME: string;
+
+  /**
+   * The host name of the API within the domain, if a domain is provided.
+   * @default "tiles"
+   */
+  public DOMAIN_API_HOST_NAME: string;
+
+  /**
+   * The host name of the API's network load balancer within the domain, if a domain is provided.
+   * @default "tiles-nlb"
+   */
+  public DOMAIN_NLB_HOST_NAME: string;
+
   /**
    * The name of the EFS volume to give tasks.
    * @default "ts-efs-volume"
    */
   public EFS_MOUNT_NAME: string;
 
+  /**
+   * The number of MiB/s of throughput to provision for the EFS file system. Required
+   * when EFS_THROUGHPUT_MODE is "provisioned".
+   * @default undefined
+   */
+  public EFS_PROVISIONED_THROUGHPUT_MIBPS?: number | undefined;
+
+  /**
+   * The throughput mode of the EFS file system, "bursting", "elastic" or "provisioned".
+   * @default "bursting"
+   */
+  public EFS_THROUGHPUT_MODE: string;
+
+  /**
+   * The maximum number of tasks allowed in the cluster.
+   * @default 10
+   */
+  public ECS_AUTOSCALING_TASK_MAX_COUNT: number;
+
+  /**
+   * The minimum number of tasks required in the cluster.
+   * @default 1
+   */
+  public ECS_AUTOSCALING_TASK_MIN_COUNT: number;
+
+  /**
+   * The cooldown period (in minutes) after scaling in tasks.
+   * @default 5
+   */
+  public ECS_AUTOSCALING_TASK_IN_COOLDOWN: number;
+
+  /**
+   * The number of tasks to increment when scaling in.
+   * @default 1
+   */
+  public ECS_AUTOSCALING_TASK_IN_INCREMENT: number;
+
+  /**
+   * The cooldown period (in minutes) after scaling out tasks.
+   * @default 1
+   */
+  public ECS_AUTOSCALING_TASK_OUT_COOLDOWN: number;
+
+  /**
+   * The number of tasks to increment when scaling out.
+   * @default 2
+   */
+  public ECS_AUTOSCALING_TASK_OUT_INCREMENT: number;
+
+  /**
+   * The number of waiting viewpoint jobs that triggers a scale out.
+   * @default 5
+   */
+  public ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD: number;
+
+  /**
+   * The target number of load balancer requests per task per minute.
+   * @default 500
+   */
+  public ECS_AUTOSCALING_TARGET_REQUESTS_PER_TASK: number;
+
+  /**
+   * The target average CPU utilization (%) of the service.
+   * @default 70
+   */
+  public ECS_AUTOSCALING_TARGET_CPU_UTILIZATION: number;
+
+  /**
+   * The target average memory utilization (%) of the service.
+   * @default 70
+   */
+  public ECS_AUTOSCALING_TARGET_MEMORY_UTILIZATION: number;
+
   /**
    * The CPU configuration for TS containers.
    * @default 7168
@@ -180,6 +359,12 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public ECS_EXECUTION_ROLE_NAME?: string | undefined;
 
+  /**
+   * The namespace for metrics.
+   * @default "OSML"
+   */
+  public ECS_METRICS_NAMESPACE: string;
+
   /**
    * The port to use in Network Load Balancer.
    * @default 80
@@ -192,6 +377,48 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public SECURITY_GROUP_ID?: string | undefined;
 
+  /**
+   * The maximum number of tasks allowed in the worker service.
+   * @default 10
+   */
+  public ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT: number;
+
+  /**
+   * The minimum number of tasks required in the worker service.
+   * @default 1
+   */
+  public ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT: number;
+
+  /**
+   * The CPU configuration for TS worker containers.
+   * @default 3584
+   */
+  public ECS_WORKER_CONTAINER_CPU: number;
+
+  /**
+   * The memory configuration for TS worker containers.
+   * @default 6144
+   */
+  public ECS_WORKER_CONTAINER_MEMORY: number;
+
+  /**
+   * The name of the TS worker container.
+   * @default "TSWorkerContainer"
+   */
+  public ECS_WORKER_CONTAINER_NAME: string;
+
+  /**
+   * The CPU configuration for TS worker tasks.
+   * @default 4096
+   */
+  public ECS_WORKER_TASK_CPU: number;
+
+  /**
+   * The memory configuration for TS worker tasks.
+   * @default 8192
+   */
+  public ECS_WORKER_TASK_MEMORY: number;
+
   /**
    * The CPU configuration for TS tasks.
    * @default 8192
@@ -222,6 +449,51 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public SQS_JOB_QUEUE: string;
 
+  /**
+   * The prefix to assign the deployed S3 tile bucket.
+   * @default "ts-tiles"
+   */
+  public S3_TILE_BUCKET_PREFIX: string;
+
+  /**
+   * The number of days after which objects in the S3 tile bucket expire.
+   * @default 14
+   */
+  public S3_TILE_EXPIRATION_DAYS: number;
+
+  /**
+   * Whether to scale the tile server service on job queue depth, request count and utilization.
+   * When false, the service runs a single task.
+   * @default false
+   */
+  public TS_ENABLE_AUTOSCALING: boolean;
+
+  /**
+   * Whether to deploy a monitoring dashboard for the tile server.
+   * @default false
+   */
+  public TS_ENABLE_MONITORING: boolean;
+
+  /**
+   * Whether to cache tiles in a CloudFront distribution in front of the tile server.
+   * @default false
+   */
+  public TS_ENABLE_TILE_CACHE: boolean;
+
+  /**
+   * Whether to process viewpoint jobs in a separate worker service, leaving the
+   * load balanced service to serve reads. The worker always scales on job queue depth.
+   * @default false
+   */
+  public TS_ENABLE_WORKER_SERVICE: boolean;
+
+  /**
+   * Where the tile server keeps its working data: "efs" for an EFS file system, "s3"
+   * for an S3 bucket, or "efs_and_s3" for both.
+   * @default "efs"
+   */
+  public TS_STORAGE_BACKEND: string;
+
   /**
    * The build path for the test container.
    * @default "lib/osml-tile-server-test"
@@ -246,15 +518,211 @@ export class TSDataplaneConfig extends BaseConfig {
    */
   public TEST_CONTAINER_URI: string;
 
+  /**
+   * The time, in seconds, tiles are cached when the tile server does not set Cache-Control.
+   * @default 86400
+   */
+  public TILE_CACHE_DEFAULT_TTL_SECONDS: number;
+
+  /**
+   * The maximum time, in seconds, tiles are cached.
+   * @default 31536000
+   */
+  public TILE_CACHE_MAX_TTL_SECONDS: number;
+
+  /**
+   * The ID of the CloudFront origin-facing managed prefix list in this region. Required
+   * when caching tiles without auth, to admit only CloudFront to the origin load balancer.
+   * @default undefined
+   */
+  public TILE_CACHE_ORIGIN_PREFIX_LIST_ID?: string | undefined;
+
+  /**
+   * The request path patterns that serve tiles and are cached.
+   * @default any path containing "/image/tiles/" or "/map/tiles/", and the XYZ route
+   */
+  public TILE_CACHE_PATH_PATTERNS: string[];
+
+  /**
+   * The CloudFront price class of the tile cache distribution.
+   * @default "PriceClass_100"
+   */
+  public TILE_CACHE_PRICE_CLASS: string;
+
+  /**
+   * The query string parameters included in the tile cache key.
+   * @default ["compression"]
+   */
+  public TILE_CACHE_QUERY_STRINGS: string[];
+
+  /**
+   * The schema describing the allowed TSDataplaneConfig keys.
+   */
+  public static readonly schema: ConfigSchema = {
+    API_CACHE_CLUSTER_SIZE: {
+      type: "string",
+      values: ["0.5", "1.6", "6.1", "13.5", "28.4", "58.2", "118", "237"]
+    },
+    API_DEFAULT_PATH: { type: "string" },
+    API_ENABLE_TILE_ROUTES: { type: "boolean" },
+    API_ROOT_PATH: { type: "string" },
+    API_SERVICE_NAME_ABBREVIATION: { type: "string" },
+    API_TILEJSON_CACHE_TTL_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0,
+      max: 3600
+    },
+    API_TILEJSON_THROTTLE_RATE_LIMIT: { type: "number", min: 0 },
+    API_TILEJSON_THROTTLE_BURST_LIMIT: {
+      type: "number",
+      integer: true,
+      min: 0
+    },
+    API_WMTS_CACHE_TTL_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0,
+      max: 3600
+    },
+    API_WMTS_THROTTLE_RATE_LIMIT: { type: "number", min: 0 },
+    API_WMTS_THROTTLE_BURST_LIMIT: { type: "number", integer: true, min: 0 },
+    API_XYZ_CACHE_TTL_SECONDS: {
+      type: "number",
+      integer: true,
+      min: 0,
+      max: 3600
+    },
+    API_XYZ_THROTTLE_RATE_LIMIT: { type: "number", min: 0 },
+    API_XYZ_THROTTLE_BURST_LIMIT: { type: "number", integer: true, min: 0 },
+    BUILD_FROM_SOURCE: { type: "boolean" },
+    CONTAINER_BUILD_PATH: { type: "string" },
+    CONTAINER_BUILD_TARGET: { type: "string" },
+    CONTAINER_DOCKERFILE: { type: "string" },
+    CONTAINER_URI: { type: "string" },
+    CW_LOGGROUP_NAME: { type: "string" },
+    DDB_JOB_TABLE: { type: "string" },
+    DDB_TTL_ATTRIBUTE: { type: "string" },
+    DEPLOY_TEST_COMPONENTS: { type: "boolean" },
+    DOMAIN_ALB_HOST_NAME: { type: "string" },
+    DOMAIN_API_HOST_NAME: { type: "string" },
+    DOMAIN_NLB_HOST_NAME: { type: "string" },
+    EFS_MOUNT_NAME: { type: "string" },
+    EFS_PROVISIONED_THROUGHPUT_MIBPS: { type: "number", min: 1 },
+    EFS_THROUGHPUT_MODE: {
+      type: "string",
+      values: ["bursting", "elastic", "provisioned"]
+    },
+    ECS_AUTOSCALING_TASK_MAX_COUNT: { type: "number", integer: true, min: 1 },
+    ECS_AUTOSCALING_TASK_MIN_COUNT: { type: "number", integer: true, min: 0 },
+    ECS_AUTOSCALING_TASK_IN_COOLDOWN: { type: "number", min: 0 },
+    ECS_AUTOSCALING_TASK_IN_INCREMENT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_AUTOSCALING_TASK_OUT_COOLDOWN: { type: "number", min: 0 },
+    ECS_AUTOSCALING_TASK_OUT_INCREMENT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_AUTOSCALING_TARGET_REQUESTS_PER_TASK: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_AUTOSCALING_TARGET_CPU_UTILIZATION: {
+      type: "number",
+      min: 1,
+      max: 100
+    },
+    ECS_AUTOSCALING_TARGET_MEMORY_UTILIZATION: {
+      type: "number",
+      min: 1,
+      max: 100
+    },
+    ECS_CONTAINER_CPU: { type: "number", integer: true, min: 128 },
+    ECS_CONTAINER_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_CONTAINER_NAME: { type: "string" },
+    ECS_CONTAINER_PORT: { type: "number", integer: true, min: 1, max: 65535 },
+    ECS_CLUSTER_NAME: { type: "string" },
+    ECS_EXECUTION_ROLE_NAME: { type: "string" },
+    ECS_METRICS_NAMESPACE: { type: "string" },
+    ECS_NETWORK_LOAD_BALANCER_PORT: {
+      type: "number",
+      integer: true,
+      min: 1,
+      max: 65535
+    },
+    SECURITY_GROUP_ID: { type: "string" },
+    ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT: {
+      type: "number",
+      integer: true,
+      min: 1
+    },
+    ECS_WORKER_CONTAINER_CPU: { type: "number", integer: true, min: 128 },
+    ECS_WORKER_CONTAINER_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_WORKER_CONTAINER_NAME: { type: "string" },
+    ECS_WORKER_TASK_CPU: { type: "number", values: FARGATE_TASK_CPU_VALUES },
+    ECS_WORKER_TASK_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_TASK_CPU: { type: "number", values: FARGATE_TASK_CPU_VALUES },
+    ECS_TASK_MEMORY: { type: "number", integer: true, min: 512 },
+    ECS_TASK_ROLE_NAME: { type: "string" },
+    LAMBDA_ROLE_NAME: { type: "string" },
+    SQS_JOB_QUEUE: { type: "string" },
+    S3_TILE_BUCKET_PREFIX: { type: "string" },
+    S3_TILE_EXPIRATION_DAYS: { type: "number", integer: true, min: 1 },
+    TEST_CONTAINER_BUILD_PATH: { type: "string" },
+    TEST_CONTAINER_BUILD_TARGET: { type: "string" },
+    TEST_CONTAINER_DOCKERFILE: { type: "string" },
+    TEST_CONTAINER_URI: { type: "string" },
+    TILE_CACHE_DEFAULT_TTL_SECONDS: { type: "number", integer: true, min: 0 },
+    TILE_CACHE_MAX_TTL_SECONDS: { type: "number", integer: true, min: 0 },
+    TILE_CACHE_ORIGIN_PREFIX_LIST_ID: { type: "string", pattern: /^pl-/ },
+    TILE_CACHE_PATH_PATTERNS: { type: "string[]" },
+    TILE_CACHE_PRICE_CLASS: {
+      type: "string",
+      values: ["PriceClass_100", "PriceClass_200", "PriceClass_All"]
+    },
+    TILE_CACHE_QUERY_STRINGS: { type: "string[]" },
+    TS_ENABLE_AUTOSCALING: { type: "boolean" },
+    TS_ENABLE_MONITORING: { type: "boolean" },
+    TS_ENABLE_TILE_CACHE: { type: "boolean" },
+    TS_ENABLE_WORKER_SERVICE: { type: "boolean" },
+    TS_STORAGE_BACKEND: { type: "string", values: ["efs", "s3", "efs_and_s3"] }
+  };
+
   /**
    * Constructor for TSDataplaneConfig.
    * @param config - The configuration object for TSDataplane.
    */
   constructor(config: ConfigType = {}) {
     super({
+      API_CACHE_CLUSTER_SIZE: "0.5",
       API_DEFAULT_PATH: "latest/viewpoints",
+      API_ENABLE_TILE_ROUTES: true,
       API_ROOT_PATH: "viewpoints",
       API_SERVICE_NAME_ABBREVIATION: "TS",
+      API_TILEJSON_CACHE_TTL_SECONDS: 0,
+      API_TILEJSON_THROTTLE_RATE_LIMIT: 50,
+      API_TILEJSON_THROTTLE_BURST_LIMIT: 100,
+      API_WMTS_CACHE_TTL_SECONDS: 0,
+      API_WMTS_THROTTLE_RATE_LIMIT: 500,
+      API_WMTS_THROTTLE_BURST_LIMIT: 1000,
+      API_XYZ_CACHE_TTL_SECONDS: 0,
+      API_XYZ_THROTTLE_RATE_LIMIT: 1000,
+      API_XYZ_THROTTLE_BURST_LIMIT: 2000,
       BUILD_FROM_SOURCE: false,
       CONTAINER_BUILD_PATH: "lib/osml-tile-server",
       CONTAINER_BUILD_TARGET: "tile_server",
@@ -264,7 +732,21 @@ export class TSDataplaneConfig extends BaseConfig {
       DDB_JOB_TABLE: "TSJobTable",
       DDB_TTL_ATTRIBUTE: "expire_time",
       DEPLOY_TEST_COMPONENTS: false,
+      DOMAIN_ALB_HOST_NAME: "tiles-alb",
+      DOMAIN_API_HOST_NAME: "tiles",
+      DOMAIN_NLB_HOST_NAME: "tiles-nlb",
       EFS_MOUNT_NAME: "ts-efs-volume",
+      EFS_THROUGHPUT_MODE: "bursting",
+      ECS_AUTOSCALING_TASK_MAX_COUNT: 10,
+      ECS_AUTOSCALING_TASK_MIN_COUNT: 1,
+      ECS_AUTOSCALING_TASK_IN_COOLDOWN: 5,
+      ECS_AUTOSCALING_TASK_IN_INCREMENT: 1,
+      ECS_AUTOSCALING_TASK_OUT_COOLDOWN: 1,
+      ECS_AUTOSCALING_TASK_OUT_INCREMENT: 2,
+      ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD: 5,
+      ECS_AUTOSCALING_TARGET_REQUESTS_PER_TASK: 500,
+      ECS_AUTOSCALING_TARGET_CPU_UTILIZATION: 70,
+      ECS_AUTOSCALING_TARGET_MEMORY_UTILIZATION: 70,
       ECS_CONTAINER_CPU: 7168,
       ECS_CONTAINER_MEMORY: 10240,
       ECS_CONTAINER_NAME: "TSContainer",
@@ -272,16 +754,110 @@ export class TSDataplaneConfig extends BaseConfig {
       ECS_CLUSTER_NAME: "TSCluster",
       ECS_METRICS_NAMESPACE: "OSML",
       ECS_NETWORK_LOAD_BALANCER_PORT: 80,
+      ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT: 10,
+      ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT: 1,
+      ECS_WORKER_CONTAINER_CPU: 3584,
+      ECS_WORKER_CONTAINER_MEMORY: 6144,
+      ECS_WORKER_CONTAINER_NAME: "TSWorkerContainer",
+      ECS_WORKER_TASK_CPU: 4096,
+      ECS_WORKER_TASK_MEMORY: 8192,
       ECS_TASK_CPU: 8192,
       ECS_TASK_MEMORY: 16384,
       SQS_JOB_QUEUE: "TSJobQueue",
+      S3_TILE_BUCKET_PREFIX: "ts-tiles",
+      S3_TILE_EXPIRATION_DAYS: 14,
       TEST_CONTAINER_BUILD_PATH: "lib/osml-tile-server-test",
       TEST_CONTAINER_BUILD_TARGET: "integ",
       TEST_CONTAINER_DOCKERFILE: "docker/Dockerfile.integ",
       TEST_CONTAINER_URI: "awsosml/osml-tile-server-test:latest",
+      TILE_CACHE_DEFAULT_TTL_SECONDS: 86400,
+      TILE_CACHE_MAX_TTL_SECONDS: 31536000,
+      TILE_CACHE_PATH_PATTERNS: ["*/image/tiles/*", "*/map/tiles/*", "xyz/*"],
+      TILE_CACHE_PRICE_CLASS: "PriceClass_100",
+      TILE_CACHE_QUERY_STRINGS: ["compression"],
+      TS_ENABLE_AUTOSCALING: false,
+      TS_ENABLE_MONITORING: false,
+      TS_ENABLE_TILE_CACHE: false,
+      TS_ENABLE_WORKER_SERVICE: false,
+      TS_STORAGE_BACKEND: "efs",
       ...config
     });
   }
+
+  /**
+   * Validates the Fargate task sizes, autoscaling bounds, tile cache TTLs and EFS throughput.
+   *
+   * @param config - The configuration object being validated.
+   * @returns A list of validation problems, empty if the configuration is valid.
+   */
+  protected static validate(config: ConfigType): string[] {
+    return [
+      ...validateFargateTaskSize(
+        "ECS_TASK_CPU",
+        config.ECS_TASK_CPU,
+        "ECS_TASK_MEMORY",
+        config.ECS_TASK_MEMORY
+      ),
+      ...validateContainerFitsTask(
+        "ECS_CONTAINER_CPU",
+        config.ECS_CONTAINER_CPU,
+        "ECS_TASK_CPU",
+        config.ECS_TASK_CPU
+      ),
+      ...validateContainerFitsTask(
+        "ECS_CONTAINER_MEMORY",
+        config.ECS_CONTAINER_MEMORY,
+        "ECS_TASK_MEMORY",
+        config.ECS_TASK_MEMORY
+      ),
+      ...validateMinMax(
+        "ECS_AUTOSCALING_TASK_MIN_COUNT",
+        config.ECS_AUTOSCALING_TASK_MIN_COUNT,
+        "ECS_AUTOSCALING_TASK_MAX_COUNT",
+        config.ECS_AUTOSCALING_TASK_MAX_COUNT
+      ),
+      ...validateMinMax(
+        "TILE_CACHE_DEFAULT_TTL_SECONDS",
+        config.TILE_CACHE_DEFAULT_TTL_SECONDS,
+        "TILE_CACHE_MAX_TTL_SECONDS",
+        config.TILE_CACHE_MAX_TTL_SECONDS
+      ),
+      ...(config.EFS_THROUGHPUT_MODE === "provisioned" &&
+      config.EFS_PROVISIONED_THROUGHPUT_MIBPS == undefined
+        ? [
+            "EFS_PROVISIONED_THROUGHPUT_MIBPS: a value is required for provisioned EFS_THROUGHPUT_MODE"
+          ]
+        : []),
+      ...(config.TS_ENABLE_WORKER_SERVICE === true
+        ? [
+            ...validateFargateTaskSize(
+              "ECS_WORKER_TASK_CPU",
+              config.ECS_WORKER_TASK_CPU,
+              "ECS_WORKER_TASK_MEMORY",
+              config.ECS_WORKER_TASK_MEMORY
+            ),
+            ...validateContainerFitsTask(
+              "ECS_WORKER_CONTAINER_CPU",
+              config.ECS_WORKER_CONTAINER_CPU,
+              "ECS_WORKER_TASK_CPU",
+              config.ECS_WORKER_TASK_CPU
+            ),
+            ...validateContainerFitsTask(
+              "ECS_WORKER_CONTAINER_MEMORY",
+              config.ECS_WORKER_CONTAINER_MEMORY,
+              "ECS_WORKER_TASK_MEMORY",
+              config.ECS_WORKER_TASK_MEMORY
+            ),
+            ...validateMinMax(
+              "ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT",
+              config.ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT,
+              "ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT",
+              config.ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT
+            )
+          ]
+        : [])
+    ];
+  }
 }
 
 /**
@@ -312,6 +888,29 @@ export interface TSDataplaneProps {
    * @type {OSMLAuth}
    */
   auth?: OSMLAuth;
+
+  /**
+   * Custom configuration for the API created when auth is provided (optional).
+   *
+   * @type {OSMLRestApiConfig | undefined}
+   */
+  apiConfig?: OSMLRestApiConfig;
+
+  /**
+   * The TLS configuration for HTTPS load balancer listeners (optional). When set,
+   * the service and the API VPC link integration are only reached over HTTPS.
+   *
+   * @type {OSMLTls | undefined}
+   */
+  tls?: OSMLTls;
+
+  /**
+   * The hosted zone and certificate giving the API and load balancers stable host
+   * names (optional). Their URLs are published as stack outputs.
+   *
+   * @type {OSMLDomain | undefined}
+   */
+  domain?: OSMLDomain;
 }
 
 /**
@@ -396,9 +995,9 @@ export class TSDataplane extends Construct {
   public fargateService: ApplicationLoadBalancedFargateService;
 
   /**
-   * The EFS file system for the TSDataplane.
+   * The EFS file system for the TSDataplane, if the EFS storage backend is used.
    */
-  public fileSystem: FileSystem;
+  public fileSystem?: FileSystem;
 
   /**
    * The security group for the TSDataplane.
@@ -406,9 +1005,14 @@ export class TSDataplane extends Construct {
   public securityGroup?: ISecurityGroup;
 
   /**
-   * The EFS access point for the TSDataplane.
+   * The EFS access point for the TSDataplane, if the EFS storage backend is used.
+   */
+  public accessPoint?: AccessPoint;
+
+  /**
+   * The S3 bucket for the TSDataplane, if the S3 storage backend is used.
    */
-  public accessPoint: AccessPoint;
+  public tileBucket?: OSMLBucket;
 
   /**
    * Container built to power the service.
@@ -425,6 +1029,11 @@ export class TSDataplane extends Construct {
    */
   public nlb: NetworkLoadBalancer;
 
+  /**
+   * The certificate of the HTTPS listeners, if TLS is configured.
+   */
+  public certificate?: ICertificate;
+
   /**
    * The container to use for integration tests for this component.
    */
@@ -435,6 +1044,56 @@ export class TSDataplane extends Construct {
    */
   public lambdaIntegRunner: DockerImageFunction;
 
+  /**
+   * The monitoring dashboard for the TS service, if enabled.
+   */
+  public monitoring?: TSMonitoring;
+
+  /**
+   * The scalable task count of the Fargate service, if autoscaling is enabled outside ADC regions.
+   */
+  public scalableTaskCount?: ScalableTaskCount;
+
+  /**
+   * The autoscaler for the Fargate service, if autoscaling is enabled in ADC regions.
+   */
+  public serviceAutoscaler?: EcsIsoServiceAutoscaler;
+
+  /**
+   * The WMTS, XYZ and TileJSON routes on the TS API, if enabled.
+   */
+  public tileRoutes?: TSTileRoutes;
+
+  /**
+   * The CloudFront tile cache in front of the TS service, if enabled.
+   */
+  public tileCache?: TSTileCache;
+
+  /**
+   * The task definition for the viewpoint worker service, if enabled.
+   */
+  public workerTaskDefinition?: TaskDefinition;
+
+  /**
+   * The container definition for the viewpoint worker service, if enabled.
+   */
+  public workerContainerDefinition?: ContainerDefinition;
+
+  /**
+   * The Fargate service processing viewpoint jobs, if enabled.
+   */
+  public workerService?: FargateService;
+
+  /**
+   * The scalable task count of the worker service, if autoscaling is enabled outside ADC regions.
+   */
+  public workerScalableTaskCount?: ScalableTaskCount;
+
+  /**
+   * The autoscaler for the worker service, if autoscaling is enabled in ADC regions.
+   */
+  public workerServiceAutoscaler?: EcsIsoServiceAutoscaler;
+
   /**
    * Constructs an instance of TSDataplane.
    *
@@ -442,6 +1101,7 @@ export class TSDataplane extends Construct {
    * @param {Construct} scope - The scope/stack in which to define this construct.
    * @param {string} id - The id of this construct within the current scope.
    * @param {TSDataplaneProps} props - The properties of this construct.
+   * @throws {Error} If test components are deployed with TLS but the TLS domain name is not recorded.
    */
   constructor(scope: Construct, id: string, props: TSDataplaneProps) {
     super(scope, id);
@@ -457,7 +1117,11 @@ export class TSDataplane extends Construct {
         type: AttributeType.STRING
       },
       removalPolicy: this.removalPolicy,
-      ttlAttribute: this.config.DDB_TTL_ATTRIBUTE
+      ttlAttribute: this.config.DDB_TTL_ATTRIBUTE,
+      // The tile cache invalidates deleted viewpoints from the table's stream
+      stream: this.config.TS_ENABLE_TILE_CACHE
+        ? StreamViewType.NEW_AND_OLD_IMAGES
+        : undefined
     });
 
     // AWS Backup solution is available in most regions
@@ -485,46 +1149,23 @@ export class TSDataplane extends Construct {
       removalPolicy: this.removalPolicy
     });
 
-    // EFS volume mounted file system
-    this.fileSystem = new FileSystem(this, "TSEfsFileSystem", {
-      vpc: props.osmlVpc.vpc,
-      lifecyclePolicy: LifecyclePolicy.AFTER_14_DAYS,
-      performanceMode: PerformanceMode.GENERAL_PURPOSE,
-      throughputMode: ThroughputMode.BURSTING,
-      removalPolicy: this.removalPolicy,
-      vpcSubnets: props.osmlVpc.selectedSubnets,
-      securityGroup: this.securityGroup
-    });
-
-    this.fileSystem.addToResourcePolicy(
-      new PolicyStatement({
-        actions: [
-          "elasticfilesystem:ClientMount",
-          "elasticfilesystem:ClientWrite",
-          "elasticfilesystem:ClientRootAccess"
-        ],
-        principals: [new AnyPrincipal()],
-        conditions: {
-          Bool: {
-            "elasticfilesystem:AccessedViaMountTarget": "true"
+    // Working storage for viewpoints, on EFS, S3 or both
+    if (this.config.TS_STORAGE_BACKEND != "s3") {
+      this.buildFileSystem(props);
+    }
+    if (this.config.TS_STORAGE_BACKEND != "efs") {
+      this.tileBucket = new OSMLBucket(this, "TSTileBucket", {
+        bucketName: `${this.config.S3_TILE_BUCKET_PREFIX}-${props.account.id}`,
+        prodLike: props.account.prodLike,
+        removalPolicy: this.removalPolicy,
+        lifecycleRules: [
+          {
+            expiration: Duration.days(this.config.S3_TILE_EXPIRATION_DAYS),
+            abortIncompleteMultipartUploadAfter: Duration.days(1)
           }
-        }
-      })
-    );
-
-    // Create access point for TileServer (USER)
-    this.accessPoint = this.fileSystem.addAccessPoint("TSAccessPoint", {
-      path: "/" + this.config.EFS_MOUNT_NAME,
-      createAcl: {
-        ownerGid: "1000",
-        ownerUid: "1000",
-        permissions: "777"
-      },
-      posixUser: {
-        uid: "1000",
-        gid: "1000"
-      }
-    });
+        ]
+      });
+    }
 
     // Build the container for the tile server component
     this.tsContainer = new OSMLContainer(this, "TSContainer", {
@@ -548,70 +1189,21 @@ export class TSDataplane extends Construct {
     });
 
     // Define our ECS task
-    this.taskDefinition = new TaskDefinition(this, "TSTaskDefinition", {
-      memoryMiB: this.config.ECS_TASK_MEMORY.toString(),
-      cpu: this.config.ECS_TASK_CPU.toString(),
-      compatibility: Compatibility.FARGATE,
-      taskRole: this.taskRole,
-      executionRole: this.executionRole,
-      ephemeralStorageGiB: 21,
-      volumes: [
-        {
-          name: this.config.EFS_MOUNT_NAME,
-          efsVolumeConfiguration: {
-            fileSystemId: this.fileSystem.fileSystemId,
-            transitEncryption: "ENABLED",
-            authorizationConfig: {
-              iam: "ENABLED",
-              accessPointId: this.accessPoint.accessPointId
-            }
-          }
-        }
-      ]
-    });
-
-    // Build a container definition to run our service
-    this.containerDefinition = this.taskDefinition.addContainer(
+    [this.taskDefinition, this.containerDefinition] = this.buildTaskDefinition(
+      props,
+      "TSTaskDefinition",
       "TSContainerDefinition",
       {
+        taskCpu: this.config.ECS_TASK_CPU,
+        taskMemory: this.config.ECS_TASK_MEMORY,
+        containerCpu: this.config.ECS_CONTAINER_CPU,
+        containerMemory: this.config.ECS_CONTAINER_MEMORY,
         containerName: this.config.ECS_CONTAINER_NAME,
-        image: this.tsContainer.containerImage,
-        memoryLimitMiB: this.config.ECS_CONTAINER_MEMORY,
-        cpu: this.config.ECS_CONTAINER_CPU,
-        environment: this.buildContainerEnv(props),
-        startTimeout: Duration.minutes(1),
-        stopTimeout: Duration.minutes(1),
-        logging: new AwsLogDriver({
-          streamPrefix: "TileServerContainer",
-          logGroup: this.logGroup,
-          mode: AwsLogDriverMode.NON_BLOCKING
-        }),
-        disableNetworking: false,
-        healthCheck: {
-          command: [
-            `curl --fail http://localhost:${this.config.ECS_CONTAINER_PORT}/ping || exit 1`
-          ],
-          interval: Duration.seconds(30),
-          retries: 3,
-          timeout: Duration.seconds(10)
-        }
+        streamPrefix: "TileServerContainer",
+        workerEnabled: !this.config.TS_ENABLE_WORKER_SERVICE
       }
     );
 
-    // Mount EFS to container
-    this.containerDefinition.addMountPoints({
-      sourceVolume: this.config.EFS_MOUNT_NAME,
-      containerPath: "/" + this.config.EFS_MOUNT_NAME,
-      readOnly: false
-    });
-
-    // Add port mapping to container
-    this.taskDefinition.defaultContainer?.addPortMappings({
-      containerPort: this.config.ECS_CONTAINER_PORT,
-      hostPort: this.config.ECS_CONTAINER_PORT,
-      protocol: ecs_protocol.TCP
-    });
-
     // Create the ALB
     this.alb = new ApplicationLoadBalancer(
       this,
@@ -624,6 +1216,11 @@ export class TSDataplane extends Construct {
       }
     );
 
+    // Serve HTTPS if TLS is configured
+    if (props.tls) {
+      this.certificate = buildTlsCertificate(this, "TSCertificate", props.tls);
+    }
+
     // Set up Fargate service
     this.fargateService = new ApplicationLoadBalancedFargateService(
       this,
@@ -635,28 +1232,140 @@ export class TSDataplane extends Construct {
         securityGroups: this.securityGroup ? [this.securityGroup] : [],
         taskSubnets: props.osmlVpc.selectedSubnets,
         assignPublicIp: false,
-        loadBalancer: this.alb
+        loadBalancer: this.alb,
+        ...(this.certificate && {
+          certificate: this.certificate,
+          protocol: ApplicationProtocol.HTTPS,
+          redirectHTTP: props.tls?.redirectHttp ?? true,
+          sslPolicy: SslPolicy.RECOMMENDED_TLS
+        })
       }
     );
     this.fargateService.node.addDependency(this.tsContainer);
 
+    // Let clients resolve the TLS domain name unless the domain records it already
+    if (props.tls && !this.tlsDomainNameIsRecordedByDomain(props)) {
+      buildTlsRecord(
+        this,
+        "TSTlsRecord",
+        props.tls,
+        this.fargateService.loadBalancer
+      );
+    }
+
     // Allow access to EFS from Fargate ECS
-    this.fileSystem.grantRootAccess(
-      this.fargateService.taskDefinition.taskRole
-    );
+    if (this.fileSystem) {
+      this.fileSystem.grantRootAccess(
+        this.fargateService.taskDefinition.taskRole
+      );
 
-    // Allow connections to the file system from the ECS cluster
-    this.fileSystem.connections.allowDefaultPortFrom(
-      this.fargateService.service.connections
-    );
+      // Allow connections to the file system from the ECS cluster
+      this.fileSystem.connections.allowDefaultPortFrom(
+        this.fargateService.service.connections
+      );
+    }
+
+    // Allow the tasks to read and write the tile bucket
+    this.tileBucket?.bucket.grantReadWrite(this.taskRole);
+
+    // Scale the service with demand if enabled
+    if (this.config.TS_ENABLE_AUTOSCALING) {
+      this.buildAutoscaling(props);
+    }
+
+    // Move viewpoint job processing to a separate service if enabled
+    if (this.config.TS_ENABLE_WORKER_SERVICE) {
+      this.buildWorkerService(props);
+    }
+
+    // Build a monitoring dashboard if enabled
+    if (this.config.TS_ENABLE_MONITORING) {
+      this.buildMonitoring(props);
+    }
 
     // If we have auth enabled, deploy it
     this.buildApi(props);
 
+    // Give the API and load balancers stable host names if a domain is provided
+    if (props.domain) {
+      this.buildDomainRecords(props);
+    }
+
+    // Cache tiles at the edge if enabled
+    if (this.config.TS_ENABLE_TILE_CACHE) {
+      if (this.api?.vpcEndpoint) {
+        throw new Error(
+          "Tile caching is not available with private APIs, since CloudFront cannot reach them."
+        );
+      }
+      this.tileCache = new TSTileCache(this, "TSTileCache", {
+        account: props.account,
+        osmlVpc: props.osmlVpc,
+        jobTable: this.jobTable.table,
+        service: this.fargateService.service,
+        api: this.api?.restApi,
+        auth: props.auth,
+        apiKeyRequired: this.api?.apiKeyRequired,
+        securityGroup: this.securityGroup,
+        tsDataplaneConfig: this.config
+      });
+    }
+
     // If we have testing enabled, deploy it
     this.buildTesting(props);
   }
 
+  /**
+   * Builds the EFS file system and access point the tile server tasks mount.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   */
+  private buildFileSystem(props: TSDataplaneProps): void {
+    this.fileSystem = new FileSystem(this, "TSEfsFileSystem", {
+      vpc: props.osmlVpc.vpc,
+      lifecyclePolicy: LifecyclePolicy.AFTER_14_DAYS,
+      performanceMode: PerformanceMode.GENERAL_PURPOSE,
+      throughputMode: this.config.EFS_THROUGHPUT_MODE as ThroughputMode,
+      provisionedThroughputPerSecond:
+        this.config.EFS_PROVISIONED_THROUGHPUT_MIBPS != undefined
+          ? Size.mebibytes(this.config.EFS_PROVISIONED_THROUGHPUT_MIBPS)
+          : undefined,
+      removalPolicy: this.removalPolicy,
+      vpcSubnets: props.osmlVpc.selectedSubnets,
+      securityGroup: this.securityGroup
+    });
+
+    this.fileSystem.addToResourcePolicy(
+      new PolicyStatement({
+        actions: [
+          "elasticfilesystem:ClientMount",
+          "elasticfilesystem:ClientWrite",
+          "elasticfilesystem:ClientRootAccess"
+        ],
+        principals: [new AnyPrincipal()],
+        conditions: {
+          Bool: {
+            "elasticfilesystem:AccessedViaMountTarget": "true"
+          }
+        }
+      })
+    );
+
+    // Create access point for TileServer (USER)
+    this.accessPoint = this.fileSystem.addAccessPoint("TSAccessPoint", {
+      path: "/" + this.config.EFS_MOUNT_NAME,
+      createAcl: {
+        ownerGid: "1000",
+        ownerUid: "1000",
+        permissions: "777"
+      },
+      posixUser: {
+        uid: "1000",
+        gid: "1000"
+      }
+    });
+  }
+
   /**
    * Builds the environment variables for the container deployment.
    *
@@ -671,11 +1380,360 @@ export class TSDataplane extends Construct {
       JOB_TABLE: this.jobTable.table.tableName,
       JOB_QUEUE: this.jobQueue.queue.queueName,
       AWS_S3_ENDPOINT: this.regionalS3Endpoint,
-      EFS_MOUNT_NAME: this.config.EFS_MOUNT_NAME,
+      STORAGE_BACKEND: this.config.TS_STORAGE_BACKEND,
+      ...(this.fileSystem
+        ? { EFS_MOUNT_NAME: this.config.EFS_MOUNT_NAME }
+        : {}),
+      ...(this.tileBucket
+        ? { TILE_BUCKET: this.tileBucket.bucket.bucketName }
+        : {}),
       STS_ARN: this.taskRole.roleArn
     };
   }
 
+  /**
+   * Builds autoscaling for the TS service. ADC regions scale through an
+   * EcsIsoServiceAutoscaler; other regions use target tracking on request count per
+   * task, CPU and memory. While the service also processes viewpoint jobs, it scales
+   * on job queue depth as well.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   */
+  private buildAutoscaling(props: TSDataplaneProps): void {
+    const processesJobs = !this.config.TS_ENABLE_WORKER_SERVICE;
+
+    if (props.account.isAdc) {
+      const scaleAlarm = processesJobs
+        ? this.buildJobQueueAlarm("JobQueueScalingAlarm")
+        : new Alarm(this, "RequestCountScalingAlarm", {
+            metric:
+              this.fargateService.targetGroup.metrics.requestCountPerTarget({
+                period: Duration.minutes(1)
+              }),
+            evaluationPeriods: 1,
+            threshold: this.config.ECS_AUTOSCALING_TARGET_REQUESTS_PER_TASK
+          });
+
+      this.serviceAutoscaler = this.buildIsoServiceAutoscaler(
+        "TSServiceAutoscaling",
+        this.fargateService.service,
+        scaleAlarm,
+        this.config.ECS_AUTOSCALING_TASK_MIN_COUNT,
+        this.config.ECS_AUTOSCALING_TASK_MAX_COUNT
+      );
+    } else {
+      const scaleInCooldown = Duration.minutes(
+        this.config.ECS_AUTOSCALING_TASK_IN_COOLDOWN
+      );
+      const scaleOutCooldown = Duration.minutes(
+        this.config.ECS_AUTOSCALING_TASK_OUT_COOLDOWN
+      );
+
+      this.scalableTaskCount = this.fargateService.service.autoScaleTaskCount({
+        maxCapacity: this.config.ECS_AUTOSCALING_TASK_MAX_COUNT,
+        minCapacity: this.config.ECS_AUTOSCALING_TASK_MIN_COUNT
+      });
+
+      if (processesJobs) {
+        this.scaleOnJobQueue(this.scalableTaskCount, "TSJobQueueScaling");
+      }
+
+      this.scalableTaskCount.scaleOnRequestCount("TSRequestCountScaling", {
+        requestsPerTarget: this.config.ECS_AUTOSCALING_TARGET_REQUESTS_PER_TASK,
+        targetGroup: this.fargateService.targetGroup,
+        scaleInCooldown: scaleInCooldown,
+        scaleOutCooldown: scaleOutCooldown
+      });
+
+      this.scalableTaskCount.scaleOnCpuUtilization("TSCpuScaling", {
+        targetUtilizationPercent:
+          this.config.ECS_AUTOSCALING_TARGET_CPU_UTILIZATION,
+        scaleInCooldown: scaleInCooldown,
+        scaleOutCooldown: scaleOutCooldown
+      });
+
+      this.scalableTaskCount.scaleOnMemoryUtilization("TSMemoryScaling", {
+        targetUtilizationPercent:
+          this.config.ECS_AUTOSCALING_TARGET_MEMORY_UTILIZATION,
+        scaleInCooldown: scaleInCooldown,
+        scaleOutCooldown: scaleOutCooldown
+      });
+    }
+  }
+
+  /**
+   * Builds a Fargate service that processes viewpoint jobs from the job queue. It runs
+   * the tile server container with the same role, table, queue and storage as
+   * the load balanced service, which then only serves reads.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   */
+  private buildWorkerService(props: TSDataplaneProps): void {
+    [this.workerTaskDefinition, this.workerContainerDefinition] =
+      this.buildTaskDefinition(
+        props,
+        "TSWorkerTaskDefinition",
+        "TSWorkerContainerDefinition",
+        {
+          taskCpu: this.config.ECS_WORKER_TASK_CPU,
+          taskMemory: this.config.ECS_WORKER_TASK_MEMORY,
+          containerCpu: this.config.ECS_WORKER_CONTAINER_CPU,
+          containerMemory: this.config.ECS_WORKER_CONTAINER_MEMORY,
+          containerName: this.config.ECS_WORKER_CONTAINER_NAME,
+          streamPrefix: "TileServerWorkerContainer",
+          workerEnabled: true
+        }
+      );
+
+    this.workerService = new FargateService(this, "TSWorkerService", {
+      taskDefinition: this.workerTaskDefinition,
+      cluster: this.cluster,
+      desiredCount: this.config.ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT,
+      minHealthyPercent: 100,
+      securityGroups: this.securityGroup ? [this.securityGroup] : [],
+      vpcSubnets: props.osmlVpc.selectedSubnets,
+      assignPublicIp: false
+    });
+    this.workerService.node.addDependency(this.tsContainer);
+
+    // Allow connections to the file system from the worker service
+    this.fileSystem?.connections.allowDefaultPortFrom(
+      this.workerService.connections
+    );
+
+    // Scale the worker on job queue depth whether or not the load balanced service scales
+    if (props.account.isAdc) {
+      this.workerServiceAutoscaler = this.buildIsoServiceAutoscaler(
+        "TSWorkerServiceAutoscaling",
+        this.workerService,
+        this.buildJobQueueAlarm("WorkerJobQueueScalingAlarm"),
+        this.config.ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT,
+        this.config.ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT
+      );
+    } else {
+      this.workerScalableTaskCount = this.workerService.autoScaleTaskCount({
+        maxCapacity: this.config.ECS_WORKER_AUTOSCALING_TASK_MAX_COUNT,
+        minCapacity: this.config.ECS_WORKER_AUTOSCALING_TASK_MIN_COUNT
+      });
+      this.scaleOnJobQueue(
+        this.workerScalableTaskCount,
+        "TSWorkerJobQueueScaling"
+      );
+    }
+  }
+
+  /**
+   * Builds a task definition running the tile server container, with the EFS volume
+   * mounted if the EFS storage backend is used.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   * @param {string} id - The id of the task definition.
+   * @param {string} containerId - The id of the container definition.
+   * @param options - The task and container sizes, naming and whether the container processes viewpoint jobs.
+   * @returns {[TaskDefinition, ContainerDefinition]} The task definition and its container definition.
+   */
+  private buildTaskDefinition(
+    props: TSDataplaneProps,
+    id: string,
+    containerId: string,
+    options: {
+      taskCpu: number;
+      taskMemory: number;
+      containerCpu: number;
+      containerMemory: number;
+      containerName: string;
+      streamPrefix: string;
+      workerEnabled: boolean;
+    }
+  ): [TaskDefinition, ContainerDefinition] {
+    const taskDefinition = new TaskDefinition(this, id, {
+      memoryMiB: options.taskMemory.toString(),
+      cpu: options.taskCpu.toString(),
+      compatibility: Compatibility.FARGATE,
+      taskRole: this.taskRole,
+      executionRole: this.executionRole,
+      ephemeralStorageGiB: 21,
+      volumes:
+        this.fileSystem && this.accessPoint
+          ? [
+              {
+                name: this.config.EFS_MOUNT_NAME,
+                efsVolumeConfiguration: {
+                  fileSystemId: this.fileSystem.fileSystemId,
+                  transitEncryption: "ENABLED",
+                  authorizationConfig: {
+                    iam: "ENABLED",
+                    accessPointId: this.accessPoint.accessPointId
+                  }
+                }
+              }
+            ]
+          : []
+    });
+
+    // Build a container definition to run our service
+    const containerDefinition = taskDefinition.addContainer(containerId, {
+      containerName: options.containerName,
+      image: this.tsContainer.containerImage,
+      memoryLimitMiB: options.containerMemory,
+      cpu: options.containerCpu,
+      environment: {
+        ...this.buildContainerEnv(props),
+        VIEWPOINT_WORKER_ENABLED: options.workerEnabled.toString()
+      },
+      startTimeout: Duration.minutes(1),
+      stopTimeout: Duration.minutes(1),
+      logging: new AwsLogDriver({
+        streamPrefix: options.streamPrefix,
+        logGroup: this.logGroup,
+        mode: AwsLogDriverMode.NON_BLOCKING
+      }),
+      disableNetworking: false,
+      healthCheck: {
+        command: [
+          `curl --fail http://localhost:${this.config.ECS_CONTAINER_PORT}/ping || exit 1`
+        ],
+        interval: Duration.seconds(30),
+        retries: 3,
+        timeout: Duration.seconds(10)
+      }
+    });
+
+    // Mount EFS to container
+    if (this.fileSystem) {
+      containerDefinition.addMountPoints({
+        sourceVolume: this.config.EFS_MOUNT_NAME,
+        containerPath: "/" + this.config.EFS_MOUNT_NAME,
+        readOnly: false
+      });
+    }
+
+    // Add port mapping to container
+    containerDefinition.addPortMappings({
+      containerPort: this.config.ECS_CONTAINER_PORT,
+      hostPort: this.config.ECS_CONTAINER_PORT,
+      protocol: ecs_protocol.TCP
+    });
+
+    return [taskDefinition, containerDefinition];
+  }
+
+  /**
+   * Builds an alarm that fires when viewpoint jobs are waiting in the job queue.
+   *
+   * @param {string} id - The id of the alarm.
+   * @returns {Alarm} The alarm.
+   */
+  private buildJobQueueAlarm(id: string): Alarm {
+    return new Alarm(this, id, {
+      metric: this.jobQueueDepthMetric(),
+      evaluationPeriods: 1,
+      threshold: this.config.ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD
+    });
+  }
+
+  /**
+   * Builds an EcsIsoServiceAutoscaler that scales a service when an alarm fires.
+   *
+   * @param {string} id - The id of the autoscaler.
+   * @param {FargateService} service - The service to scale.
+   * @param {Alarm} scaleAlarm - The alarm that triggers a scale out.
+   * @param {number} minCount - The minimum number of tasks.
+   * @param {number} maxCount - The maximum number of tasks.
+   * @returns {EcsIsoServiceAutoscaler} The autoscaler.
+   */
+  private buildIsoServiceAutoscaler(
+    id: string,
+    service: FargateService,
+    scaleAlarm: Alarm,
+    minCount: number,
+    maxCount: number
+  ): EcsIsoServiceAutoscaler {
+    NagSuppressions.addResourceSuppressions(scaleAlarm, [
+      {
+        id: "NIST.800.53.R5-CloudWatchAlarmAction",
+        reason:
+          "Lambda function monitors these alarms on a cron basis " +
+          "rather than an event trigger to help scaling smoothness."
+      }
+    ]);
+
+    return new EcsIsoServiceAutoscaler(this, id, {
+      role: this.taskRole,
+      ecsCluster: this.cluster,
+      ecsService: service,
+      minimumTaskCount: minCount,
+      maximumTaskCount: maxCount,
+      scaleAlarm: scaleAlarm,
+      scaleOutIncrement: this.config.ECS_AUTOSCALING_TASK_OUT_INCREMENT,
+      scaleInIncrement: this.config.ECS_AUTOSCALING_TASK_IN_INCREMENT,
+      scaleOutCooldown: Duration.minutes(
+        this.config.ECS_AUTOSCALING_TASK_OUT_COOLDOWN
+      ),
+      scaleInCooldown: Duration.minutes(
+        this.config.ECS_AUTOSCALING_TASK_IN_COOLDOWN
+      )
+    });
+  }
+
+  /**
+   * Adds step scaling on job queue depth: scale out while jobs are waiting and
+   * scale in once the queue is empty.
+   *
+   * @param {ScalableTaskCount} scalableTaskCount - The task count to scale.
+   * @param {string} id - The id of the scaling policy.
+   */
+  private scaleOnJobQueue(
+    scalableTaskCount: ScalableTaskCount,
+    id: string
+  ): void {
+    scalableTaskCount.scaleOnMetric(id, {
+      metric: this.jobQueueDepthMetric(),
+      scalingSteps: [
+        {
+          change: -this.config.ECS_AUTOSCALING_TASK_IN_INCREMENT,
+          upper: 0
+        },
+        {
+          change: +this.config.ECS_AUTOSCALING_TASK_OUT_INCREMENT,
+          lower: this.config.ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD
+        }
+      ],
+      cooldown: Duration.minutes(this.config.ECS_AUTOSCALING_TASK_OUT_COOLDOWN),
+      evaluationPeriods: 2
+    });
+  }
+
+  /**
+   * Creates a metric for the number of viewpoint jobs waiting in the job queue.
+   *
+   * @returns {Metric} The metric.
+   */
+  private jobQueueDepthMetric(): Metric {
+    return this.jobQueue.queue.metricApproximateNumberOfMessagesVisible({
+      period: Duration.minutes(1),
+      statistic: "Maximum"
+    });
+  }
+
+  /**
+   * Builds a monitoring dashboard for the TS service.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   */
+  private buildMonitoring(props: TSDataplaneProps): void {
+    this.monitoring = new TSMonitoring(this, "TSMonitoring", {
+      account: props.account,
+      jobQueue: this.jobQueue.queue,
+      jobDlQueue: this.jobQueue.dlQueue,
+      loadBalancer: this.alb,
+      service: this.fargateService.service,
+      workerService: this.workerService,
+      fileSystem: this.fileSystem,
+      tsDataplaneConfig: this.config
+    });
+  }
+
   /**
    * Builds and configures the API for the service, including setting up a load balancer,
    * network load balancer, and API Gateway integration.
@@ -686,8 +1744,10 @@ export class TSDataplane extends Construct {
     if (props.auth) {
       this.fargateService.loadBalancer.connections.allowFrom(
         Peer.ipv4(props.osmlVpc.vpc.vpcCidrBlock),
-        Port.tcp(80),
-        "Allow HTTP traffic from VPC"
+        Port.tcp(this.certificate ? 443 : 80),
+        this.certificate
+          ? "Allow HTTPS traffic from VPC"
+          : "Allow HTTP traffic from VPC"
       );
 
       this.fargateService.service.connections.allowFrom(
@@ -702,38 +1762,49 @@ export class TSDataplane extends Construct {
         securityGroups: this.securityGroup ? [this.securityGroup] : []
       });
 
-      const nlbListener = this.nlb.addListener("TSNlbListener", {
-        port: this.config.ECS_NETWORK_LOAD_BALANCER_PORT,
-        protocol: elbv2_protocol.TCP
-      });
-
-      nlbListener.addTargets("TSNlbTargetGroup", {
-        targets: [this.fargateService.service],
-        port: this.config.ECS_NETWORK_LOAD_BALANCER_PORT
-      });
+      if (this.certificate) {
+        // Pass TLS through to the HTTPS listener of the application load balancer
+        const nlbListener = this.nlb.addListener("TSNlbListener", {
+          port: 443,
+          protocol: elbv2_protocol.TCP
+        });
+        nlbListener.addTargets("TSNlbTargetGroup", {
+          targets: [new AlbListenerTarget(this.fargateService.listener)],
+          port: 443
+        });
+      } else {
+        const nlbListener = this.nlb.addListener("TSNlbListener", {
+          port: this.config.ECS_NETWORK_LOAD_BALANCER_PORT,
+          protocol: elbv2_protocol.TCP
+        });
+        nlbListener.addTargets("TSNlbTargetGroup", {
+          targets: [this.fargateService.service],
+          port: this.config.ECS_NETWORK_LOAD_BALANCER_PORT
+        });
+      }
 
       const vpcLink = new VpcLink(this, "TSVpcLink", {
         targets: [this.nlb]
       });
 
-      const proxyIntegration = new HttpIntegration(
-        `http://${this.nlb.loadBalancerDnsName}/${this.config.API_DEFAULT_PATH}/{proxy}`,
-        {
-          httpMethod: "ANY",
-          proxy: true,
-          options: {
-            vpcLink: vpcLink,
-            connectionType: ConnectionType.VPC_LINK,
-            requestParameters: {
-              "integration.request.path.proxy": "method.request.path.proxy",
-              "integration.request.header.X-Forwarded-Path":
-                "method.request.path.proxy",
-              "integration.request.header.Accept":
-                "method.request.header.Accept"
-            }
+      // API Gateway verifies the certificate against the domain name of the URL
+      const backendUrl = props.tls
+        ? `https://${props.tls.domainName}/${this.config.API_DEFAULT_PATH}`
+        : `http://${this.nlb.loadBalancerDnsName}/${this.config.API_DEFAULT_PATH}`;
+      const proxyIntegration = new HttpIntegration(`${backendUrl}/{proxy}`, {
+        httpMethod: "ANY",
+        proxy: true,
+        options: {
+          vpcLink: vpcLink,
+          connectionType: ConnectionType.VPC_LINK,
+          requestParameters: {
+            "integration.request.path.proxy": "method.request.path.proxy",
+            "integration.request.header.X-Forwarded-Path":
+              "method.request.path.proxy",
+            "integration.request.header.Accept": "method.request.header.Accept"
           }
         }
-      );
+      });
 
       this.api = new OSMLRestApi(this, "TileServerRestApi", {
         account: props.account,
@@ -742,11 +1813,86 @@ export class TSDataplane extends Construct {
         integration: proxyIntegration,
         auth: props.auth,
         osmlVpc: props.osmlVpc,
-        lambdaRole: this.lambdaRole
+        lambdaRole: this.lambdaRole,
+        config: props.apiConfig,
+        domain: props.domain,
+        domainHostName: this.config.DOMAIN_API_HOST_NAME,
+        deployOptions: this.config.API_ENABLE_TILE_ROUTES
+          ? TSTileRoutes.stageOptions(this.config)
+          : undefined
       });
+
+      if (this.config.API_ENABLE_TILE_ROUTES) {
+        this.tileRoutes = new TSTileRoutes(this, "TSTileRoutes", {
+          restApi: this.api.restApi,
+          vpcLink: vpcLink,
+          backendUrl: backendUrl,
+          tsDataplaneConfig: this.config
+        });
+      }
     }
   }
 
+  /**
+   * Records the load balancers in the configured domain and publishes the URLs of
+   * the tile server as stack outputs.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   */
+  private buildDomainRecords(props: TSDataplaneProps): void {
+    const protocol = this.certificate ? "https" : "http";
+    const albDomainName = buildLoadBalancerRecord(
+      this,
+      "TSAlbRecord",
+      props.domain!,
+      this.config.DOMAIN_ALB_HOST_NAME,
+      this.fargateService.loadBalancer
+    );
+    new CfnOutput(this, "TSLoadBalancerUrl", {
+      value: `${protocol}://${albDomainName}/${this.config.API_DEFAULT_PATH}/`,
+      description: "The URL of the OSML Tile Server load balancer"
+    });
+
+    if (this.nlb) {
+      const nlbDomainName = buildLoadBalancerRecord(
+        this,
+        "TSNlbRecord",
+        props.domain!,
+        this.config.DOMAIN_NLB_HOST_NAME,
+        this.nlb
+      );
+      const nlbPort = this.certificate
+        ? 443
+        : this.config.ECS_NETWORK_LOAD_BALANCER_PORT;
+      new CfnOutput(this, "TSNetworkLoadBalancerUrl", {
+        value: `${protocol}://${nlbDomainName}:${nlbPort}/${this.config.API_DEFAULT_PATH}/`,
+        description: "The URL of the OSML Tile Server API network load balancer"
+      });
+    }
+
+    if (this.api?.domainUrl) {
+      new CfnOutput(this, "TSApiUrl", {
+        value: this.api.domainUrl,
+        description: "The URL of the OSML Tile Server API"
+      });
+    }
+  }
+
+  /**
+   * Checks whether the configured domain already records the TLS domain name as the
+   * host name of the load balancer.
+   *
+   * @param {TSDataplaneProps} props - The properties for configuring the TSDataplane Construct.
+   * @returns {boolean} True if the domain records the TLS domain name.
+   */
+  private tlsDomainNameIsRecordedByDomain(props: TSDataplaneProps): boolean {
+    return (
+      props.domain != undefined &&
+      props.tls?.domainName ===
+        `${this.config.DOMAIN_ALB_HOST_NAME}.${props.domain.zoneName}`
+    );
+  }
+
   /**
    * Builds the configured integration testing resources the tile server.
    *
@@ -754,6 +1900,17 @@ export class TSDataplane extends Construct {
    */
   private buildTesting(props: TSDataplaneProps): void {
     if (this.config.DEPLOY_TEST_COMPONENTS) {
+      // The test runner reaches the service at the TLS domain name, so it has to resolve
+      if (
+        props.tls &&
+        props.tls.hostedZoneId == undefined &&
+        !this.tlsDomainNameIsRecordedByDomain(props)
+      ) {
+        throw new Error(
+          "TSDataplane test components with TLS require tls.hostedZoneId, or a domain recording tls.domainName, so the test runner can resolve tls.domainName."
+        );
+      }
+
       this.testContainer = new OSMLContainer(this, "TSTestContainer", {
         account: props.account,
         buildDockerImageCode: true,
@@ -775,7 +1932,9 @@ export class TSDataplane extends Construct {
         functionName: "TSTestRunner",
         securityGroups: this.securityGroup ? [this.securityGroup] : [],
         environment: {
-          TS_ENDPOINT: `http://${this.fargateService.loadBalancer.loadBalancerDnsName}/latest`
+          TS_ENDPOINT: props.tls
+            ? `https://${props.tls.domainName}/latest`
+            : `http://${this.fargateService.loadBalancer.loadBalancerDnsName}/latest`
         }
       });
       this.lambdaIntegRunner.node.addDependency(this.testContainer);
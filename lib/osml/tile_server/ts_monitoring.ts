@@ -0,0 +1,268 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Duration } from "aws-cdk-lib";
+import {
+  Dashboard,
+  GraphWidget,
+  GraphWidgetView,
+  Metric,
+  SingleValueWidget
+} from "aws-cdk-lib/aws-cloudwatch";
+import { FargateService } from "aws-cdk-lib/aws-ecs";
+import { IFileSystem } from "aws-cdk-lib/aws-efs";
+import {
+  HttpCodeElb,
+  HttpCodeTarget,
+  IApplicationLoadBalancer
+} from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Queue } from "aws-cdk-lib/aws-sqs";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { TSDataplaneConfig } from "./ts_dataplane";
+
+/**
+ * Interface for TS Monitoring Props.
+ *
+ * @interface TSMonitoringProps
+ */
+export interface TSMonitoringProps {
+  /**
+   * The OSML account interface.
+   *
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The tile server job queue.
+   *
+   * @type {Queue}
+   */
+  jobQueue: Queue;
+
+  /**
+   * The tile server job DLQ (Dead Letter Queue).
+   *
+   * @type {Queue}
+   */
+  jobDlQueue: Queue;
+
+  /**
+   * The load balancer in front of the tile server service.
+   *
+   * @type {IApplicationLoadBalancer}
+   */
+  loadBalancer: IApplicationLoadBalancer;
+
+  /**
+   * The tile server Fargate service.
+   *
+   * @type {FargateService}
+   */
+  service: FargateService;
+
+  /**
+   * The tile server viewpoint worker service (optional).
+   *
+   * @type {FargateService | undefined}
+   */
+  workerService?: FargateService;
+
+  /**
+   * The EFS file system shared by the tile server tasks, if they use EFS storage.
+   *
+   * @type {IFileSystem | undefined}
+   */
+  fileSystem?: IFileSystem;
+
+  /**
+   * The tile server dataplane configuration.
+   *
+   * @type {TSDataplaneConfig}
+   */
+  tsDataplaneConfig: TSDataplaneConfig;
+}
+
+/**
+ * Represents a TSMonitoring construct that builds a dashboard for the tile server:
+ * load balancer latency and errors, job queue depth, service utilization and, when the tasks use EFS storage, EFS burst credits.
+ */
+export class TSMonitoring extends Construct {
+  /**
+   * The tile server dashboard.
+   */
+  public tsDashboard: Dashboard;
+
+  /**
+   * Creates a new TSMonitoring construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {TSMonitoringProps} props - The properties of this construct.
+   * @returns {TSMonitoring} - The TSMonitoring construct.
+   */
+  constructor(scope: Construct, id: string, props: TSMonitoringProps) {
+    super(scope, id);
+
+    this.tsDashboard = new Dashboard(this, "OSMLTSDashboard", {
+      dashboardName: "OSML-TileServer"
+    });
+
+    const albMetrics = props.loadBalancer.metrics;
+    this.tsDashboard.addWidgets(
+      new SingleValueWidget({
+        region: props.account.region,
+        title: "Requests",
+        width: 4,
+        height: 6,
+        metrics: [
+          albMetrics.requestCount({ label: "Requests", statistic: "Sum" }),
+          albMetrics.httpCodeTarget(HttpCodeTarget.TARGET_5XX_COUNT, {
+            label: "Target 5xx",
+            statistic: "Sum"
+          })
+        ],
+        sparkline: false,
+        setPeriodToTimeRange: true
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "Response Time (Seconds)",
+        width: 10,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: ["p50", "p90", "p99"].map((statistic) =>
+          albMetrics.targetResponseTime({
+            label: statistic,
+            statistic: statistic
+          })
+        )
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "Server Errors",
+        width: 10,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        statistic: "Sum",
+        left: [
+          albMetrics.httpCodeElb(HttpCodeElb.ELB_5XX_COUNT, {
+            label: "Load Balancer 5xx",
+            statistic: "Sum"
+          }),
+          albMetrics.httpCodeTarget(HttpCodeTarget.TARGET_5XX_COUNT, {
+            label: "Target 5xx",
+            statistic: "Sum"
+          })
+        ]
+      })
+    );
+
+    this.tsDashboard.addWidgets(
+      new GraphWidget({
+        region: props.account.region,
+        title: "Job Queue",
+        width: 8,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: [
+          props.jobQueue.metricApproximateNumberOfMessagesVisible({
+            label: "Jobs Waiting",
+            statistic: "Maximum"
+          }),
+          props.jobDlQueue.metricApproximateNumberOfMessagesVisible({
+            label: "Failed Jobs",
+            statistic: "Maximum"
+          })
+        ],
+        right: [
+          props.jobQueue.metricApproximateAgeOfOldestMessage({
+            label: "Oldest Job (Seconds)",
+            statistic: "Maximum"
+          })
+        ]
+      }),
+      new GraphWidget({
+        region: props.account.region,
+        title: "Service Utilization (%)",
+        width: 8,
+        height: 6,
+        view: GraphWidgetView.TIME_SERIES,
+        left: [
+          props.service.metricCpuUtilization({ label: "CPU" }),
+          props.service.metricMemoryUtilization({ label: "Memory" }),
+          ...(props.workerService
+            ? [
+                props.workerService.metricCpuUtilization({
+                  label: "Worker CPU"
+                }),
+                props.workerService.metricMemoryUtilization({
+                  label: "Worker Memory"
+                })
+              ]
+            : [])
+        ]
+      }),
+      ...(props.fileSystem
+        ? [this.buildFileSystemWidget(props, props.fileSystem)]
+        : [])
+    );
+  }
+
+  /**
+   * Builds a widget showing the burst credits and I/O limit of the tile server EFS file system.
+   *
+   * @param {TSMonitoringProps} props - The properties of this construct.
+   * @param {IFileSystem} fileSystem - The file system to show.
+   * @returns {GraphWidget} The widget.
+   */
+  private buildFileSystemWidget(
+    props: TSMonitoringProps,
+    fileSystem: IFileSystem
+  ): GraphWidget {
+    return new GraphWidget({
+      region: props.account.region,
+      title: "EFS Burst Credits",
+      width: 8,
+      height: 6,
+      view: GraphWidgetView.TIME_SERIES,
+      left: [
+        this.fileSystemMetric(fileSystem, "BurstCreditBalance", "Minimum", {
+          label: "Burst Credit Balance (Bytes)"
+        })
+      ],
+      right: [
+        this.fileSystemMetric(fileSystem, "PercentIOLimit", "Maximum", {
+          label: "I/O Limit (%)"
+        })
+      ]
+    });
+  }
+
+  /**
+   * Creates a metric for the tile server EFS file system.
+   *
+   * @param {IFileSystem} fileSystem - The file system to measure.
+   * @param {string} metricName - The name of the metric.
+   * @param {string} statistic - The statistic to apply.
+   * @param options - Additional metric settings.
+   * @returns {Metric} The metric.
+   */
+  private fileSystemMetric(
+    fileSystem: IFileSystem,
+    metricName: string,
+    statistic: string,
+    options: { label: string }
+  ): Metric {
+    return new Metric({
+      namespace: "AWS/EFS",
+      metricName: metricName,
+      dimensionsMap: { FileSystemId: fileSystem.fileSystemId },
+      statistic: statistic,
+      period: Duration.minutes(5),
+      label: options.label
+    });
+  }
+}
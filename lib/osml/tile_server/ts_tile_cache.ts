@@ -0,0 +1,359 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Duration } from "aws-cdk-lib";
+import { RestApi } from "aws-cdk-lib/aws-apigateway";
+import {
+  AllowedMethods,
+  BehaviorOptions,
+  CacheCookieBehavior,
+  CacheHeaderBehavior,
+  CachePolicy,
+  CacheQueryStringBehavior,
+  Distribution,
+  IOrigin,
+  OriginProtocolPolicy,
+  OriginRequestHeaderBehavior,
+  OriginRequestPolicy,
+  PriceClass,
+  ViewerProtocolPolicy
+} from "aws-cdk-lib/aws-cloudfront";
+import {
+  LoadBalancerV2Origin,
+  RestApiOrigin
+} from "aws-cdk-lib/aws-cloudfront-origins";
+import { ITable } from "aws-cdk-lib/aws-dynamodb";
+import {
+  ISecurityGroup,
+  Peer,
+  Port,
+  SecurityGroup,
+  SubnetType
+} from "aws-cdk-lib/aws-ec2";
+import { FargateService } from "aws-cdk-lib/aws-ecs";
+import {
+  ApplicationLoadBalancer,
+  ApplicationProtocol,
+  ListenerAction,
+  ListenerCondition
+} from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  Code,
+  FilterCriteria,
+  Function,
+  Runtime,
+  StartingPosition
+} from "aws-cdk-lib/aws-lambda";
+import { DynamoEventSource } from "aws-cdk-lib/aws-lambda-event-sources";
+import { Construct } from "constructs";
+
+import { OSMLAccount } from "../osml_account";
+import { OSMLAuth } from "../osml_auth";
+import { OSMLVpc } from "../osml_vpc";
+import { resolvePackagePath } from "../utils/asset_path";
+import { TSDataplaneConfig } from "./ts_dataplane";
+
+/**
+ * Interface for TS Tile Cache Props.
+ *
+ * @interface TSTileCacheProps
+ */
+export interface TSTileCacheProps {
+  /**
+   * The OSML account interface.
+   *
+   * @type {OSMLAccount}
+   */
+  account: OSMLAccount;
+
+  /**
+   * The OSML VPC the tile server is deployed in.
+   *
+   * @type {OSMLVpc}
+   */
+  osmlVpc: OSMLVpc;
+
+  /**
+   * The tile server job table. It must publish a stream of item changes.
+   *
+   * @type {ITable}
+   */
+  jobTable: ITable;
+
+  /**
+   * The tile server Fargate service.
+   *
+   * @type {FargateService}
+   */
+  service: FargateService;
+
+  /**
+   * The authenticated tile server API. When provided the distribution caches the
+   * API, otherwise it caches the service through a dedicated origin load balancer.
+   *
+   * @type {RestApi | undefined}
+   */
+  api?: RestApi;
+
+  /**
+   * The authentication strategy of the tile server API, if provided.
+   *
+   * @type {OSMLAuth | undefined}
+   */
+  auth?: OSMLAuth;
+
+  /**
+   * Whether the tile server API requires callers to present an API key in the
+   * "x-api-key" header.
+   *
+   * @type {boolean | undefined}
+   */
+  apiKeyRequired?: boolean;
+
+  /**
+   * The security group for the invalidation Lambda function (optional).
+   *
+   * @type {ISecurityGroup | undefined}
+   */
+  securityGroup?: ISecurityGroup;
+
+  /**
+   * The tile server dataplane configuration.
+   *
+   * @type {TSDataplaneConfig}
+   */
+  tsDataplaneConfig: TSDataplaneConfig;
+}
+
+/**
+ * Represents a TSTileCache construct that caches tiles in a CloudFront distribution
+ * in front of the tile server. Tiles are keyed on their path, which carries the
+ * viewpoint, zoom level, coordinates and format, and on the configured query string
+ * parameters. When a viewpoint is deleted or expires, its cached tiles are invalidated.
+ */
+export class TSTileCache extends Construct {
+  /**
+   * The CloudFront distribution serving cached tiles.
+   */
+  public distribution: Distribution;
+
+  /**
+   * The cache policy applied to tile requests.
+   */
+  public tileCachePolicy: CachePolicy;
+
+  /**
+   * The internet-facing load balancer CloudFront reaches the service through, if the API is not authenticated.
+   */
+  public originLoadBalancer?: ApplicationLoadBalancer;
+
+  /**
+   * The Lambda function invalidating the tiles of deleted viewpoints.
+   */
+  public invalidationFunction: Function;
+
+  /**
+   * Creates a new TSTileCache construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {TSTileCacheProps} props - The properties of this construct.
+   * @returns {TSTileCache} - The TSTileCache construct.
+   * @throws {Error} If deployed to an ADC region, if the API uses IAM auth, or if the origin prefix list is missing without auth.
+   */
+  constructor(scope: Construct, id: string, props: TSTileCacheProps) {
+    super(scope, id);
+    const config = props.tsDataplaneConfig;
+
+    if (props.account.isAdc) {
+      throw new Error("Tile caching is not available in ADC regions.");
+    }
+    if (props.api && props.auth?.type === "iam") {
+      throw new Error(
+        "Tile caching is not available with IAM auth, since signed requests cannot share cached tiles."
+      );
+    }
+
+    const origin = props.api
+      ? new RestApiOrigin(props.api)
+      : this.buildOriginLoadBalancer(props);
+
+    // Authorized responses are only shared between requests with the same credentials
+    const credentialHeaders: string[] = [];
+    if (props.auth?.type !== "apiKey") {
+      credentialHeaders.push("Authorization");
+    }
+    if (props.apiKeyRequired) {
+      credentialHeaders.push("x-api-key");
+    }
+
+    this.tileCachePolicy = new CachePolicy(this, "TSTileCachePolicy", {
+      comment: "Caches OSML tiles by path and format",
+      defaultTtl: Duration.seconds(config.TILE_CACHE_DEFAULT_TTL_SECONDS),
+      maxTtl: Duration.seconds(config.TILE_CACHE_MAX_TTL_SECONDS),
+      minTtl: Duration.seconds(0),
+      headerBehavior: props.api
+        ? CacheHeaderBehavior.allowList(...credentialHeaders)
+        : CacheHeaderBehavior.none(),
+      queryStringBehavior:
+        config.TILE_CACHE_QUERY_STRINGS.length > 0
+          ? CacheQueryStringBehavior.allowList(
+              ...config.TILE_CACHE_QUERY_STRINGS
+            )
+          : CacheQueryStringBehavior.none(),
+      cookieBehavior: CacheCookieBehavior.none(),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true
+    });
+
+    const tileBehavior: BehaviorOptions = {
+      origin: origin,
+      allowedMethods: AllowedMethods.ALLOW_GET_HEAD,
+      cachePolicy: this.tileCachePolicy,
+      originRequestPolicy: new OriginRequestPolicy(
+        this,
+        "TSTileOriginRequestPolicy",
+        {
+          comment: "Forwards the Accept header to the OSML tile server",
+          headerBehavior: OriginRequestHeaderBehavior.allowList("Accept")
+        }
+      ),
+      viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS
+    };
+
+    this.distribution = new Distribution(this, "TSTileCacheDistribution", {
+      comment: "OSML Tile Server tile cache",
+      priceClass: config.TILE_CACHE_PRICE_CLASS as PriceClass,
+      defaultBehavior: {
+        origin: origin,
+        allowedMethods: AllowedMethods.ALLOW_ALL,
+        cachePolicy: CachePolicy.CACHING_DISABLED,
+        originRequestPolicy: OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+        viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS
+      },
+      additionalBehaviors: Object.fromEntries(
+        config.TILE_CACHE_PATH_PATTERNS.map((pattern) => [
+          pattern,
+          tileBehavior
+        ])
+      )
+    });
+
+    this.invalidationFunction = new Function(
+      this,
+      "TSTileCacheInvalidationFunction",
+      {
+        runtime: Runtime.PYTHON_3_11,
+        code: Code.fromAsset(
+          resolvePackagePath(
+            "lib/osml/tile_server/lambda/ts_tile_cache_invalidation"
+          )
+        ),
+        handler: "lambda_function.lambda_handler",
+        timeout: Duration.seconds(60),
+        vpc: props.osmlVpc.vpc,
+        vpcSubnets: props.osmlVpc.selectedSubnets,
+        securityGroups: props.securityGroup ? [props.securityGroup] : undefined,
+        environment: {
+          DISTRIBUTION_ID: this.distribution.distributionId,
+          // The API origin path carries the stage, so viewers omit the service prefix
+          INVALIDATION_PATH_PREFIXES: (props.api
+            ? ["/", "/xyz/"]
+            : [`/${config.API_DEFAULT_PATH}/`]
+          ).join(",")
+        }
+      }
+    );
+    this.distribution.grantCreateInvalidation(this.invalidationFunction);
+
+    // Invalidate when a viewpoint is deleted or its record expires
+    this.invalidationFunction.addEventSource(
+      new DynamoEventSource(props.jobTable, {
+        startingPosition: StartingPosition.LATEST,
+        batchSize: 10,
+        retryAttempts: 3,
+        filters: [
+          FilterCriteria.filter({ eventName: ["REMOVE"] }),
+          FilterCriteria.filter({
+            dynamodb: {
+              NewImage: {
+                viewpoint_status: { S: ["DELETED"] }
+              }
+            }
+          })
+        ]
+      })
+    );
+  }
+
+  /**
+   * Builds an internet-facing load balancer that admits only CloudFront and only
+   * forwards tile reads to the tile server service.
+   *
+   * @param {TSTileCacheProps} props - The properties of this construct.
+   * @returns {IOrigin} The CloudFront origin for the load balancer.
+   */
+  private buildOriginLoadBalancer(props: TSTileCacheProps): IOrigin {
+    const config = props.tsDataplaneConfig;
+    if (config.TILE_CACHE_ORIGIN_PREFIX_LIST_ID == undefined) {
+      throw new Error(
+        "TILE_CACHE_ORIGIN_PREFIX_LIST_ID is required to cache tiles without auth. " +
+          "Set it to the com.amazonaws.global.cloudfront.origin-facing prefix list ID for the region."
+      );
+    }
+
+    const securityGroup = new SecurityGroup(
+      this,
+      "TSTileCacheOriginSecurityGroup",
+      {
+        vpc: props.osmlVpc.vpc,
+        description: "Admits CloudFront to the OSML tile cache origin",
+        allowAllOutbound: false
+      }
+    );
+    securityGroup.addIngressRule(
+      Peer.prefixList(config.TILE_CACHE_ORIGIN_PREFIX_LIST_ID),
+      Port.tcp(80),
+      "Allow HTTP traffic from CloudFront"
+    );
+
+    this.originLoadBalancer = new ApplicationLoadBalancer(
+      this,
+      "TSTileCacheOriginLoadBalancer",
+      {
+        vpc: props.osmlVpc.vpc,
+        vpcSubnets: { subnetType: SubnetType.PUBLIC },
+        securityGroup: securityGroup,
+        internetFacing: true
+      }
+    );
+
+    const listener = this.originLoadBalancer.addListener(
+      "TSTileCacheListener",
+      {
+        port: 80,
+        open: false,
+        defaultAction: ListenerAction.fixedResponse(404, {
+          contentType: "text/plain",
+          messageBody: "Not Found"
+        })
+      }
+    );
+
+    listener.addTargets("TSTileCacheTargets", {
+      priority: 1,
+      // CloudFront only allows GET and HEAD requests on tile paths
+      conditions: [
+        ListenerCondition.pathPatterns(config.TILE_CACHE_PATH_PATTERNS)
+      ],
+      port: config.ECS_CONTAINER_PORT,
+      protocol: ApplicationProtocol.HTTP,
+      targets: [props.service],
+      healthCheck: { path: "/ping" }
+    });
+
+    return new LoadBalancerV2Origin(this.originLoadBalancer, {
+      protocolPolicy: OriginProtocolPolicy.HTTP_ONLY
+    });
+  }
+}
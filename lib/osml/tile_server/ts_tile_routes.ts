@@ -0,0 +1,400 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Duration } from "aws-cdk-lib";
+import {
+  ConnectionType,
+  HttpIntegration,
+  Method,
+  MethodDeploymentOptions,
+  MockIntegration,
+  PassthroughBehavior,
+  RequestValidator,
+  RestApi,
+  StageOptions,
+  VpcLink
+} from "aws-cdk-lib/aws-apigateway";
+import { Construct } from "constructs";
+
+import { TSDataplaneConfig } from "./ts_dataplane";
+
+/**
+ * Describes a tile protocol route on the tile server API.
+ */
+export interface TSTileRoute {
+  /**
+   * The name of the tile protocol.
+   */
+  name: string;
+
+  /**
+   * The resource path of the route, relative to the API root.
+   */
+  path: string;
+
+  /**
+   * The tile server path the route proxies to, relative to the backend URL.
+   * Routes without one are answered by the API itself from `responseTemplate`.
+   */
+  backendPath?: string;
+
+  /**
+   * The mapping template of the document the API answers the route with, if it
+   * does not proxy to the tile server.
+   */
+  responseTemplate?: string;
+
+  /**
+   * The content type of the document the API answers the route with.
+   */
+  contentType?: string;
+
+  /**
+   * The request parameters of the route, mapped to whether they are required.
+   */
+  requestParameters: { [param: string]: boolean };
+
+  /**
+   * The time, in seconds, responses are cached. 0 disables caching.
+   */
+  cacheTtlSeconds: number;
+
+  /**
+   * The steady-state request rate limit, in requests per second.
+   */
+  throttlingRateLimit: number;
+
+  /**
+   * The request burst limit.
+   */
+  throttlingBurstLimit: number;
+}
+
+/**
+ * Interface for TS Tile Routes Props.
+ *
+ * @interface TSTileRoutesProps
+ */
+export interface TSTileRoutesProps {
+  /**
+   * The tile server API to add the routes to.
+   *
+   * @type {RestApi}
+   */
+  restApi: RestApi;
+
+  /**
+   * The VPC link reaching the tile server.
+   *
+   * @type {VpcLink}
+   */
+  vpcLink: VpcLink;
+
+  /**
+   * The tile server URL viewpoint paths are relative to.
+   *
+   * @type {string}
+   */
+  backendUrl: string;
+
+  /**
+   * The tile server dataplane configuration.
+   *
+   * @type {TSDataplaneConfig}
+   */
+  tsDataplaneConfig: TSDataplaneConfig;
+}
+
+/**
+ * The tile matrix set the tile server serves Web Mercator map tiles in.
+ */
+const WEB_MERCATOR_TILE_MATRIX_SET = "WebMercatorQuad";
+
+/**
+ * The deepest zoom level advertised in WMTS capabilities.
+ */
+const WEB_MERCATOR_MAX_ZOOM = 22;
+
+/**
+ * Sets $base to the URL the API was called at, up to the route, along with the URL
+ * encoded $viewpoint and $format of the request. Behind custom domain base path
+ * mappings or CloudFront, the stage is not the only path prefix, so the prefix is
+ * taken from the request path rather than $context.stage.
+ *
+ * @param {string} routeRoot - The first segment of the route, such as "tilejson".
+ * @returns {string} The template lines.
+ */
+const baseUrlTemplate = (routeRoot: string): string[] => [
+  `#set($prefix = $context.path.substring(0, $context.path.lastIndexOf("/${routeRoot}/")))`,
+  '#set($base = "https://$context.domainName$prefix")',
+  "#set($viewpoint = $util.urlEncode($input.params('viewpoint_id')))",
+  "#set($format = $util.urlEncode($input.params('format')))",
+  '#if($format == "")#set($format = "png")#end'
+];
+
+/**
+ * The TileJSON document returned for a viewpoint, pointing clients at its XYZ route.
+ */
+const TILEJSON_TEMPLATE = [
+  ...baseUrlTemplate("tilejson"),
+  "{",
+  '  "tilejson": "3.0.0",',
+  '  "name": "$viewpoint",',
+  '  "scheme": "xyz",',
+  '  "tiles": ["$base/xyz/$viewpoint/$format/{z}/{x}/{y}"]',
+  "}"
+].join("\n");
+
+/**
+ * The WMTS capabilities document returned for a viewpoint. It uses the RESTful
+ * encoding, so clients request tiles from the XYZ route through its resource URL.
+ */
+const WMTS_CAPABILITIES_TEMPLATE = [
+  ...baseUrlTemplate("wmts"),
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1" version="1.0.0">',
+  "  <ows:ServiceIdentification>",
+  "    <ows:Title>OSML Tile Server</ows:Title>",
+  "    <ows:ServiceType>OGC WMTS</ows:ServiceType>",
+  "    <ows:ServiceTypeVersion>1.0.0</ows:ServiceTypeVersion>",
+  "  </ows:ServiceIdentification>",
+  "  <Contents>",
+  "    <Layer>",
+  "      <ows:Title>$viewpoint</ows:Title>",
+  "      <ows:Identifier>$viewpoint</ows:Identifier>",
+  '      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>',
+  "      <Format>image/$format</Format>",
+  `      <TileMatrixSetLink><TileMatrixSet>${WEB_MERCATOR_TILE_MATRIX_SET}</TileMatrixSet></TileMatrixSetLink>`,
+  '      <ResourceURL format="image/$format" resourceType="tile" template="$base/xyz/$viewpoint/$format/{TileMatrix}/{TileCol}/{TileRow}"/>',
+  "    </Layer>",
+  "    <TileMatrixSet>",
+  `      <ows:Identifier>${WEB_MERCATOR_TILE_MATRIX_SET}</ows:Identifier>`,
+  "      <ows:SupportedCRS>urn:ogc:def:crs:EPSG::3857</ows:SupportedCRS>",
+  "      <WellKnownScaleSet>urn:ogc:def:wkss:OGC:1.0:GoogleMapsCompatible</WellKnownScaleSet>",
+  ...Array.from({ length: WEB_MERCATOR_MAX_ZOOM + 1 }, (_, zoom) =>
+    [
+      "      <TileMatrix>",
+      `        <ows:Identifier>${zoom}</ows:Identifier>`,
+      `        <ScaleDenominator>${559082264.0287178 / 2 ** zoom}</ScaleDenominator>`,
+      "        <TopLeftCorner>-20037508.3427892 20037508.3427892</TopLeftCorner>",
+      "        <TileWidth>256</TileWidth>",
+      "        <TileHeight>256</TileHeight>",
+      `        <MatrixWidth>${2 ** zoom}</MatrixWidth>`,
+      `        <MatrixHeight>${2 ** zoom}</MatrixHeight>`,
+      "      </TileMatrix>"
+    ].join("\n")
+  ),
+  "    </TileMatrixSet>",
+  "  </Contents>",
+  "</Capabilities>"
+].join("\n");
+
+/**
+ * Represents a TSTileRoutes construct that adds routes for standard tile protocols to
+ * the tile server API, so GIS clients can be pointed straight at the deployment:
+ *
+ * - `xyz/{viewpoint_id}/{format}/{z}/{x}/{y}` serves the viewpoint's Web Mercator map tiles.
+ * - `wmts/{viewpoint_id}` describes the viewpoint's XYZ tiles as WMTS capabilities.
+ * - `tilejson/{viewpoint_id}` describes the viewpoint's XYZ tiles as TileJSON.
+ *
+ * Each route validates its required parameters and has its own cache TTL and throttling.
+ */
+export class TSTileRoutes extends Construct {
+  /**
+   * The validator checking each route's required request parameters.
+   */
+  public requestValidator: RequestValidator;
+
+  /**
+   * The API methods serving the routes.
+   */
+  public methods: Method[];
+
+  /**
+   * Builds the tile protocol routes for a configuration.
+   *
+   * @param {TSDataplaneConfig} config - The tile server dataplane configuration.
+   * @returns {TSTileRoute[]} The routes.
+   */
+  public static routes(config: TSDataplaneConfig): TSTileRoute[] {
+    return [
+      {
+        name: "XYZ",
+        path: "xyz/{viewpoint_id}/{format}/{z}/{x}/{y}",
+        // The tile server orders map tile coordinates as z/y/x
+        backendPath: `{viewpoint_id}/map/tiles/${WEB_MERCATOR_TILE_MATRIX_SET}/{z}/{y}/{x}.{format}`,
+        requestParameters: {
+          "method.request.path.viewpoint_id": true,
+          "method.request.path.format": true,
+          "method.request.path.z": true,
+          "method.request.path.x": true,
+          "method.request.path.y": true,
+          "method.request.querystring.compression": false
+        },
+        cacheTtlSeconds: config.API_XYZ_CACHE_TTL_SECONDS,
+        throttlingRateLimit: config.API_XYZ_THROTTLE_RATE_LIMIT,
+        throttlingBurstLimit: config.API_XYZ_THROTTLE_BURST_LIMIT
+      },
+      {
+        name: "WMTS",
+        path: "wmts/{viewpoint_id}",
+        responseTemplate: WMTS_CAPABILITIES_TEMPLATE,
+        contentType: "application/xml",
+        requestParameters: {
+          "method.request.path.viewpoint_id": true,
+          "method.request.querystring.format": false
+        },
+        cacheTtlSeconds: config.API_WMTS_CACHE_TTL_SECONDS,
+        throttlingRateLimit: config.API_WMTS_THROTTLE_RATE_LIMIT,
+        throttlingBurstLimit: config.API_WMTS_THROTTLE_BURST_LIMIT
+      },
+      {
+        name: "TileJSON",
+        path: "tilejson/{viewpoint_id}",
+        responseTemplate: TILEJSON_TEMPLATE,
+        contentType: "application/json",
+        requestParameters: {
+          "method.request.path.viewpoint_id": true,
+          "method.request.querystring.format": false
+        },
+        cacheTtlSeconds: config.API_TILEJSON_CACHE_TTL_SECONDS,
+        throttlingRateLimit: config.API_TILEJSON_THROTTLE_RATE_LIMIT,
+        throttlingBurstLimit: config.API_TILEJSON_THROTTLE_BURST_LIMIT
+      }
+    ];
+  }
+
+  /**
+   * Builds the stage settings applying each route's cache TTL and throttling.
+   *
+   * @param {TSDataplaneConfig} config - The tile server dataplane configuration.
+   * @returns {StageOptions} The stage settings.
+   */
+  public static stageOptions(config: TSDataplaneConfig): StageOptions {
+    const routes = TSTileRoutes.routes(config);
+    const methodOptions: { [path: string]: MethodDeploymentOptions } = {};
+    for (const route of routes) {
+      methodOptions[`/${route.path}/GET`] = {
+        cachingEnabled: route.cacheTtlSeconds > 0,
+        cacheTtl: Duration.seconds(route.cacheTtlSeconds),
+        throttlingRateLimit: route.throttlingRateLimit,
+        throttlingBurstLimit: route.throttlingBurstLimit
+      };
+    }
+
+    const cacheClusterEnabled = routes.some(
+      (route) => route.cacheTtlSeconds > 0
+    );
+    return {
+      cacheClusterEnabled: cacheClusterEnabled,
+      cacheClusterSize: cacheClusterEnabled
+        ? config.API_CACHE_CLUSTER_SIZE
+        : undefined,
+      methodOptions: methodOptions
+    };
+  }
+
+  /**
+   * Creates a new TSTileRoutes construct.
+   * @param {Construct} scope - The scope/stack in which to define this construct.
+   * @param {string} id - The id of this construct within the current scope.
+   * @param {TSTileRoutesProps} props - The properties of this construct.
+   * @returns {TSTileRoutes} - The TSTileRoutes construct.
+   */
+  constructor(scope: Construct, id: string, props: TSTileRoutesProps) {
+    super(scope, id);
+
+    this.requestValidator = new RequestValidator(this, "TSTileRouteValidator", {
+      restApi: props.restApi,
+      validateRequestParameters: true
+    });
+
+    this.methods = TSTileRoutes.routes(props.tsDataplaneConfig).map((route) =>
+      props.restApi.root
+        .resourceForPath(route.path)
+        .addMethod(
+          "GET",
+          route.backendPath
+            ? this.buildHttpIntegration(props, route.backendPath, route)
+            : this.buildDocumentIntegration(route),
+          {
+            requestParameters: {
+              ...route.requestParameters,
+              "method.request.header.Accept": false
+            },
+            requestValidator: this.requestValidator,
+            methodResponses: [
+              {
+                statusCode: "200",
+                responseParameters: route.contentType
+                  ? { "method.response.header.Content-Type": true }
+                  : undefined
+              }
+            ]
+          }
+        )
+    );
+  }
+
+  /**
+   * Builds an integration proxying a route to a tile server viewpoint path. The
+   * route's request parameters form the cache key.
+   *
+   * @param {TSTileRoutesProps} props - The properties of this construct.
+   * @param {string} backendPath - The tile server path, relative to the backend URL.
+   * @param {TSTileRoute} route - The route being integrated.
+   * @returns {HttpIntegration} The integration.
+   */
+  private buildHttpIntegration(
+    props: TSTileRoutesProps,
+    backendPath: string,
+    route: TSTileRoute
+  ): HttpIntegration {
+    const pathParameters = Object.keys(route.requestParameters).filter(
+      (param) => param.startsWith("method.request.path.")
+    );
+    return new HttpIntegration(`${props.backendUrl}/${backendPath}`, {
+      httpMethod: "GET",
+      proxy: true,
+      options: {
+        vpcLink: props.vpcLink,
+        connectionType: ConnectionType.VPC_LINK,
+        cacheKeyParameters: Object.keys(route.requestParameters),
+        requestParameters: {
+          ...Object.fromEntries(
+            pathParameters.map((param) => [
+              param.replace("method.request", "integration.request"),
+              param
+            ])
+          ),
+          "integration.request.header.Accept": "method.request.header.Accept"
+        }
+      }
+    });
+  }
+
+  /**
+   * Builds an integration answering a route with the document its template renders
+   * for the requested viewpoint.
+   *
+   * @param {TSTileRoute} route - The route being integrated.
+   * @returns {MockIntegration} The integration.
+   */
+  private buildDocumentIntegration(route: TSTileRoute): MockIntegration {
+    return new MockIntegration({
+      passthroughBehavior: PassthroughBehavior.NEVER,
+      requestTemplates: { "application/json": '{"statusCode": 200}' },
+      cacheKeyParameters: Object.keys(route.requestParameters),
+      integrationResponses: [
+        {
+          statusCode: "200",
+          responseParameters: {
+            "method.response.header.Content-Type": `'${route.contentType}'`
+          },
+          responseTemplates: { "application/json": route.responseTemplate! }
+        }
+      ]
+    });
+  }
+}
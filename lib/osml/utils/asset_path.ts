@@ -0,0 +1,53 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+
+/**
+ * Lists the locations a path shipped with this package may be found at.
+ *
+ * @param {string} packagePath - The path relative to the package root.
+ * @returns {string[]} The absolute paths to try, in order.
+ */
+function packagePathCandidates(packagePath: string): string[] {
+  return [
+    // lib/osml/utils in the source tree
+    join(__dirname, "..", "..", "..", packagePath),
+    // dist/lib/osml/utils in the compiled output
+    join(__dirname, "..", "..", "..", "..", packagePath)
+  ];
+}
+
+/**
+ * Finds an optional path shipped with this package, such as a pre-built bundle that
+ * only published packages include.
+ *
+ * @param {string} packagePath - The path relative to the package root, such as "dist/authorizer".
+ * @returns {string | undefined} The absolute path, or undefined if the package does not include it.
+ */
+export function findPackagePath(packagePath: string): string | undefined {
+  return packagePathCandidates(packagePath).find((candidate) =>
+    existsSync(candidate)
+  );
+}
+
+/**
+ * Resolves a path shipped with this package, such as the source of a Lambda function,
+ * from the location of this module rather than the working directory, so it holds
+ * both in the source tree and when the package is installed from npm.
+ *
+ * @param {string} packagePath - The path relative to the package root, such as "lib/osml/authorizer/lambda".
+ * @returns {string} The absolute path.
+ * @throws {Error} If the path does not exist in the source tree or next to the compiled output.
+ */
+export function resolvePackagePath(packagePath: string): string {
+  const resolved = findPackagePath(packagePath);
+  if (resolved == undefined) {
+    throw new Error(
+      `Could not find ${packagePath} in the osml-cdk-constructs package. Tried ${packagePathCandidates(packagePath).join(", ")}.`
+    );
+  }
+  return resolved;
+}
@@ -1,12 +1,45 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
+import { Annotations } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import {
+  ConfigLayer,
+  ConfigLoadOptions,
+  ConfigProvenance,
+  formatConfigProvenance,
+  mergeConfigLayers,
+  readConfigFile,
+  readContextConfig
+} from "./config_loader";
+import {
+  ConfigSchema,
+  ConfigValidationError,
+  validateConfigSchema
+} from "./config_schema";
+
 /**
  * A type alias representing a generic configuration object.
  */
 export type ConfigType = { [key: string]: unknown };
 
+/**
+ * A configuration class that can be constructed from a configuration object.
+ */
+export type ConfigClass<T extends BaseConfig> = {
+  new (config?: ConfigType): T;
+  readonly name: string;
+  readonly schema?: ConfigSchema;
+};
+
+/**
+ * The provenance recorded for configurations created by the loaders.
+ * Kept outside the instances so configuration objects stay plain data.
+ */
+const provenanceByConfig = new WeakMap<BaseConfig, ConfigProvenance>();
+
 /**
  * A base class for configuration objects.
  *
@@ -15,16 +48,33 @@ export type ConfigType = { [key: string]: unknown };
  * properties from the provided configuration object to the instance, allowing for
  * easy extension by specific configuration classes.
  *
+ * Subclasses may declare a static `schema` listing their allowed keys, types, ranges
+ * and enums, and override the static `validate` for checks that span several keys. When a schema
+ * is declared, the object passed to the constructor is validated against it and every
+ * problem found is reported in a single `ConfigValidationError`.
+ *
+ * Configurations can also be loaded with `fromFile` and `fromContext`, which layer values
+ * in increasing precedence: class defaults, a shared base file, an environment file,
+ * an object stored in CDK context under a key, and individual `key.NAME` context values.
+ * The layer each value came from is available through `provenanceOf`.
+ *
  * @example
  * // Define a specific configuration class by extending BaseConfig
  * class MyConfig extends BaseConfig {
+ *   public static readonly schema: ConfigSchema = {
+ *     someProperty: { type: "string" },
+ *     anotherProperty: { type: "number", integer: true, min: 0 }
+ *   };
+ *
  *   public someProperty: string;
  *   public anotherProperty: number;
  *
  *   constructor(config: ConfigType = {}) {
- *     super(config);
- *     this.someProperty = this.someProperty ?? "default value";
- *     this.anotherProperty = this.anotherProperty ?? 42;
+ *     super({
+ *       someProperty: "default value",
+ *       anotherProperty: 42,
+ *       ...config
+ *     });
  *   }
  * }
  *
@@ -32,14 +82,138 @@ export type ConfigType = { [key: string]: unknown };
  * const config = new MyConfig({ someProperty: "custom value" });
  * console.log(config.someProperty); // Output: "custom value"
  * console.log(config.anotherProperty); // Output: 42
+ *
+ * // Unknown keys and invalid values are rejected
+ * new MyConfig({ anotherPropety: -1 }); // throws ConfigValidationError
+ *
+ * // Load layered values from files and context
+ * const loaded = MyConfig.fromContext(stack, "MyConfig", {
+ *   baseFile: "config/base.yaml",
+ *   environmentFile: "config/prod.yaml",
+ *   report: true
+ * });
  */
 export class BaseConfig {
+  /**
+   * The schema describing the keys allowed on this configuration class.
+   * Configuration classes without a schema accept any key.
+   */
+  public static readonly schema?: ConfigSchema;
+
   /**
    * Creates an instance of BaseConfig.
    *
    * @param config - A configuration object to initialize the instance properties.
+   * @throws {ConfigValidationError} If the configuration does not satisfy the class schema.
    */
   constructor(config: ConfigType = {}) {
     Object.assign(this, config);
+
+    const configClass = new.target;
+    if (configClass.schema) {
+      const errors = [
+        ...validateConfigSchema(configClass.schema, config),
+        ...(configClass.validate?.(config) ?? [])
+      ];
+      if (errors.length > 0) {
+        throw new ConfigValidationError(configClass.name, errors);
+      }
+    }
   }
+
+  /**
+   * Performs validation that spans several configuration keys.
+   * Subclasses define this to add checks their schema cannot express.
+   */
+  protected static validate?: (config: ConfigType) => string[];
+
+  /**
+   * Creates a configuration from layered JSON or YAML files.
+   *
+   * @param options - The files to load and the section to read from them.
+   * @returns The configuration built from the class defaults and the files.
+   * @throws {Error} If a file cannot be found or parsed.
+   * @throws {ConfigValidationError} If the merged configuration does not satisfy the class schema.
+   */
+  public static fromFile<T extends BaseConfig>(
+    this: ConfigClass<T>,
+    options: ConfigLoadOptions = {}
+  ): T {
+    return BaseConfig.load(this, fileLayers(options));
+  }
+
+  /**
+   * Creates a configuration from layered JSON or YAML files and CDK context.
+   *
+   * @param scope - The construct whose context should be read.
+   * @param key - The context key holding the configuration, e.g. "MRDataplaneConfig".
+   * @param options - The files to load and whether to report provenance.
+   * @returns The configuration built from the class defaults, the files and context.
+   * @throws {Error} If a file or context value cannot be found or parsed.
+   * @throws {ConfigValidationError} If the merged configuration does not satisfy the class schema.
+   */
+  public static fromContext<T extends BaseConfig>(
+    this: ConfigClass<T>,
+    scope: Construct,
+    key: string,
+    options: ConfigLoadOptions = {}
+  ): T {
+    const config = BaseConfig.load(this, [
+      ...fileLayers(options),
+      ...readContextConfig(scope, key, this.schema)
+    ]);
+    if (options.report) {
+      Annotations.of(scope).addInfo(
+        formatConfigProvenance(
+          this.name,
+          config,
+          provenanceByConfig.get(config)!
+        )
+      );
+    }
+    return config;
+  }
+
+  /**
+   * Returns which layer each value of a loaded configuration came from.
+   *
+   * @param config - A configuration created by `fromFile` or `fromContext`.
+   * @returns The provenance of each value, or undefined if the configuration was not loaded.
+   */
+  public static provenanceOf(config: BaseConfig): ConfigProvenance | undefined {
+    return provenanceByConfig.get(config);
+  }
+
+  /**
+   * Merges configuration layers, creates the configuration and records its provenance.
+   *
+   * @param configClass - The configuration class to create.
+   * @param layers - The layers to merge, lowest precedence first.
+   * @returns The created configuration.
+   */
+  private static load<T extends BaseConfig>(
+    configClass: ConfigClass<T>,
+    layers: ConfigLayer[]
+  ): T {
+    const { values, provenance } = mergeConfigLayers(layers);
+    const config = new configClass(values);
+    const withDefaults: ConfigProvenance = {};
+    for (const key of Object.keys(config)) {
+      withDefaults[key] = provenance[key] ?? "default";
+    }
+    provenanceByConfig.set(config, withDefaults);
+    return config;
+  }
+}
+
+/**
+ * Reads the file layers named in the load options.
+ *
+ * @param options - The load options naming the base and environment files.
+ * @returns The layers read from the files, lowest precedence first.
+ */
+function fileLayers(options: ConfigLoadOptions): ConfigLayer[] {
+  return [options.baseFile, options.environmentFile]
+    .filter((file): file is string => file !== undefined)
+    .map((file) => readConfigFile(file, options.section));
 }
@@ -0,0 +1,257 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Construct } from "constructs";
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+
+import { ConfigFieldSchema, ConfigSchema } from "./config_schema";
+
+/**
+ * A mapping of configuration keys to the layer their value was taken from,
+ * e.g. `"default"`, `"file:config/prod.yaml"` or `"context:MRDataplaneConfig"`.
+ */
+export type ConfigProvenance = { [key: string]: string };
+
+/**
+ * A single layer of configuration values and where they came from.
+ */
+export interface ConfigLayer {
+  /**
+   * A label describing where the values came from.
+   */
+  source: string;
+
+  /**
+   * The configuration values provided by the layer.
+   */
+  values: { [key: string]: unknown };
+}
+
+/**
+ * Options controlling how configuration files and context are loaded.
+ */
+export interface ConfigLoadOptions {
+  /**
+   * A shared JSON or YAML file applied over the defaults for every environment.
+   */
+  baseFile?: string;
+
+  /**
+   * A JSON or YAML file applied over the base file for a specific environment.
+   */
+  environmentFile?: string;
+
+  /**
+   * A top-level section to read from each file, allowing one file to hold
+   * the configuration for several constructs.
+   * When unset, the whole file is used.
+   */
+  section?: string;
+
+  /**
+   * Whether to emit a provenance report as an info annotation, printed by `cdk synth`.
+   * @default false
+   */
+  report?: boolean;
+}
+
+/**
+ * Reads a layer of configuration values from a JSON or YAML file.
+ *
+ * @param filePath - The path of the file to read.
+ * @param section - An optional top-level section of the file to read.
+ * @returns The configuration layer read from the file.
+ * @throws {Error} If the file does not exist or does not hold an object.
+ */
+export function readConfigFile(
+  filePath: string,
+  section?: string
+): ConfigLayer {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Configuration file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const extension = path.extname(filePath).toLowerCase();
+  let values: unknown =
+    extension === ".yaml" || extension === ".yml"
+      ? parseYaml(content)
+      : JSON.parse(content);
+
+  if (section !== undefined && isObject(values)) {
+    values = values[section] ?? {};
+  }
+  if (!isObject(values)) {
+    throw new Error(
+      `Configuration file ${filePath} must contain an object${section ? ` under "${section}"` : ""}.`
+    );
+  }
+  return { source: `file:${filePath}`, values };
+}
+
+/**
+ * Reads the configuration layers held in CDK context.
+ *
+ * Two forms are supported, with the second taking precedence:
+ * - an object (or JSON string) stored under `key`, e.g. in `cdk.json`.
+ * - individual `key.NAME` entries, e.g. `cdk synth -c MRDataplaneConfig.ECS_TASK_CPU=4096`.
+ *
+ * String values given for non-string schema keys are converted to the declared type.
+ *
+ * @param scope - The construct whose context should be read.
+ * @param key - The context key holding the configuration.
+ * @param schema - The schema used to convert string values, if any.
+ * @returns The configuration layers read from context.
+ * @throws {Error} If the value stored under `key` is not an object.
+ */
+export function readContextConfig(
+  scope: Construct,
+  key: string,
+  schema?: ConfigSchema
+): ConfigLayer[] {
+  const layers: ConfigLayer[] = [];
+
+  let values: unknown = scope.node.tryGetContext(key);
+  if (typeof values === "string") {
+    values = JSON.parse(values);
+  }
+  if (values !== undefined) {
+    if (!isObject(values)) {
+      throw new Error(`Context value "${key}" must be an object.`);
+    }
+    layers.push({
+      source: `context:${key}`,
+      values: coerceValues(values, schema)
+    });
+  }
+
+  const prefix = `${key}.`;
+  const overrides: { [key: string]: unknown } = {};
+  const context = scope.node.getAllContext() as { [key: string]: unknown };
+  for (const [name, value] of Object.entries(context)) {
+    if (name.startsWith(prefix)) {
+      overrides[name.substring(prefix.length)] = value;
+    }
+  }
+  if (Object.keys(overrides).length > 0) {
+    layers.push({
+      source: `context:${key}.*`,
+      values: coerceValues(overrides, schema)
+    });
+  }
+
+  return layers;
+}
+
+/**
+ * Merges configuration layers in order, later layers taking precedence,
+ * and records which layer each value was taken from.
+ *
+ * @param layers - The layers to merge, lowest precedence first.
+ * @returns The merged values and their provenance.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): {
+  values: { [key: string]: unknown };
+  provenance: ConfigProvenance;
+} {
+  const values: { [key: string]: unknown } = {};
+  const provenance: ConfigProvenance = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.values)) {
+      if (value !== undefined) {
+        values[key] = value;
+        provenance[key] = layer.source;
+      }
+    }
+  }
+  return { values, provenance };
+}
+
+/**
+ * Formats a provenance report listing each configuration value and its source layer.
+ *
+ * @param name - The name of the configuration class.
+ * @param config - The loaded configuration values.
+ * @param provenance - The provenance recorded when loading the configuration.
+ * @returns A human-readable report.
+ */
+export function formatConfigProvenance(
+  name: string,
+  config: object,
+  provenance: ConfigProvenance
+): string {
+  const values = config as { [key: string]: unknown };
+  const keys = Object.keys(provenance).sort();
+  const width = Math.max(0, ...keys.map((k) => k.length));
+  const lines = keys.map(
+    (key) =>
+      `  ${key.padEnd(width)}  ${JSON.stringify(values[key])}  (${provenance[key]})`
+  );
+  return [`${name} provenance:`, ...lines].join("\n");
+}
+
+/**
+ * Converts string values to the types declared in a schema.
+ *
+ * @param values - The values to convert.
+ * @param schema - The schema declaring the expected types, if any.
+ * @returns The converted values.
+ */
+function coerceValues(
+  values: { [key: string]: unknown },
+  schema?: ConfigSchema
+): { [key: string]: unknown } {
+  const result: { [key: string]: unknown } = {};
+  for (const [key, value] of Object.entries(values)) {
+    const field = schema?.[key];
+    result[key] =
+      field && typeof value === "string" ? coerceString(field, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Converts a string value to the type declared for its field.
+ * Values that cannot be converted are returned unchanged so validation can report them.
+ *
+ * @param field - The schema for the field.
+ * @param value - The string value to convert.
+ * @returns The converted value.
+ */
+function coerceString(field: ConfigFieldSchema, value: string): unknown {
+  switch (field.type) {
+    case "number":
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "string[]":
+      return value
+        .split(",")
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+    case "object":
+    case "object[]":
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a non-array object.
+ */
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,389 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Token } from "aws-cdk-lib";
+
+/**
+ * The value types that can be declared for a configuration key.
+ */
+export type ConfigFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "string[]"
+  | "object[]";
+
+/**
+ * Describes the constraints applied to a single configuration key.
+ */
+export interface ConfigFieldSchema {
+  /**
+   * The expected type of the value.
+   */
+  type: ConfigFieldType;
+
+  /**
+   * Whether the key must be present with a defined value.
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * The minimum allowed value for numeric keys (inclusive).
+   */
+  min?: number;
+
+  /**
+   * The maximum allowed value for numeric keys (inclusive).
+   */
+  max?: number;
+
+  /**
+   * Whether a numeric value must be an integer.
+   * @default false
+   */
+  integer?: boolean;
+
+  /**
+   * The set of allowed values for the key.
+   */
+  values?: readonly (string | number)[];
+
+  /**
+   * A regular expression string values must match.
+   */
+  pattern?: RegExp;
+}
+
+/**
+ * A mapping of configuration keys to the constraints applied to them.
+ */
+export type ConfigSchema = { [key: string]: ConfigFieldSchema };
+
+/**
+ * Error raised when a configuration object does not satisfy its schema.
+ * All problems found are aggregated into a single error so they can be fixed at once.
+ */
+export class ConfigValidationError extends Error {
+  /**
+   * The individual validation problems that were found.
+   */
+  public readonly errors: string[];
+
+  /**
+   * Creates an instance of ConfigValidationError.
+   *
+   * @param configName - The name of the configuration class that failed validation.
+   * @param errors - The individual validation problems that were found.
+   */
+  constructor(configName: string, errors: string[]) {
+    super(
+      `Invalid ${configName}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * The valid Fargate task memory sizes (MiB) for each supported task CPU value.
+ * @see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/fargate-tasks-services.html#fargate-tasks-size
+ */
+const FARGATE_TASK_SIZES: { [cpu: number]: number[] } = {
+  256: [512, 1024, 2048],
+  512: range(1024, 4096, 1024),
+  1024: range(2048, 8192, 1024),
+  2048: range(4096, 16384, 1024),
+  4096: range(8192, 30720, 1024),
+  8192: range(16384, 61440, 4096),
+  16384: range(32768, 122880, 8192)
+};
+
+/**
+ * The valid Fargate task CPU values.
+ */
+export const FARGATE_TASK_CPU_VALUES: readonly number[] =
+  Object.keys(FARGATE_TASK_SIZES).map(Number);
+
+/**
+ * Validates a configuration object against a schema.
+ *
+ * @param schema - The schema describing the allowed keys.
+ * @param config - The configuration object to validate.
+ * @returns A list of validation problems, empty if the configuration is valid.
+ */
+export function validateConfigSchema(
+  schema: ConfigSchema,
+  config: { [key: string]: unknown }
+): string[] {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (!(key in schema)) {
+      const suggestion = closestKey(key, Object.keys(schema));
+      errors.push(
+        suggestion
+          ? `${key}: unknown configuration key (did you mean ${suggestion}?)`
+          : `${key}: unknown configuration key`
+      );
+    }
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = config[key];
+    if (value === undefined) {
+      if (field.required) {
+        errors.push(`${key}: a value is required`);
+      }
+      continue;
+    }
+    errors.push(...validateField(key, field, value));
+  }
+
+  return errors;
+}
+
+/**
+ * Validates that a Fargate task CPU and memory pair is supported.
+ *
+ * @param cpuKey - The configuration key holding the task CPU.
+ * @param cpu - The task CPU value.
+ * @param memoryKey - The configuration key holding the task memory.
+ * @param memory - The task memory value.
+ * @returns A list of validation problems, empty if the pair is valid.
+ */
+export function validateFargateTaskSize(
+  cpuKey: string,
+  cpu: unknown,
+  memoryKey: string,
+  memory: unknown
+): string[] {
+  if (typeof cpu !== "number" || typeof memory !== "number") {
+    return [];
+  }
+  const memoryValues = FARGATE_TASK_SIZES[cpu];
+  if (memoryValues === undefined) {
+    return [
+      `${cpuKey}: ${cpu} is not a valid Fargate task CPU value (expected one of ${FARGATE_TASK_CPU_VALUES.join(", ")})`
+    ];
+  }
+  if (!memoryValues.includes(memory)) {
+    return [
+      `${cpuKey}/${memoryKey}: ${memory} MiB is not a valid Fargate task memory for ${cpu} CPU units ` +
+        `(expected ${memoryValues[0]}-${memoryValues[memoryValues.length - 1]} in steps of ${memoryValues[1] - memoryValues[0]})`
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validates that a container resource allocation fits within its task allocation.
+ *
+ * @param containerKey - The configuration key holding the container allocation.
+ * @param container - The container allocation.
+ * @param taskKey - The configuration key holding the task allocation.
+ * @param task - The task allocation.
+ * @returns A list of validation problems, empty if the container fits within the task.
+ */
+export function validateContainerFitsTask(
+  containerKey: string,
+  container: unknown,
+  taskKey: string,
+  task: unknown
+): string[] {
+  if (typeof container !== "number" || typeof task !== "number") {
+    return [];
+  }
+  if (container > task) {
+    return [`${containerKey}: ${container} exceeds ${taskKey} (${task})`];
+  }
+  return [];
+}
+
+/**
+ * Validates that a lower bound does not exceed its upper bound.
+ *
+ * @param minKey - The configuration key holding the lower bound.
+ * @param min - The lower bound.
+ * @param maxKey - The configuration key holding the upper bound.
+ * @param max - The upper bound.
+ * @returns A list of validation problems, empty if the bounds are ordered.
+ */
+export function validateMinMax(
+  minKey: string,
+  min: unknown,
+  maxKey: string,
+  max: unknown
+): string[] {
+  if (typeof min !== "number" || typeof max !== "number") {
+    return [];
+  }
+  if (min > max) {
+    return [`${minKey}: ${min} exceeds ${maxKey} (${max})`];
+  }
+  return [];
+}
+
+/**
+ * Validates a single value against its field schema.
+ *
+ * @param key - The configuration key being validated.
+ * @param field - The schema for the key.
+ * @param value - The value to validate.
+ * @returns A list of validation problems for the key.
+ */
+function validateField(
+  key: string,
+  field: ConfigFieldSchema,
+  value: unknown
+): string[] {
+  if (!matchesType(field.type, value)) {
+    return [
+      `${key}: expected ${field.type} but received ${describeType(value)}`
+    ];
+  }
+
+  // Values resolved at deploy time can only be type checked
+  if (Token.isUnresolved(value)) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "number") {
+    if (field.integer && !Number.isInteger(value)) {
+      errors.push(`${key}: expected an integer but received ${value}`);
+    }
+    if (field.min !== undefined && value < field.min) {
+      errors.push(`${key}: ${value} is less than the minimum of ${field.min}`);
+    }
+    if (field.max !== undefined && value > field.max) {
+      errors.push(
+        `${key}: ${value} is greater than the maximum of ${field.max}`
+      );
+    }
+  }
+  if (
+    field.values &&
+    (typeof value === "string" || typeof value === "number") &&
+    !field.values.includes(value)
+  ) {
+    errors.push(
+      `${key}: ${JSON.stringify(value)} is not one of ${field.values
+        .map((v) => JSON.stringify(v))
+        .join(", ")}`
+    );
+  }
+  if (
+    field.pattern &&
+    typeof value === "string" &&
+    !field.pattern.test(value)
+  ) {
+    errors.push(
+      `${key}: ${JSON.stringify(value)} does not match ${field.pattern.toString()}`
+    );
+  }
+  return errors;
+}
+
+/**
+ * Checks whether a value matches a declared field type.
+ *
+ * @param type - The declared field type.
+ * @param value - The value to check.
+ * @returns True if the value matches the type.
+ */
+function matchesType(type: ConfigFieldType, value: unknown): boolean {
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "object[]":
+      return (
+        Array.isArray(value) && value.every((v) => matchesType("object", v))
+      );
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Describes the type of a value for use in error messages.
+ *
+ * @param value - The value to describe.
+ * @returns A short description of the value's type.
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Finds the known key closest to an unknown key, to suggest likely typos.
+ *
+ * @param key - The unknown key.
+ * @param knownKeys - The keys declared in the schema.
+ * @returns The closest known key, or undefined if none is close enough.
+ */
+function closestKey(key: string, knownKeys: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 5));
+  for (const candidate of knownKeys) {
+    const distance = editDistance(key, candidate);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The number of single character edits to turn `a` into `b`.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Builds an inclusive numeric range.
+ *
+ * @param start - The first value in the range.
+ * @param end - The last value in the range.
+ * @param step - The increment between values.
+ * @returns The values in the range.
+ */
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) {
+    values.push(value);
+  }
+  return values;
+}
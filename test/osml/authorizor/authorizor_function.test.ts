@@ -1,11 +1,24 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { App, Stack } from "aws-cdk-lib";
-import { Code } from "aws-cdk-lib/aws-lambda";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Repository } from "aws-cdk-lib/aws-ecr";
+import {
+  AssetCode,
+  Code,
+  DockerImageCode,
+  DockerImageFunction,
+  Function,
+  Runtime
+} from "aws-cdk-lib/aws-lambda";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 import { OSMLAuthorizer, OSMLVpc } from "../../../lib";
+import * as assetPath from "../../../lib/osml/utils/asset_path";
 import { test_account } from "../../test_account";
 
 describe("OSMLAuthorizer constructor", () => {
@@ -13,9 +26,29 @@ describe("OSMLAuthorizer constructor", () => {
   let stack: Stack;
   let authorizer: OSMLAuthorizer;
   let osmlVpc: OSMLVpc;
+  let bundleDir: string;
+
+  beforeAll(() => {
+    bundleDir = mkdtempSync(join(tmpdir(), "osml-authorizer-"));
+    writeFileSync(join(bundleDir, "lambda_function.py"), "");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
 
   describe("OSMLAuthorizer", () => {
+    let fromAsset: jest.SpyInstance<
+      AssetCode,
+      Parameters<typeof Code.fromAsset>
+    >;
+
     beforeAll(() => {
+      // Install dependencies in Docker as in a source checkout without a bundle
+      jest.spyOn(assetPath, "findPackagePath").mockReturnValue(undefined);
+      fromAsset = jest
+        .spyOn(Code, "fromAsset")
+        .mockImplementation(() => new AssetCode(bundleDir));
       app = new App();
       stack = new Stack(app, "OSMLAuthorizerStack");
       osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
@@ -31,12 +64,144 @@ describe("OSMLAuthorizer constructor", () => {
       });
     });
 
-    Object.defineProperty(Code, "fromAsset", {
-      value: () => Code.fromInline("inline code")
-    });
-
     it("ensure an authorizer exists", () => {
       expect(authorizer.authorizerFunction).toBeDefined();
+      const [path, options] = fromAsset.mock.calls[0];
+      expect(path).toMatch(/lib\/osml\/authorizer\/lambda$/);
+      expect(options).toHaveProperty("bundling");
+    });
+  });
+
+  describe("OSMLAuthorizer options", () => {
+    beforeEach(() => {
+      app = new App();
+      stack = new Stack(app, "OSMLAuthorizerOptionsStack");
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+        account: test_account
+      });
+    });
+
+    it("passes the token validation settings to the authorizer", () => {
+      const fromAsset = jest.spyOn(Code, "fromAsset");
+      const bundledAuthorizer = new OSMLAuthorizer(
+        stack,
+        "TestOSMLAuthorizer",
+        {
+          auth: {
+            authority: "https://example.com/authority",
+            audience: "example-audience",
+            jwksCacheTtlSeconds: 600,
+            algorithms: ["RS256", "ES256"],
+            requiredClaims: ["exp", "iat"],
+            clockSkewSeconds: 30,
+            bundlePath: bundleDir
+          },
+          name: "example-authorizer",
+          osmlVpc: osmlVpc
+        }
+      );
+
+      expect(bundledAuthorizer.authorizerFunction).toBeInstanceOf(Function);
+      expect(fromAsset).toHaveBeenCalledWith(bundleDir);
+      Template.fromStack(stack).hasResourceProperties("AWS::Lambda::Function", {
+        Environment: {
+          Variables: Match.objectLike({
+            JWKS_CACHE_TTL_SECONDS: "600",
+            ALGORITHMS: "RS256,ES256",
+            REQUIRED_CLAIMS: "exp,iat",
+            CLOCK_SKEW_SECONDS: "30"
+          })
+        }
+      });
+    });
+
+    it("deploys the bundle shipped with the package", () => {
+      const findPackagePath = jest
+        .spyOn(assetPath, "findPackagePath")
+        .mockReturnValue(bundleDir);
+      const fromAsset = jest.spyOn(Code, "fromAsset");
+      new OSMLAuthorizer(stack, "TestOSMLAuthorizer", {
+        auth: {
+          authority: "https://example.com/authority",
+          audience: "example-audience"
+        },
+        name: "example-authorizer",
+        osmlVpc: osmlVpc
+      });
+
+      expect(findPackagePath).toHaveBeenCalledWith("dist/authorizer");
+      expect(fromAsset).toHaveBeenCalledWith(bundleDir);
+    });
+
+    it("uses a provided authorizer function", () => {
+      const authorizerFunction = new Function(stack, "CustomAuthorizer", {
+        runtime: Runtime.PYTHON_3_11,
+        code: Code.fromInline("inline code"),
+        handler: "index.handler"
+      });
+      const customAuthorizer = new OSMLAuthorizer(stack, "TestOSMLAuthorizer", {
+        auth: {
+          authority: "https://example.com/authority",
+          audience: "example-audience",
+          authorizerFunction: authorizerFunction
+        },
+        name: "example-authorizer",
+        osmlVpc: osmlVpc
+      });
+
+      expect(customAuthorizer.authorizerFunction).toBe(authorizerFunction);
+      Template.fromStack(stack).resourceCountIs("AWS::Lambda::Function", 1);
+    });
+
+    it("runs a provided authorizer image", () => {
+      const imageAuthorizer = new OSMLAuthorizer(stack, "TestOSMLAuthorizer", {
+        auth: {
+          authority: "https://example.com/authority",
+          audience: "example-audience",
+          authorizerImage: DockerImageCode.fromEcr(
+            Repository.fromRepositoryName(stack, "Repository", "authorizer")
+          )
+        },
+        name: "example-authorizer",
+        osmlVpc: osmlVpc
+      });
+
+      expect(imageAuthorizer.authorizerFunction).toBeInstanceOf(
+        DockerImageFunction
+      );
+      Template.fromStack(stack).hasResourceProperties("AWS::Lambda::Function", {
+        PackageType: "Image",
+        Environment: {
+          Variables: Match.objectLike({ ALGORITHMS: "RS256" })
+        }
+      });
+    });
+
+    it("rejects conflicting authorizer sources and unsigned tokens", () => {
+      const auth = {
+        authority: "https://example.com/authority",
+        audience: "example-audience"
+      };
+      expect(
+        () =>
+          new OSMLAuthorizer(stack, "ConflictingAuthorizer", {
+            auth: {
+              ...auth,
+              bundlePath: bundleDir,
+              authorizerImage: DockerImageCode.fromImageAsset("docker")
+            },
+            name: "example-authorizer",
+            osmlVpc: osmlVpc
+          })
+      ).toThrow(/only one of/);
+      expect(
+        () =>
+          new OSMLAuthorizer(stack, "UnsignedAuthorizer", {
+            auth: { ...auth, algorithms: ["none"] },
+            name: "example-authorizer",
+            osmlVpc: osmlVpc
+          })
+      ).toThrow(/unsigned/);
     });
   });
 });
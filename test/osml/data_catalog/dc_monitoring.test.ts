@@ -0,0 +1,41 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import { DCDataplane, DCDataplaneConfig, OSMLVpc } from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("DCMonitoring constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  beforeAll(() => {
+    app = new App();
+    stack = new Stack(app, "DCMonitoringStack");
+
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("builds the dashboard when monitoring is enabled", () => {
+    const dcDataplane = new DCDataplane(stack, "DCDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new DCDataplaneConfig({
+        LAMBDA_SECURITY_GROUP_ID: "test-security-group-id",
+        DC_ENABLE_MONITORING: true
+      })
+    });
+
+    expect(dcDataplane.monitoring?.dcDashboard).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudWatch::Dashboard",
+      { DashboardName: "OSML-DataCatalog" }
+    );
+  });
+});
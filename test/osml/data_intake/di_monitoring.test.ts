@@ -0,0 +1,41 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import { DIDataplane, DIDataplaneConfig, OSMLVpc } from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("DIMonitoring constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  beforeAll(() => {
+    app = new App();
+    stack = new Stack(app, "DIMonitoringStack");
+
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("builds the dashboard when monitoring is enabled", () => {
+    const diDataplane = new DIDataplane(stack, "DIDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new DIDataplaneConfig({
+        LAMBDA_SECURITY_GROUP_ID: "test-security-group-id",
+        DI_ENABLE_MONITORING: true
+      })
+    });
+
+    expect(diDataplane.monitoring?.diDashboard).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudWatch::Dashboard",
+      { DashboardName: "OSML-DataIntake" }
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+
+import {
+  ConfigValidationError,
+  MEHTTPEndpointConfig,
+  MESMEndpointConfig,
+  ModelEndpointRegistry,
+  ModelEndpointRegistryConfig,
+  OSMLContainer,
+  OSMLVpc
+} from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("ModelEndpointRegistry constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+  let invokeRole: Role;
+
+  const buildContainer = (id: string): OSMLContainer =>
+    new OSMLContainer(stack, id, {
+      account: test_account,
+      config: { CONTAINER_URI: `${id.toLowerCase()}:latest` }
+    });
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "ModelEndpointRegistryStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+    invokeRole = new Role(stack, "MRTaskRole", {
+      assumedBy: new ServicePrincipal("ecs-tasks.amazonaws.com")
+    });
+  });
+
+  it("deploys each model on its backend and publishes a manifest", () => {
+    const registry = new ModelEndpointRegistry(stack, "Registry", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      invokeRole: invokeRole,
+      models: [
+        {
+          name: "aircraft",
+          backend: "sagemaker",
+          container: buildContainer("Aircraft"),
+          instanceType: "ml.g4dn.xlarge",
+          containerEnv: { MODEL_SELECTION: "aircraft" },
+          scaling: { minCapacity: 1, maxCapacity: 3 }
+        },
+        {
+          name: "centerpoint",
+          backend: "http",
+          container: buildContainer("Centerpoint"),
+          scaling: { minCapacity: 1, maxCapacity: 2 }
+        }
+      ],
+      config: new ModelEndpointRegistryConfig({
+        SECURITY_GROUP_ID: "test-security-group-id"
+      })
+    });
+
+    expect(Object.keys(registry.sageMakerEndpoints)).toEqual(["aircraft"]);
+    expect(Object.keys(registry.httpEndpoints)).toEqual(["centerpoint"]);
+    expect(registry.manifest.aircraft.backend).toBe("sagemaker");
+    expect(registry.manifest.centerpoint.backend).toBe("http");
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::SageMaker::EndpointConfig", {
+      ProductionVariants: [Match.objectLike({ InstanceType: "ml.g4dn.xlarge" })]
+    });
+    template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 2);
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: "/osml/model-endpoints"
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: [
+              "sagemaker:InvokeEndpoint",
+              "sagemaker:InvokeEndpointAsync"
+            ],
+            Resource: {
+              "Fn::Join": ["", Match.arrayWith([":endpoint/aircraft"])]
+            }
+          })
+        ])
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp("MRTaskRole") }]
+    });
+  });
+
+  it("keeps the configured SageMaker container environment without a spec environment", () => {
+    const registry = new ModelEndpointRegistry(stack, "Registry", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      models: [
+        {
+          name: "aircraft",
+          backend: "sagemaker",
+          container: buildContainer("Aircraft"),
+          sageMakerConfig: new MESMEndpointConfig({
+            CONTAINER_ENV: { MODEL_SELECTION: "aircraft" }
+          })
+        }
+      ]
+    });
+
+    expect(registry.sageMakerEndpoints.aircraft.config.CONTAINER_ENV).toEqual({
+      MODEL_SELECTION: "aircraft"
+    });
+  });
+
+  it("serves HTTP models over HTTPS and SigV4 with their own settings", () => {
+    const registry = new ModelEndpointRegistry(stack, "Registry", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      invokeRole: invokeRole,
+      models: [
+        {
+          name: "centerpoint",
+          backend: "http",
+          container: buildContainer("Centerpoint"),
+          tls: {
+            domainName: "centerpoint.example.com",
+            certificateArn:
+              "arn:aws:acm:us-west-2:123456789012:certificate/test-certificate"
+          }
+        },
+        {
+          name: "flood",
+          backend: "http",
+          container: buildContainer("Flood"),
+          httpConfig: new MEHTTPEndpointConfig({ AUTH_MODE: "iam" })
+        }
+      ]
+    });
+
+    expect(registry.manifest.centerpoint.endpoint).toBe(
+      "https://centerpoint.example.com"
+    );
+    expect(registry.manifest.flood.endpoint).toBe(
+      registry.httpEndpoints.flood.api?.apiEndpoint
+    );
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Protocol: "HTTPS"
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: "execute-api:Invoke" })
+        ])
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp("MRTaskRole") }]
+    });
+  });
+
+  it("rejects HTTP model names that are not valid load balancer names", () => {
+    expect(
+      () =>
+        new ModelEndpointRegistry(stack, "Registry", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          models: [
+            {
+              name: "a-model-name-that-is-too-long",
+              backend: "http",
+              container: buildContainer("Centerpoint")
+            }
+          ]
+        })
+    ).toThrow(/at most 23/);
+  });
+
+  it("rejects duplicate model names", () => {
+    const container = buildContainer("Aircraft");
+    expect(
+      () =>
+        new ModelEndpointRegistry(stack, "Registry", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          models: [
+            { name: "aircraft", backend: "sagemaker", container: container },
+            { name: "aircraft", backend: "http", container: container }
+          ]
+        })
+    ).toThrow(/must be unique/);
+  });
+
+  it("rejects an invalid HTTP task size", () => {
+    expect(
+      () =>
+        new ModelEndpointRegistryConfig({ HTTP_CPU: 1024, HTTP_MEMORY: 512 })
+    ).toThrow(ConfigValidationError);
+  });
+});
@@ -0,0 +1,274 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { ContainerImage } from "aws-cdk-lib/aws-ecs";
+import { Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+
+import {
+  ConfigValidationError,
+  MEHTTPEndpoint,
+  MEHTTPEndpointConfig,
+  OSMLTls,
+  OSMLVpc
+} from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("MEHTTPEndpoint constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+  let role: Role;
+
+  const certificateArn =
+    "arn:aws:acm:us-west-2:123456789012:certificate/test-certificate";
+
+  const buildEndpoint = (
+    config?: MEHTTPEndpointConfig,
+    tls?: OSMLTls
+  ): MEHTTPEndpoint =>
+    new MEHTTPEndpoint(stack, "HTTPEndpoint", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      image: ContainerImage.fromRegistry("test-image:latest"),
+      clusterName: "test-cluster",
+      role: role,
+      memory: 8192,
+      cpu: 2048,
+      hostPort: 8080,
+      containerPort: 8080,
+      healthcheckPath: "/ping",
+      loadBalancerName: "test-endpoint",
+      securityGroupId: "test-security-group-id",
+      tls: tls,
+      config: config
+    });
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "MEHTTPEndpointStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+    role = new Role(stack, "TaskRole", {
+      assumedBy: new ServicePrincipal("ecs-tasks.amazonaws.com")
+    });
+  });
+
+  it("applies the health check and deregistration settings", () => {
+    const endpoint = buildEndpoint(
+      new MEHTTPEndpointConfig({
+        DEREGISTRATION_DELAY_SECONDS: 30,
+        HEALTHCHECK_HEALTHY_THRESHOLD: 3
+      })
+    );
+
+    expect(endpoint.scalableTaskCount).toBeUndefined();
+    expect(endpoint.api).toBeUndefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::TargetGroup",
+      {
+        HealthCheckPath: "/ping",
+        HealthyThresholdCount: 3,
+        UnhealthyThresholdCount: 2,
+        TargetGroupAttributes: Match.arrayWith([
+          { Key: "deregistration_delay.timeout_seconds", Value: "30" }
+        ])
+      }
+    );
+  });
+
+  it("scales on request count and CPU utilization", () => {
+    const endpoint = buildEndpoint(
+      new MEHTTPEndpointConfig({
+        AUTOSCALING_ENABLED: true,
+        AUTOSCALING_MIN_CAPACITY: 2,
+        AUTOSCALING_MAX_CAPACITY: 6
+      })
+    );
+
+    expect(endpoint.scalableTaskCount).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      { MinCapacity: 2, MaxCapacity: 6 }
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+          PredefinedMetricSpecification: Match.objectLike({
+            PredefinedMetricType: "ALBRequestCountPerTarget"
+          }),
+          TargetValue: 100
+        })
+      }
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+          PredefinedMetricSpecification: {
+            PredefinedMetricType: "ECSServiceAverageCPUUtilization"
+          },
+          TargetValue: 70
+        })
+      }
+    );
+  });
+
+  it("requires client certificates in mtls mode", () => {
+    const endpoint = buildEndpoint(
+      new MEHTTPEndpointConfig({
+        CERTIFICATE_ARN: certificateArn,
+        AUTH_MODE: "mtls",
+        MTLS_TRUST_STORE_ARN:
+          "arn:aws:elasticloadbalancing:us-west-2:123456789012:truststore/test/1"
+      })
+    );
+
+    expect(endpoint.certificate).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::Listener",
+      {
+        Protocol: "HTTPS",
+        Port: 443,
+        MutualAuthentication: {
+          Mode: "verify",
+          TrustStoreArn: Match.stringLikeRegexp("truststore")
+        }
+      }
+    );
+  });
+
+  it("rejects mtls mode without a certificate", () => {
+    expect(() =>
+      buildEndpoint(new MEHTTPEndpointConfig({ AUTH_MODE: "mtls" }))
+    ).toThrow(/CERTIFICATE_ARN/);
+  });
+
+  it("fronts the endpoint with a SigV4 protected API in iam mode", () => {
+    const endpoint = buildEndpoint(
+      new MEHTTPEndpointConfig({ AUTH_MODE: "iam" })
+    );
+    endpoint.grantInvoke(role);
+
+    expect(endpoint.api).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+      RouteKey: "$default",
+      AuthorizationType: "AWS_IAM"
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: "execute-api:Invoke" })
+        ])
+      }
+    });
+  });
+
+  it("admits only the SigV4 API's VPC link to the load balancer in iam mode", () => {
+    buildEndpoint(new MEHTTPEndpointConfig({ AUTH_MODE: "iam" }));
+
+    const template = Template.fromStack(stack);
+    const loadBalancerGroups = template.findResources(
+      "AWS::EC2::SecurityGroup",
+      {
+        Properties: {
+          GroupDescription: Match.stringLikeRegexp("HTTPEndpointServiceLB")
+        }
+      }
+    );
+    expect(Object.keys(loadBalancerGroups)).toHaveLength(1);
+    // An open listener would admit 0.0.0.0/0 through an inline CIDR rule
+    template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      GroupDescription: Match.stringLikeRegexp("HTTPEndpointServiceLB"),
+      SecurityGroupIngress: Match.absent()
+    });
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      GroupId: {
+        "Fn::GetAtt": [Object.keys(loadBalancerGroups)[0], "GroupId"]
+      },
+      FromPort: 80,
+      SourceSecurityGroupId: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("HTTPEndpointVpcLinkSecurityGroup"),
+          "GroupId"
+        ]
+      }
+    });
+    template.hasResourceProperties("AWS::ApiGatewayV2::VpcLink", {
+      SecurityGroupIds: [
+        {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("HTTPEndpointVpcLinkSecurityGroup"),
+            "GroupId"
+          ]
+        }
+      ]
+    });
+  });
+
+  it("serves only HTTPS with a private CA certificate", () => {
+    const endpoint = buildEndpoint(
+      new MEHTTPEndpointConfig({ AUTH_MODE: "iam" }),
+      {
+        domainName: "model.example.com",
+        certificateAuthorityArn:
+          "arn:aws:acm-pca:us-west-2:123456789012:certificate-authority/test",
+        redirectHttp: false
+      }
+    );
+
+    expect(endpoint.certificate).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CertificateManager::Certificate", {
+      DomainName: "model.example.com",
+      CertificateAuthorityArn: Match.stringLikeRegexp("certificate-authority")
+    });
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::Listener", 1);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Protocol: "HTTPS",
+      Port: 443
+    });
+    template.hasResourceProperties("AWS::ApiGatewayV2::Integration", {
+      TlsConfig: { ServerNameToVerify: "model.example.com" }
+    });
+  });
+
+  it("records the TLS domain name in the configured hosted zone", () => {
+    const endpoint = buildEndpoint(undefined, {
+      domainName: "model.example.com",
+      certificateArn: certificateArn,
+      hostedZoneId: "Z0123456789ABCDEFGHIJ"
+    });
+
+    expect(endpoint.certificate).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: "model.example.com.",
+      Type: "A",
+      AliasTarget: Match.objectLike({
+        DNSName: Match.anyValue()
+      })
+    });
+  });
+
+  it("rejects TLS without exactly one certificate source", () => {
+    expect(() =>
+      buildEndpoint(undefined, { domainName: "model.example.com" })
+    ).toThrow(/certificateArn/);
+  });
+
+  it("rejects a health check timeout longer than the interval", () => {
+    expect(
+      () =>
+        new MEHTTPEndpointConfig({
+          HEALTHCHECK_INTERVAL_SECONDS: 10,
+          HEALTHCHECK_TIMEOUT_SECONDS: 10
+        })
+    ).toThrow(ConfigValidationError);
+  });
+});
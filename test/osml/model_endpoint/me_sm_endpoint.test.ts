@@ -0,0 +1,390 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Alarm, Metric } from "aws-cdk-lib/aws-cloudwatch";
+
+import {
+  ConfigValidationError,
+  MESMEndpoint,
+  MESMEndpointConfig,
+  OSMLContainer
+} from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("MESMEndpoint constructor", () => {
+  let app: App;
+  let stack: Stack;
+
+  const endpointProps = {
+    roleArn: "arn:aws:iam::123456789012:role/test-role",
+    containerImageUri: "test-image:latest",
+    modelName: "test-model",
+    instanceType: "ml.m5.xlarge",
+    subnetIds: ["subnet-1", "subnet-2"]
+  };
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "MESMEndpointStack");
+  });
+
+  it("builds a single variant by default", () => {
+    const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      config: new MESMEndpointConfig({ SECURITY_GROUP_ID: "sg-1" })
+    });
+
+    expect(endpoint.models).toHaveLength(1);
+    expect(endpoint.model).toBe(endpoint.models[0]);
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::SageMaker::EndpointConfig", {
+      ProductionVariants: [
+        Match.objectLike({ VariantName: "AllTraffic", InitialVariantWeight: 1 })
+      ]
+    });
+    template.hasResourceProperties("AWS::SageMaker::Endpoint", {
+      DeploymentConfig: Match.absent()
+    });
+  });
+
+  it("builds weighted variants with a canary deployment", () => {
+    const alarm = new Alarm(stack, "ErrorAlarm", {
+      metric: new Metric({ namespace: "Test", metricName: "Errors" }),
+      threshold: 1,
+      evaluationPeriods: 1
+    });
+    const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      variants: [
+        { variantName: "Current", initialVariantWeight: 9 },
+        {
+          variantName: "Candidate",
+          containerImageUri: "test-image:candidate",
+          instanceType: "ml.g4dn.xlarge",
+          initialVariantWeight: 1
+        }
+      ],
+      rollbackAlarms: [alarm],
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        DEPLOYMENT_STRATEGY: "CANARY",
+        TRAFFIC_STEP_PERCENT: 20,
+        ROLLBACK_ALARM_NAMES: ["existing-alarm"]
+      })
+    });
+
+    expect(endpoint.models).toHaveLength(2);
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::SageMaker::Model", 2);
+    template.hasResourceProperties("AWS::SageMaker::EndpointConfig", {
+      ProductionVariants: [
+        Match.objectLike({ VariantName: "Current", InitialVariantWeight: 9 }),
+        Match.objectLike({
+          VariantName: "Candidate",
+          InstanceType: "ml.g4dn.xlarge",
+          InitialVariantWeight: 1
+        })
+      ]
+    });
+    template.hasResourceProperties("AWS::SageMaker::Endpoint", {
+      DeploymentConfig: {
+        BlueGreenUpdatePolicy: {
+          TrafficRoutingConfiguration: {
+            Type: "CANARY",
+            CanarySize: { Type: "CAPACITY_PERCENT", Value: 20 },
+            WaitIntervalInSeconds: 300
+          }
+        },
+        AutoRollbackConfiguration: {
+          Alarms: [
+            { AlarmName: "existing-alarm" },
+            { AlarmName: { Ref: Match.anyValue() } }
+          ]
+        }
+      }
+    });
+  });
+
+  it("rejects duplicate variant names", () => {
+    expect(
+      () =>
+        new MESMEndpoint(stack, "TestEndpoint", {
+          ...endpointProps,
+          variants: [{ variantName: "A" }, { variantName: "A" }],
+          config: new MESMEndpointConfig({ SECURITY_GROUP_ID: "sg-1" })
+        })
+    ).toThrow(/must be unique/);
+  });
+
+  it("rejects a linear step below the SageMaker minimum", () => {
+    expect(
+      () =>
+        new MESMEndpointConfig({
+          DEPLOYMENT_STRATEGY: "LINEAR",
+          TRAFFIC_STEP_PERCENT: 5
+        })
+    ).toThrow(ConfigValidationError);
+  });
+
+  it("scales each variant when autoscaling is enabled", () => {
+    const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        AUTOSCALING_ENABLED: true,
+        AUTOSCALING_MAX_CAPACITY: 8,
+        AUTOSCALING_LATENCY_THRESHOLD_MS: 500,
+        AUTOSCALING_SCHEDULES: [
+          { schedule: "cron(0 8 ? * MON-FRI *)", minCapacity: 4 }
+        ]
+      })
+    });
+
+    expect(endpoint.scalableTargets).toHaveLength(1);
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      {
+        ServiceNamespace: "sagemaker",
+        ScalableDimension: "sagemaker:variant:DesiredInstanceCount",
+        MinCapacity: 1,
+        MaxCapacity: 8,
+        ScheduledActions: [
+          Match.objectLike({
+            Schedule: "cron(0 8 ? * MON-FRI *)",
+            ScalableTargetAction: { MinCapacity: 4 }
+          })
+        ]
+      }
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        PolicyType: "TargetTrackingScaling",
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+          PredefinedMetricSpecification: {
+            PredefinedMetricType: "SageMakerVariantInvocationsPerInstance"
+          },
+          TargetValue: 100
+        })
+      }
+    );
+    // Latency only scales out, so it cannot undo the target tracking policy
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        PolicyType: "StepScaling",
+        StepScalingPolicyConfiguration: Match.objectLike({
+          Cooldown: 60,
+          StepAdjustments: [
+            Match.objectLike({ ScalingAdjustment: 1 }),
+            Match.objectLike({ ScalingAdjustment: 2 })
+          ]
+        })
+      }
+    );
+    template.resourceCountIs("AWS::CloudWatch::Alarm", 1);
+  });
+
+  it("rejects inverted autoscaling limits", () => {
+    expect(
+      () =>
+        new MESMEndpointConfig({
+          AUTOSCALING_MIN_CAPACITY: 5,
+          AUTOSCALING_MAX_CAPACITY: 2
+        })
+    ).toThrow(/AUTOSCALING_MIN_CAPACITY/);
+  });
+
+  it("builds an async endpoint that can scale to zero", () => {
+    const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      account: test_account,
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        ENDPOINT_MODE: "async",
+        AUTOSCALING_ENABLED: true,
+        AUTOSCALING_MIN_CAPACITY: 0
+      })
+    });
+
+    expect(endpoint.asyncOutputBucket).toBeDefined();
+    expect(endpoint.asyncSuccessTopic).toBeDefined();
+    expect(endpoint.asyncErrorTopic).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::SageMaker::EndpointConfig", {
+      AsyncInferenceConfig: {
+        OutputConfig: Match.objectLike({
+          NotificationConfig: {
+            SuccessTopic: Match.anyValue(),
+            ErrorTopic: Match.anyValue()
+          }
+        })
+      }
+    });
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      { MinCapacity: 0 }
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      { PolicyType: "StepScaling" }
+    );
+  });
+
+  it("lets the endpoint role publish to the encrypted async topics", () => {
+    new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      account: test_account,
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        ENDPOINT_MODE: "async"
+      })
+    });
+
+    const template = Template.fromStack(stack);
+    const keys = template.findResources("AWS::KMS::Key");
+    expect(Object.keys(keys)).toHaveLength(2);
+    for (const keyId of Object.keys(keys)) {
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ["kms:GenerateDataKey*", "kms:Decrypt"],
+              Resource: { "Fn::GetAtt": [keyId, "Arn"] }
+            })
+          ])
+        }
+      });
+    }
+  });
+
+  it("builds a valid async output bucket name for any model name", () => {
+    new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      modelName: `My_Model-${"x".repeat(60)}`,
+      account: test_account,
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        ENDPOINT_MODE: "async"
+      })
+    });
+
+    const buckets = Template.fromStack(stack).findResources("AWS::S3::Bucket", {
+      Properties: { BucketName: Match.stringLikeRegexp("^me-async-output") }
+    });
+    const bucketNames = Object.values(buckets).map(
+      (bucket) => (bucket.Properties as { BucketName: string }).BucketName
+    );
+    // The output bucket and its access logs bucket
+    expect(bucketNames).toHaveLength(2);
+    for (const bucketName of bucketNames) {
+      expect(bucketName).toMatch(/^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/);
+      expect(bucketName.length).toBeLessThanOrEqual(63);
+      expect(bucketName).toContain("-my-model-x");
+    }
+    expect(bucketNames).toContain(
+      `me-async-output-my-model-${"x".repeat(13)}-123456789012-access-logs`
+    );
+    expect(
+      () =>
+        new MESMEndpointConfig({ ASYNC_OUTPUT_BUCKET_PREFIX: "Async_Output" })
+    ).toThrow(ConfigValidationError);
+  });
+
+  it("builds a serverless endpoint", () => {
+    const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+      ...endpointProps,
+      config: new MESMEndpointConfig({
+        SECURITY_GROUP_ID: "sg-1",
+        ENDPOINT_MODE: "serverless",
+        SERVERLESS_MEMORY_SIZE_MB: 4096
+      })
+    });
+
+    expect(endpoint.scalableTargets).toBeUndefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::SageMaker::EndpointConfig",
+      {
+        ProductionVariants: [
+          Match.objectLike({
+            InstanceType: Match.absent(),
+            ServerlessConfig: { MemorySizeInMB: 4096, MaxConcurrency: 5 }
+          })
+        ]
+      }
+    );
+  });
+
+  it("rejects options the endpoint mode does not support", () => {
+    expect(
+      () =>
+        new MESMEndpointConfig({
+          ENDPOINT_MODE: "serverless",
+          AUTOSCALING_ENABLED: true
+        })
+    ).toThrow(/serverless endpoints scale automatically/);
+    expect(
+      () => new MESMEndpointConfig({ AUTOSCALING_MIN_CAPACITY: 0 })
+    ).toThrow(/only supported when ENDPOINT_MODE is async/);
+  });
+
+  describe("with multiple containers", () => {
+    const buildContainer = (id: string): OSMLContainer =>
+      new OSMLContainer(stack, id, {
+        account: test_account,
+        config: { CONTAINER_URI: `${id.toLowerCase()}:latest` }
+      });
+
+    it("builds a serial inference pipeline", () => {
+      const endpoint = new MESMEndpoint(stack, "TestEndpoint", {
+        ...endpointProps,
+        containers: [
+          { container: buildContainer("Preprocess") },
+          {
+            container: buildContainer("Detector"),
+            containerEnv: { MODEL_SELECTION: "aircraft" }
+          },
+          { container: buildContainer("Postprocess") }
+        ],
+        config: new MESMEndpointConfig({ SECURITY_GROUP_ID: "sg-1" })
+      });
+
+      expect(endpoint.models).toHaveLength(1);
+      Template.fromStack(stack).hasResourceProperties("AWS::SageMaker::Model", {
+        Containers: [
+          Match.objectLike({ Image: "preprocess:latest" }),
+          Match.objectLike({
+            Image: "detector:latest",
+            Environment: { MODEL_SELECTION: "aircraft" }
+          }),
+          Match.objectLike({ Image: "postprocess:latest" })
+        ],
+        InferenceExecutionConfig: { Mode: "Serial" }
+      });
+    });
+
+    it("requires hostnames in direct mode", () => {
+      expect(
+        () =>
+          new MESMEndpoint(stack, "TestEndpoint", {
+            ...endpointProps,
+            containers: [
+              {
+                container: buildContainer("First"),
+                containerHostname: "first"
+              },
+              { container: buildContainer("Second") }
+            ],
+            config: new MESMEndpointConfig({
+              SECURITY_GROUP_ID: "sg-1",
+              INFERENCE_EXECUTION_MODE: "Direct"
+            })
+          })
+      ).toThrow(/containerHostname/);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+import { Code } from "aws-cdk-lib/aws-lambda";
+import { Topic } from "aws-cdk-lib/aws-sns";
+
+import {
+  MRDataplane,
+  MRDataplaneConfig,
+  MRDCBridge,
+  MRDCBridgeConfig,
+  OSMLVpc
+} from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("MRDCBridge constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  Object.defineProperty(Code, "fromAsset", {
+    value: () => Code.fromInline("inline code")
+  });
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "MRDCBridgeStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("publishes completed image results to the ingest topic", () => {
+    const mrDataplane = new MRDataplane(stack, "MRDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new MRDataplaneConfig({
+        ECS_SECURITY_GROUP_ID: "test-security-group-id"
+      })
+    });
+    const bridge = new MRDCBridge(stack, "MRDCBridge", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      mrDataplane: mrDataplane,
+      ingestTopic: new Topic(stack, "IngestTopic"),
+      config: new MRDCBridgeConfig({
+        LAMBDA_SECURITY_GROUP_ID: "test-security-group-id"
+      })
+    });
+
+    expect(bridge.bridgeFunction).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "lambda",
+      FilterPolicy: { status: ["SUCCESS", "PARTIAL"] }
+    });
+  });
+
+  it("requires the S3 sink to be enabled", () => {
+    const mrDataplane = new MRDataplane(stack, "MRDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new MRDataplaneConfig({
+        ECS_SECURITY_GROUP_ID: "test-security-group-id",
+        MR_ENABLE_S3_SINK: false
+      })
+    });
+
+    expect(
+      () =>
+        new MRDCBridge(stack, "MRDCBridge", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          mrDataplane: mrDataplane,
+          ingestTopic: new Topic(stack, "IngestTopic")
+        })
+    ).toThrow(/MR_ENABLE_S3_SINK/);
+  });
+});
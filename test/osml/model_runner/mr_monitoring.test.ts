@@ -1,10 +1,17 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Topic } from "aws-cdk-lib/aws-sns";
 
-import { MRDataplane, MRMonitoring, OSMLVpc } from "../../../lib";
+import {
+  MRDataplane,
+  MRDataplaneConfig,
+  MRMonitoring,
+  OSMLVpc
+} from "../../../lib";
 import { test_account } from "../../test_account";
 
 describe("OSMLMonitoring constructor", () => {
@@ -42,5 +49,95 @@ describe("OSMLMonitoring constructor", () => {
     it("is dashboard with default widgets defined", () => {
       expect(mrMonitoring.mrDashboard).toBeDefined();
     });
+
+    it("does not build alarms by default", () => {
+      expect(mrMonitoring.alarms).toHaveLength(0);
+      expect(mrMonitoring.unhealthyAlarm).toBeUndefined();
+    });
+  });
+
+  describe("MRMonitoring alarms", () => {
+    beforeAll(() => {
+      app = new App();
+      stack = new Stack(app, "MRMonitoringAlarmsStack");
+
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+        account: test_account
+      });
+
+      mrDataplane = new MRDataplane(stack, "MRDataplane", {
+        account: test_account,
+        osmlVpc: osmlVpc,
+        alarmTopic: new Topic(stack, "AlarmTopic"),
+        config: new MRDataplaneConfig({
+          MR_ENABLE_ALARMS: true,
+          MR_ALARM_MODEL_NAMES: ["centerpoint"]
+        })
+      });
+    });
+
+    it("builds alarms routed to the alarm topic", () => {
+      expect(mrDataplane.monitoring?.alarms).toHaveLength(6);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "ApproximateAgeOfOldestMessage",
+        Threshold: 3600,
+        AlarmActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }]
+      });
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        ComparisonOperator: "LessThanThreshold",
+        TreatMissingData: "breaching"
+      });
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        Metrics: Match.arrayWith([
+          Match.objectLike({
+            Expression: "IF(invocations > 0, 100 * errors / invocations, 0)"
+          })
+        ])
+      });
+      template.hasResourceProperties("AWS::CloudWatch::CompositeAlarm", {
+        AlarmName: Match.stringLikeRegexp(
+          "^MRMonitoringAlarmsStackMRDataplane"
+        ),
+        AlarmActions: Match.absent()
+      });
+    });
+
+    it("notifies only from the composite alarm when configured", () => {
+      const compositeStack = new Stack(new App(), "MRMonitoringCompositeStack");
+      new MRDataplane(compositeStack, "MRDataplane", {
+        account: test_account,
+        osmlVpc: new OSMLVpc(compositeStack, "OSMLVpc", {
+          account: test_account
+        }),
+        alarmTopic: new Topic(compositeStack, "AlarmTopic"),
+        config: new MRDataplaneConfig({
+          MR_ENABLE_ALARMS: true,
+          MR_ALARM_NOTIFICATIONS: "composite"
+        })
+      });
+
+      const template = Template.fromStack(compositeStack);
+      const alarms = template.findResources("AWS::CloudWatch::Alarm", {
+        Properties: {
+          AlarmDescription: Match.stringLikeRegexp("model runner"),
+          AlarmActions: Match.absent()
+        }
+      });
+      expect(Object.keys(alarms)).toHaveLength(4);
+      template.hasResourceProperties("AWS::CloudWatch::CompositeAlarm", {
+        AlarmActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }]
+      });
+    });
+
+    it("requires monitoring to build alarms", () => {
+      expect(
+        () =>
+          new MRDataplaneConfig({
+            MR_ENABLE_ALARMS: true,
+            MR_ENABLE_MONITORING: false
+          })
+      ).toThrow(/MR_ENABLE_MONITORING/);
+    });
   });
 });
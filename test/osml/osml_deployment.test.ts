@@ -0,0 +1,80 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+
+import {
+  DCDataplaneConfig,
+  OSMLDeployment,
+  OSMLDeploymentConfig
+} from "../../lib";
+import { test_account } from "../test_account";
+
+describe("OSMLDeployment constructor", () => {
+  let app: App;
+  let stack: Stack;
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "OSMLDeploymentStack");
+  });
+
+  it("deploys and wires the enabled dataplanes", () => {
+    const deployment = new OSMLDeployment(stack, "OSMLDeployment", {
+      account: test_account,
+      config: new OSMLDeploymentConfig({
+        DEPLOY_MODEL_RUNNER: false,
+        DEPLOY_TILE_SERVER: false,
+        SECURITY_GROUP_ID: "test-security-group-id"
+      }),
+      dcConfig: new DCDataplaneConfig({ LAMBDA_MEMORY_SIZE: 2048 })
+    });
+
+    expect(deployment.osmlVpc).toBeDefined();
+    expect(deployment.modelRunner).toBeUndefined();
+    expect(deployment.tileServer).toBeUndefined();
+    expect(deployment.testEndpoints).toBeUndefined();
+    expect(deployment.dataCatalog?.ingestTopic).toBe(
+      deployment.dataIntake?.stacTopic
+    );
+    expect(deployment.dataIntake?.config.LAMBDA_SECURITY_GROUP_ID).toBe(
+      "test-security-group-id"
+    );
+    expect(deployment.dataCatalog?.config.LAMBDA_SECURITY_GROUP_ID).toBe(
+      "test-security-group-id"
+    );
+    expect(deployment.dataCatalog?.config.LAMBDA_MEMORY_SIZE).toBe(2048);
+  });
+
+  it("deploys the model runner and tile server with the default config", () => {
+    const deployment = new OSMLDeployment(stack, "OSMLDeployment", {
+      account: test_account,
+      config: new OSMLDeploymentConfig({
+        DEPLOY_DATA_INTAKE: false,
+        DEPLOY_DATA_CATALOG: false
+      })
+    });
+
+    expect(deployment.modelRunner).toBeDefined();
+    expect(deployment.tileServer).toBeDefined();
+    expect(deployment.dataIntake).toBeUndefined();
+    expect(deployment.dataCatalog).toBeUndefined();
+  });
+
+  it("requires the model runner and data catalog for the bridge", () => {
+    expect(
+      () =>
+        new OSMLDeployment(stack, "OSMLDeployment", {
+          account: test_account,
+          config: new OSMLDeploymentConfig({
+            DEPLOY_MODEL_RUNNER: false,
+            DEPLOY_TILE_SERVER: false,
+            DEPLOY_DATA_INTAKE: false,
+            DEPLOY_DATA_CATALOG: false,
+            DEPLOY_MR_DC_BRIDGE: true
+          })
+        })
+    ).toThrow(/DEPLOY_MR_DC_BRIDGE/);
+  });
+});
@@ -0,0 +1,69 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import {
+  DIDataplane,
+  DIDataplaneConfig,
+  OSMLOperationsDashboard,
+  OSMLOperationsDashboardConfig,
+  OSMLVpc
+} from "../../lib";
+import { test_account } from "../test_account";
+
+describe("OSMLOperationsDashboard constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "OSMLOperationsDashboardStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("builds SLO widgets for the provided dataplanes", () => {
+    const dataIntake = new DIDataplane(stack, "DIDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new DIDataplaneConfig({
+        LAMBDA_SECURITY_GROUP_ID: "test-security-group-id",
+        DI_ENABLE_MONITORING: true
+      })
+    });
+    const dashboard = new OSMLOperationsDashboard(stack, "Operations", {
+      account: test_account,
+      dataIntake: dataIntake,
+      config: new OSMLOperationsDashboardConfig({
+        SLO_AVAILABILITY_PERCENT: 99
+      })
+    });
+
+    expect(dashboard.dashboard).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CloudWatch::Dashboard", {
+      DashboardName: "OSML-Operations"
+    });
+    const body = JSON.stringify(
+      template.findResources("AWS::CloudWatch::Dashboard")
+    );
+    expect(body).toContain("Data Intake Error Budget Remaining");
+    expect(body).toContain("100 - 100 * (100 - availability) / 1");
+    expect(body).toContain("](#dashboards:name=");
+    expect(body).not.toContain("console.aws.amazon.com");
+  });
+
+  it("requires at least one dataplane", () => {
+    expect(
+      () =>
+        new OSMLOperationsDashboard(stack, "Operations", {
+          account: test_account
+        })
+    ).toThrow(/at least one dataplane/);
+  });
+});
@@ -1,12 +1,21 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
 import { Integration, LambdaIntegration } from "aws-cdk-lib/aws-apigateway";
+import { Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
 import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
 
-import { OSMLRestApi, OSMLVpc } from "../../lib";
+import {
+  OSMLAccount,
+  OSMLAuth,
+  OSMLRestApi,
+  OSMLRestApiConfig,
+  OSMLVpc,
+  OSMLVpcConfig
+} from "../../lib";
 import { test_account } from "../test_account";
 
 describe("OSMLRestApi constructor", () => {
@@ -54,4 +63,562 @@ describe("OSMLRestApi constructor", () => {
       expect(restApi.requestAuthorizer).toBeDefined();
     });
   });
+
+  describe("auth strategies", () => {
+    const buildApi = (auth: OSMLAuth): OSMLRestApi => {
+      app = new App();
+      stack = new Stack(app, "OSMLRestApiAuthStack");
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+        account: test_account
+      });
+      mockHandler = new Function(stack, "MockHandler", {
+        runtime: Runtime.NODEJS_LATEST,
+        handler: "index.handler",
+        code: Code.fromInline("test")
+      });
+      const api = new OSMLRestApi(stack, "OSMLRestApi", {
+        account: test_account,
+        apiStageName: "test-api-stage",
+        auth: auth,
+        integration: new LambdaIntegration(mockHandler),
+        name: "test-api",
+        osmlVpc: osmlVpc
+      });
+      api.restApi.root.addResource("tiles").addMethod("GET");
+      return api;
+    };
+
+    it("caches JWT decisions and passes route rules to the authorizer", () => {
+      const api = buildApi({
+        authority: "https://example.com/authority",
+        audience: "example-audience",
+        cacheTtlSeconds: 300,
+        routes: [{ path: "tiles", scopes: ["tiles:read"], groups: ["viewers"] }]
+      });
+
+      expect(api.requestAuthorizer).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Authorizer", {
+        Type: "REQUEST",
+        AuthorizerResultTtlInSeconds: 300
+      });
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Environment: {
+          Variables: Match.objectLike({
+            GROUPS_CLAIM: "groups",
+            ROUTE_AUTHORIZATION: JSON.stringify([
+              { path: "tiles", scopes: ["tiles:read"], groups: ["viewers"] }
+            ])
+          })
+        }
+      });
+    });
+
+    it("requires route scopes with a Cognito user pool", () => {
+      const api = buildApi({
+        type: "cognito",
+        userPoolArn:
+          "arn:aws:cognito-idp:us-west-2:123456789012:userpool/us-west-2_test",
+        routes: [{ path: "tiles", methods: ["get"], scopes: ["tiles/read"] }]
+      });
+
+      expect(api.cognitoAuthorizer).toBeDefined();
+      expect(api.requestAuthorizer).toBeUndefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Authorizer", {
+        Type: "COGNITO_USER_POOLS"
+      });
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "GET",
+        AuthorizationType: "COGNITO_USER_POOLS",
+        AuthorizationScopes: ["tiles/read"]
+      });
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "ANY",
+        AuthorizationType: "COGNITO_USER_POOLS",
+        AuthorizationScopes: Match.absent()
+      });
+    });
+
+    it("grants invoke rights with IAM auth", () => {
+      const api = buildApi({ type: "iam" });
+      const role = new Role(stack, "CallerRole", {
+        assumedBy: new ServicePrincipal("lambda.amazonaws.com")
+      });
+      api.grantInvoke(role);
+
+      expect(api.requestAuthorizer).toBeUndefined();
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::ApiGateway::Authorizer", 0);
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "ANY",
+        AuthorizationType: "AWS_IAM"
+      });
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: [Match.objectLike({ Action: "execute-api:Invoke" })]
+        }
+      });
+    });
+
+    it("only grants invoke rights with IAM auth", () => {
+      const api = buildApi({ type: "apiKey" });
+      const role = new Role(stack, "CallerRole", {
+        assumedBy: new ServicePrincipal("lambda.amazonaws.com")
+      });
+      expect(() => api.grantInvoke(role)).toThrow(/iam/);
+    });
+
+    it("meters API keys with a usage plan", () => {
+      const api = buildApi({
+        type: "apiKey",
+        throttleRateLimit: 10,
+        throttleBurstLimit: 20,
+        quotaLimit: 1000,
+        quotaPeriod: "WEEK"
+      });
+
+      expect(api.apiKey).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "ANY",
+        ApiKeyRequired: true
+      });
+      template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+        Throttle: { RateLimit: 10, BurstLimit: 20 },
+        Quota: { Limit: 1000, Period: "WEEK" }
+      });
+      template.resourceCountIs("AWS::ApiGateway::UsagePlanKey", 1);
+    });
+  });
+
+  describe("configuration", () => {
+    const buildApi = (
+      config: OSMLRestApiConfig,
+      account: OSMLAccount = test_account
+    ): OSMLRestApi => {
+      app = new App();
+      stack = new Stack(app, "OSMLRestApiConfigStack");
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+        account: test_account
+      });
+      mockHandler = new Function(stack, "MockHandler", {
+        runtime: Runtime.NODEJS_LATEST,
+        handler: "index.handler",
+        code: Code.fromInline("test")
+      });
+      return new OSMLRestApi(stack, "OSMLRestApi", {
+        account: account,
+        apiStageName: "test-api-stage",
+        auth: {
+          authority: "https://example.com/authority",
+          audience: "example-audience"
+        },
+        integration: new LambdaIntegration(mockHandler),
+        name: "test-api",
+        osmlVpc: osmlVpc,
+        config: config
+      });
+    };
+
+    it("throttles methods on the root resource", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          METHOD_THROTTLES: [
+            { path: "/", method: "get", rateLimit: 20, burstLimit: 40 }
+          ]
+        })
+      );
+
+      expect(api.restApi.deploymentStage).toBeDefined();
+      Template.fromStack(stack).hasResourceProperties(
+        "AWS::ApiGateway::Stage",
+        {
+          MethodSettings: Match.arrayWith([
+            Match.objectLike({
+              HttpMethod: "GET",
+              ResourcePath: "/",
+              ThrottlingRateLimit: 20,
+              ThrottlingBurstLimit: 40
+            })
+          ])
+        }
+      );
+    });
+
+    it("throttles the stage and methods and restricts CORS origins", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          CORS_ALLOWED_ORIGINS: ["https://maps.example.com"],
+          THROTTLE_RATE_LIMIT: 100,
+          THROTTLE_BURST_LIMIT: 200,
+          METHOD_THROTTLES: [
+            { path: "/{proxy+}", method: "post", rateLimit: 5, burstLimit: 10 }
+          ]
+        })
+      );
+
+      expect(api.apiKeyRequired).toBe(false);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Stage", {
+        MethodSettings: Match.arrayWith([
+          Match.objectLike({
+            HttpMethod: "*",
+            ResourcePath: "/*",
+            ThrottlingRateLimit: 100,
+            ThrottlingBurstLimit: 200
+          }),
+          Match.objectLike({
+            HttpMethod: "POST",
+            ResourcePath: "/~1{proxy+}",
+            ThrottlingRateLimit: 5,
+            ThrottlingBurstLimit: 10
+          })
+        ])
+      });
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "OPTIONS",
+        Integration: Match.objectLike({
+          IntegrationResponses: [
+            Match.objectLike({
+              ResponseParameters: Match.objectLike({
+                "method.response.header.Access-Control-Allow-Origin":
+                  "'https://maps.example.com'"
+              })
+            })
+          ]
+        })
+      });
+    });
+
+    it("issues an API key and usage plan to each consumer team", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          USAGE_PLANS: [
+            {
+              name: "analysts",
+              throttleRateLimit: 50,
+              throttleBurstLimit: 100
+            },
+            { name: "pipelines", quotaLimit: 100000, quotaPeriod: "MONTH" }
+          ]
+        })
+      );
+
+      expect(Object.keys(api.consumerApiKeys)).toEqual([
+        "analysts",
+        "pipelines"
+      ]);
+      expect(api.apiKeyRequired).toBe(true);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Method", {
+        HttpMethod: "ANY",
+        AuthorizationType: "CUSTOM",
+        ApiKeyRequired: true
+      });
+      template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+        UsagePlanName: "test-api-analysts-UsagePlan",
+        Throttle: { RateLimit: 50, BurstLimit: 100 }
+      });
+      template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+        UsagePlanName: "test-api-pipelines-UsagePlan",
+        Quota: { Limit: 100000, Period: "MONTH" }
+      });
+      template.resourceCountIs("AWS::ApiGateway::UsagePlanKey", 2);
+    });
+
+    it("protects the stage with a WAF web ACL", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          WAF_ENABLED: true,
+          WAF_ALLOWED_IP_CIDRS: ["10.0.0.0/16", "2001:db8::/32"],
+          WAF_RATE_LIMIT: 2000
+        })
+      );
+
+      expect(api.webAcl).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::WAFv2::IPSet", 2);
+      template.hasResourceProperties("AWS::WAFv2::IPSet", {
+        IPAddressVersion: "IPV6",
+        Addresses: ["2001:db8::/32"]
+      });
+      template.hasResourceProperties("AWS::WAFv2::WebACL", {
+        Scope: "REGIONAL",
+        DefaultAction: { Allow: {} },
+        Rules: [
+          Match.objectLike({
+            Name: "BlockUnlistedIps",
+            Priority: 0,
+            Statement: {
+              NotStatement: {
+                Statement: { OrStatement: Match.anyValue() }
+              }
+            }
+          }),
+          Match.objectLike({
+            Name: "RateLimitPerIp",
+            Priority: 1,
+            Statement: {
+              RateBasedStatement: { Limit: 2000, AggregateKeyType: "IP" }
+            }
+          }),
+          Match.objectLike({
+            Name: "AWSManagedRulesCommonRuleSet",
+            Priority: 2
+          }),
+          Match.objectLike({
+            Name: "AWSManagedRulesKnownBadInputsRuleSet",
+            Priority: 3
+          })
+        ]
+      });
+      template.resourceCountIs("AWS::WAFv2::WebACLAssociation", 1);
+    });
+
+    it("rejects invalid CORS origins and CIDR ranges", () => {
+      expect(
+        () =>
+          new OSMLRestApiConfig({
+            CORS_ALLOWED_ORIGINS: ["*", "https://maps.example.com"],
+            WAF_ALLOWED_IP_CIDRS: ["10.0.0.0"]
+          })
+      ).toThrow(/CORS_ALLOWED_ORIGINS[\s\S]*WAF_ALLOWED_IP_CIDRS/);
+    });
+
+    it("rejects incomplete method throttles and usage plans", () => {
+      expect(
+        () =>
+          new OSMLRestApiConfig({
+            METHOD_THROTTLES: [
+              { method: "get", rateLimit: 5 },
+              { path: "/", method: "FETCH", burstLimit: 1.5 }
+            ],
+            USAGE_PLANS: [{ name: "analysts", quotaPeriod: "YEAR" }]
+          })
+      ).toThrow(
+        /METHOD_THROTTLES\[0\]\.path[\s\S]*METHOD_THROTTLES\[1\]\.method[\s\S]*METHOD_THROTTLES\[1\]\.burstLimit[\s\S]*USAGE_PLANS\[0\]\.quotaPeriod/
+      );
+      expect(
+        () =>
+          new OSMLRestApiConfig({
+            METHOD_THROTTLES: [{ path: "/", method: "get", rateLimit: 5 }],
+            USAGE_PLANS: [{ name: "analysts", quotaPeriod: "WEEK" }]
+          })
+      ).not.toThrow();
+    });
+
+    it("logs and traces stages of prodLike accounts by default", () => {
+      const api = buildApi(new OSMLRestApiConfig());
+
+      expect(api.accessLogGroup).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/aws/OSML/test-api-ApiAccessLogs"
+      });
+      template.hasResourceProperties("AWS::ApiGateway::Stage", {
+        TracingEnabled: true,
+        AccessLogSetting: {
+          DestinationArn: Match.anyValue(),
+          Format: Match.stringLikeRegexp("authorizerError")
+        },
+        MethodSettings: [
+          Match.objectLike({
+            HttpMethod: "*",
+            ResourcePath: "/*",
+            LoggingLevel: "INFO",
+            MetricsEnabled: true
+          })
+        ]
+      });
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Handler: "lambda_function.lambda_handler",
+        TracingConfig: { Mode: "Active" }
+      });
+      template.resourceCountIs("AWS::ApiGateway::Account", 1);
+    });
+
+    it("leaves logging and tracing opt-in for other accounts", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          ACCESS_LOGGING_ENABLED: true,
+          CLOUDWATCH_ROLE_ENABLED: false
+        }),
+        { ...test_account, prodLike: false }
+      );
+
+      expect(api.accessLogGroup).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Stage", {
+        TracingEnabled: false,
+        AccessLogSetting: Match.objectLike({
+          DestinationArn: Match.anyValue()
+        }),
+        MethodSettings: [
+          Match.objectLike({ LoggingLevel: "OFF", MetricsEnabled: false })
+        ]
+      });
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Handler: "lambda_function.lambda_handler",
+        TracingConfig: Match.absent()
+      });
+      template.resourceCountIs("AWS::ApiGateway::Account", 0);
+    });
+
+    it("only admits requests through the execute-api endpoint when private", () => {
+      const api = buildApi(new OSMLRestApiConfig({ ENDPOINT_TYPE: "PRIVATE" }));
+
+      expect(api.vpcEndpoint).toBe(osmlVpc.executeApiEndpoint());
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        ServiceName: { "Fn::Join": ["", Match.arrayWith([".execute-api"])] },
+        PrivateDnsEnabled: true
+      });
+      template.hasResourceProperties("AWS::ApiGateway::RestApi", {
+        EndpointConfiguration: {
+          Types: ["PRIVATE"],
+          VpcEndpointIds: [Match.anyValue()]
+        },
+        Policy: {
+          Statement: [
+            Match.objectLike({ Effect: "Allow" }),
+            Match.objectLike({
+              Effect: "Deny",
+              Condition: {
+                StringNotEquals: { "aws:SourceVpce": Match.anyValue() }
+              }
+            })
+          ]
+        }
+      });
+    });
+
+    it("leaves regional APIs reachable in the VPC when private DNS is disabled", () => {
+      app = new App();
+      stack = new Stack(app, "OSMLRestApiMixedStack");
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+        account: test_account,
+        config: new OSMLVpcConfig({ EXECUTE_API_PRIVATE_DNS_ENABLED: false })
+      });
+      mockHandler = new Function(stack, "MockHandler", {
+        runtime: Runtime.NODEJS_LATEST,
+        handler: "index.handler",
+        code: Code.fromInline("test")
+      });
+      const apis = ["PRIVATE", "REGIONAL"].map((endpointType) => {
+        const api = new OSMLRestApi(stack, `${endpointType}Api`, {
+          account: test_account,
+          apiStageName: "test-api-stage",
+          auth: { type: "iam" },
+          integration: new LambdaIntegration(mockHandler),
+          name: `test-${endpointType.toLowerCase()}-api`,
+          osmlVpc: osmlVpc,
+          config: new OSMLRestApiConfig({ ENDPOINT_TYPE: endpointType })
+        });
+        api.restApi.root.addResource("tiles").addMethod("GET");
+        return api;
+      });
+
+      expect(apis[0].vpcEndpoint).toBeDefined();
+      expect(apis[1].vpcEndpoint).toBeUndefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        ServiceName: { "Fn::Join": ["", Match.arrayWith([".execute-api"])] },
+        PrivateDnsEnabled: false
+      });
+      template.hasResourceProperties("AWS::ApiGateway::RestApi", {
+        EndpointConfiguration: { Types: ["REGIONAL"] }
+      });
+    });
+
+    it("records a private custom domain name in a private hosted zone", () => {
+      const api = buildApi(
+        new OSMLRestApiConfig({
+          ENDPOINT_TYPE: "PRIVATE",
+          PRIVATE_DOMAIN_NAME: "tiles.osml.example.internal",
+          PRIVATE_CERTIFICATE_ARN:
+            "arn:aws:acm:us-west-2:123456789012:certificate/example",
+          PRIVATE_HOSTED_ZONE_NAME: "osml.example.internal"
+        })
+      );
+
+      expect(api.privateDomainName).toBeDefined();
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::DomainNameV2", {
+        DomainName: "tiles.osml.example.internal",
+        EndpointConfiguration: { Types: ["PRIVATE"] }
+      });
+      template.hasResourceProperties("AWS::ApiGateway::BasePathMappingV2", {
+        BasePath: "test-api-stage"
+      });
+      template.hasResourceProperties(
+        "AWS::ApiGateway::DomainNameAccessAssociation",
+        { AccessAssociationSourceType: "VPCE" }
+      );
+      template.hasResourceProperties("AWS::Route53::HostedZone", {
+        Name: "osml.example.internal.",
+        VPCs: [Match.anyValue()]
+      });
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "tiles.osml.example.internal.",
+        Type: "A"
+      });
+    });
+
+    it("requires a private endpoint, certificate and zone for private domain names", () => {
+      expect(
+        () =>
+          new OSMLRestApiConfig({
+            PRIVATE_DOMAIN_NAME: "tiles.osml.example.internal"
+          })
+      ).toThrow(
+        /ENDPOINT_TYPE[\s\S]*PRIVATE_CERTIFICATE_ARN[\s\S]*PRIVATE_HOSTED_ZONE_NAME/
+      );
+    });
+
+    it("serves a private API at its host name in a domain", () => {
+      app = new App();
+      stack = new Stack(app, "OSMLRestApiDomainStack");
+      osmlVpc = new OSMLVpc(stack, "OSMLVpc", { account: test_account });
+      const domain = {
+        hostedZoneId: "Z0123456789ABCDEFGHIJ",
+        zoneName: "osml.example.internal",
+        certificateArn: "arn:aws:acm:us-west-2:123456789012:certificate/example"
+      };
+      const buildDomainApi = (id: string, domainHostName?: string) =>
+        new OSMLRestApi(stack, id, {
+          account: test_account,
+          apiStageName: "test-api-stage",
+          auth: { type: "iam" },
+          integration: new LambdaIntegration(
+            new Function(stack, `${id}Handler`, {
+              runtime: Runtime.NODEJS_LATEST,
+              handler: "index.handler",
+              code: Code.fromInline("test")
+            })
+          ),
+          name: id,
+          osmlVpc: osmlVpc,
+          config: new OSMLRestApiConfig({ ENDPOINT_TYPE: "PRIVATE" }),
+          domain: domain,
+          domainHostName: domainHostName
+        });
+
+      const api = buildDomainApi("OSMLRestApi", "stac");
+      expect(api.domainUrl).toBe(
+        "https://stac.osml.example.internal/test-api-stage/"
+      );
+      expect(() => buildDomainApi("MissingHostApi")).toThrow(/domainHostName/);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::DomainNameV2", {
+        DomainName: "stac.osml.example.internal",
+        CertificateArn: domain.certificateArn
+      });
+      template.resourceCountIs("AWS::Route53::HostedZone", 0);
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "stac.osml.example.internal.",
+        HostedZoneId: "Z0123456789ABCDEFGHIJ"
+      });
+    });
+  });
 });
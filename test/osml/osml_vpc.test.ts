@@ -1,11 +1,11 @@
 /*
- * Copyright 2023-2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2023-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { App, Stack } from "aws-cdk-lib";
 import { Vpc } from "aws-cdk-lib/aws-ec2";
 
-import { OSMLVpc } from "../../lib/osml/osml_vpc";
+import { OSMLVpc, OSMLVpcConfig } from "../../lib/osml/osml_vpc";
 import { test_account } from "../test_account";
 
 describe("OSMLVpc", () => {
@@ -45,4 +45,25 @@ describe("OSMLVpc", () => {
     // Assert the number of subnets matches expectations
     expect(selectedSubnets).toHaveLength(2);
   });
+
+  it("shares one execute-api endpoint between private APIs", () => {
+    const endpoint = osmlVpc.executeApiEndpoint();
+
+    expect(osmlVpc.executeApiEndpoint()).toBe(endpoint);
+    expect(endpoint.node.id).toBe("ExecuteApiInterfaceEndpoint");
+  });
+
+  it("imports an existing execute-api endpoint", () => {
+    const importStack = new Stack(app, "OSMLVpcImportEndpointStack");
+    const importVpc = new OSMLVpc(importStack, "OSMLVpc", {
+      account: test_account,
+      config: new OSMLVpcConfig({
+        EXECUTE_API_VPC_ENDPOINT_ID: "vpce-0123456789abcdef0"
+      })
+    });
+
+    expect(importVpc.executeApiEndpoint().vpcEndpointId).toBe(
+      "vpce-0123456789abcdef0"
+    );
+  });
 });
@@ -1,11 +1,18 @@
 /*
- * Copyright 2024 Amazon.com, Inc. or its affiliates.
+ * Copyright 2024-2025 Amazon.com, Inc. or its affiliates.
  */
 
 import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Code } from "aws-cdk-lib/aws-lambda";
 
-import { OSMLVpc, TSDataplane, TSDataplaneConfig } from "../../../lib";
-import { test_account } from "../../test_account";
+import {
+  ConfigValidationError,
+  OSMLVpc,
+  TSDataplane,
+  TSDataplaneConfig
+} from "../../../lib";
+import { test_account, test_special_account } from "../../test_account";
 
 describe("TSDataplane constructor", () => {
   let app: App;
@@ -26,7 +33,8 @@ describe("TSDataplane constructor", () => {
       osmlVpc: osmlVpc,
       config: new TSDataplaneConfig({
         DEPLOY_TEST_COMPONENTS: true,
-        SECURITY_GROUP_ID: "test-security-group-id"
+        SECURITY_GROUP_ID: "test-security-group-id",
+        TS_ENABLE_AUTOSCALING: true
       })
     });
   });
@@ -38,4 +46,427 @@ describe("TSDataplane constructor", () => {
   it("creates jobTable instance", () => {
     expect(tsDataplane.jobTable).toBeDefined();
   });
+
+  it("scales the service on queue depth, request count and utilization", () => {
+    expect(tsDataplane.scalableTaskCount).toBeDefined();
+    expect(tsDataplane.serviceAutoscaler).toBeUndefined();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      { MinCapacity: 1, MaxCapacity: 10 }
+    );
+    template.resourcePropertiesCountIs(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      { PolicyType: "TargetTrackingScaling" },
+      3
+    );
+    template.resourcePropertiesCountIs(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      { PolicyType: "StepScaling" },
+      2
+    );
+  });
+});
+
+describe("TSDataplane autoscaling", () => {
+  it("uses the ECS ISO service autoscaler in ADC regions", () => {
+    const app = new App();
+    const stack = new Stack(app, "TSDataplaneAdcStack");
+    const osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_special_account
+    });
+
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_special_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        ECS_AUTOSCALING_JOB_QUEUE_THRESHOLD: 10,
+        TS_ENABLE_AUTOSCALING: true
+      })
+    });
+
+    expect(tsDataplane.serviceAutoscaler).toBeDefined();
+    expect(tsDataplane.scalableTaskCount).toBeUndefined();
+    Template.fromStack(stack).hasResourceProperties("AWS::CloudWatch::Alarm", {
+      MetricName: "ApproximateNumberOfMessagesVisible",
+      Threshold: 10
+    });
+  });
+
+  it("runs a fixed number of tasks by default", () => {
+    const app = new App();
+    const stack = new Stack(app, "TSDataplaneFixedStack");
+    const osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc
+    });
+
+    expect(tsDataplane.scalableTaskCount).toBeUndefined();
+    Template.fromStack(stack).resourceCountIs(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      0
+    );
+  });
+
+  it("rejects a minimum task count above the maximum", () => {
+    expect(
+      () =>
+        new TSDataplaneConfig({
+          ECS_AUTOSCALING_TASK_MIN_COUNT: 5,
+          ECS_AUTOSCALING_TASK_MAX_COUNT: 2
+        })
+    ).toThrow(ConfigValidationError);
+  });
+
+  it("moves viewpoint jobs to a worker service scaled on queue depth", () => {
+    const app = new App();
+    const stack = new Stack(app, "TSDataplaneWorkerStack");
+    const osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        TS_ENABLE_WORKER_SERVICE: true,
+        TS_ENABLE_AUTOSCALING: true
+      })
+    });
+
+    expect(tsDataplane.workerService).toBeDefined();
+    expect(tsDataplane.workerScalableTaskCount).toBeDefined();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::ECS::Service", 2);
+    for (const [name, enabled] of [
+      ["TSContainer", "false"],
+      ["TSWorkerContainer", "true"]
+    ]) {
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
+          Match.objectLike({
+            Name: name,
+            Environment: Match.arrayWith([
+              { Name: "VIEWPOINT_WORKER_ENABLED", Value: enabled }
+            ])
+          })
+        ]
+      });
+    }
+    // Only the worker scales on queue depth
+    template.resourcePropertiesCountIs(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      { PolicyType: "StepScaling" },
+      2
+    );
+    template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 2);
+  });
+
+  it("scales the worker on queue depth by default", () => {
+    const app = new App();
+    const stack = new Stack(app, "TSDataplaneDefaultWorkerStack");
+    const osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({ TS_ENABLE_WORKER_SERVICE: true })
+    });
+
+    expect(tsDataplane.scalableTaskCount).toBeUndefined();
+    expect(tsDataplane.workerScalableTaskCount).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 1);
+    template.resourcePropertiesCountIs(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      { PolicyType: "StepScaling" },
+      2
+    );
+  });
+
+  it("rejects a worker container larger than its task", () => {
+    expect(
+      () =>
+        new TSDataplaneConfig({
+          TS_ENABLE_WORKER_SERVICE: true,
+          ECS_WORKER_CONTAINER_MEMORY: 16384
+        })
+    ).toThrow(/ECS_WORKER_CONTAINER_MEMORY/);
+  });
+});
+
+describe("TSDataplane storage", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "TSDataplaneStorageStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("stores viewpoints in an expiring S3 bucket instead of EFS", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({ TS_STORAGE_BACKEND: "s3" })
+    });
+
+    expect(tsDataplane.fileSystem).toBeUndefined();
+    expect(tsDataplane.tileBucket).toBeDefined();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::EFS::FileSystem", 0);
+    template.hasResourceProperties("AWS::S3::Bucket", {
+      BucketName: `ts-tiles-${test_account.id}`,
+      LifecycleConfiguration: {
+        Rules: [Match.objectLike({ ExpirationInDays: 14, Status: "Enabled" })]
+      }
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([
+            { Name: "STORAGE_BACKEND", Value: "s3" },
+            Match.objectLike({ Name: "TILE_BUCKET" })
+          ]),
+          MountPoints: Match.absent()
+        })
+      ]
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["s3:DeleteObject*", "s3:PutObject"])
+          })
+        ])
+      }
+    });
+  });
+
+  it("uses both EFS and S3 with the configured EFS throughput", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        TS_STORAGE_BACKEND: "efs_and_s3",
+        EFS_THROUGHPUT_MODE: "provisioned",
+        EFS_PROVISIONED_THROUGHPUT_MIBPS: 256
+      })
+    });
+
+    expect(tsDataplane.fileSystem).toBeDefined();
+    expect(tsDataplane.tileBucket).toBeDefined();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::EFS::FileSystem", {
+      ThroughputMode: "provisioned",
+      ProvisionedThroughputInMibps: 256
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([
+            { Name: "EFS_MOUNT_NAME", Value: "ts-efs-volume" },
+            Match.objectLike({ Name: "TILE_BUCKET" })
+          ]),
+          MountPoints: [Match.objectLike({ SourceVolume: "ts-efs-volume" })]
+        })
+      ]
+    });
+  });
+
+  it("requires a throughput for provisioned EFS", () => {
+    expect(
+      () => new TSDataplaneConfig({ EFS_THROUGHPUT_MODE: "provisioned" })
+    ).toThrow(/EFS_PROVISIONED_THROUGHPUT_MIBPS/);
+  });
+});
+
+describe("TSDataplane TLS", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  Object.defineProperty(Code, "fromAsset", {
+    value: () => Code.fromInline("inline code")
+  });
+
+  const auth = {
+    authority: "https://example.com/authority",
+    audience: "example-audience"
+  };
+  const certificateArn =
+    "arn:aws:acm:us-west-2:123456789012:certificate/test-certificate";
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "TSDataplaneTlsStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("serves HTTPS through the load balancers and the API VPC link", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: auth,
+      tls: { domainName: "tiles.example.com", certificateArn: certificateArn }
+    });
+
+    expect(tsDataplane.certificate).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Protocol: "HTTPS",
+      Port: 443,
+      Certificates: [{ CertificateArn: certificateArn }]
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Protocol: "HTTP",
+      Port: 80,
+      DefaultActions: [Match.objectLike({ Type: "redirect" })]
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::TargetGroup", {
+      TargetType: "alb",
+      Protocol: "TCP",
+      Port: 443
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      Integration: Match.objectLike({
+        ConnectionType: "VPC_LINK",
+        Uri: "https://tiles.example.com/latest/viewpoints/{proxy}"
+      })
+    });
+  });
+
+  it("records the TLS domain name for the test runner", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      tls: {
+        domainName: "tiles.example.com",
+        certificateArn: certificateArn,
+        hostedZoneId: "Z0123456789ABCDEFGHIJ"
+      },
+      config: new TSDataplaneConfig({ DEPLOY_TEST_COMPONENTS: true })
+    });
+
+    expect(tsDataplane.lambdaIntegRunner).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: "tiles.example.com.",
+      Type: "A",
+      HostedZoneId: "Z0123456789ABCDEFGHIJ"
+    });
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      Environment: {
+        Variables: { TS_ENDPOINT: "https://tiles.example.com/latest" }
+      }
+    });
+  });
+
+  it("rejects test components with an unresolvable TLS domain name", () => {
+    expect(
+      () =>
+        new TSDataplane(stack, "TSDataplane", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          tls: {
+            domainName: "tiles.example.com",
+            certificateArn: certificateArn
+          },
+          config: new TSDataplaneConfig({ DEPLOY_TEST_COMPONENTS: true })
+        })
+    ).toThrow(/tls.hostedZoneId/);
+  });
+
+  it("can drop the HTTP listener entirely", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      tls: {
+        domainName: "tiles.example.com",
+        certificateArn: certificateArn,
+        redirectHttp: false
+      }
+    });
+
+    expect(tsDataplane.nlb).toBeUndefined();
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::Listener", 1);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Protocol: "HTTPS"
+    });
+  });
+});
+
+describe("TSDataplane domain", () => {
+  Object.defineProperty(Code, "fromAsset", {
+    value: () => Code.fromInline("inline code")
+  });
+
+  it("gives the API and load balancers stable host names", () => {
+    const app = new App();
+    const stack = new Stack(app, "TSDataplaneDomainStack");
+    const certificateArn =
+      "arn:aws:acm:us-west-2:123456789012:certificate/test-certificate";
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: new OSMLVpc(stack, "OSMLVpc", { account: test_account }),
+      auth: {
+        authority: "https://example.com/authority",
+        audience: "example-audience"
+      },
+      tls: {
+        domainName: "tiles-alb.osml.example.internal",
+        certificateArn: certificateArn
+      },
+      domain: {
+        hostedZoneId: "Z0123456789ABCDEFGHIJ",
+        zoneName: "osml.example.internal",
+        certificateArn: certificateArn
+      }
+    });
+
+    expect(tsDataplane.api.domainUrl).toBe(
+      "https://tiles.osml.example.internal/viewpoints/"
+    );
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ApiGateway::DomainName", {
+      DomainName: "tiles.osml.example.internal",
+      EndpointConfiguration: { Types: ["REGIONAL"] }
+    });
+    template.hasResourceProperties("AWS::ApiGateway::BasePathMapping", {
+      BasePath: "viewpoints"
+    });
+    for (const name of ["tiles", "tiles-alb", "tiles-nlb"]) {
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: `${name}.osml.example.internal.`,
+        Type: "A",
+        HostedZoneId: "Z0123456789ABCDEFGHIJ"
+      });
+    }
+    template.hasOutput("*", {
+      Value: "https://tiles.osml.example.internal/viewpoints/"
+    });
+    template.hasOutput("*", {
+      Value: "https://tiles-alb.osml.example.internal/latest/viewpoints/"
+    });
+    template.hasOutput("*", {
+      Value: "https://tiles-nlb.osml.example.internal:443/latest/viewpoints/"
+    });
+  });
 });
@@ -0,0 +1,53 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import { OSMLVpc, TSDataplane, TSDataplaneConfig } from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("TSMonitoring constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "TSMonitoringStack");
+
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("builds the dashboard when monitoring is enabled", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        SECURITY_GROUP_ID: "test-security-group-id",
+        TS_ENABLE_MONITORING: true
+      })
+    });
+
+    expect(tsDataplane.monitoring?.tsDashboard).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudWatch::Dashboard",
+      { DashboardName: "OSML-TileServer" }
+    );
+  });
+
+  it("does not build the dashboard by default", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        SECURITY_GROUP_ID: "test-security-group-id"
+      })
+    });
+
+    expect(tsDataplane.monitoring).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Code } from "aws-cdk-lib/aws-lambda";
+
+import {
+  OSMLRestApiConfig,
+  OSMLVpc,
+  TSDataplane,
+  TSDataplaneConfig
+} from "../../../lib";
+import { test_account, test_special_account } from "../../test_account";
+
+describe("TSTileCache constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  Object.defineProperty(Code, "fromAsset", {
+    value: () => Code.fromInline("inline code")
+  });
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "TSTileCacheStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("caches tiles through an origin load balancer that admits only CloudFront", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      config: new TSDataplaneConfig({
+        TS_ENABLE_TILE_CACHE: true,
+        TILE_CACHE_ORIGIN_PREFIX_LIST_ID: "pl-82a045eb"
+      })
+    });
+
+    expect(tsDataplane.tileCache?.originLoadBalancer).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CloudFront::Distribution", {
+      DistributionConfig: Match.objectLike({
+        CacheBehaviors: [
+          Match.objectLike({ PathPattern: "*/image/tiles/*" }),
+          Match.objectLike({ PathPattern: "*/map/tiles/*" }),
+          Match.objectLike({ PathPattern: "xyz/*" })
+        ]
+      })
+    });
+    template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+      CachePolicyConfig: Match.objectLike({
+        DefaultTTL: 86400,
+        ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+          HeadersConfig: { HeaderBehavior: "none" },
+          QueryStringsConfig: {
+            QueryStringBehavior: "whitelist",
+            QueryStrings: ["compression"]
+          }
+        })
+      })
+    });
+    template.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      { Scheme: "internet-facing" }
+    );
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      SourcePrefixListId: "pl-82a045eb",
+      FromPort: 80
+    });
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      StreamSpecification: { StreamViewType: "NEW_AND_OLD_IMAGES" }
+    });
+    template.hasResourceProperties("AWS::Lambda::EventSourceMapping", {
+      FilterCriteria: {
+        Filters: [
+          { Pattern: JSON.stringify({ eventName: ["REMOVE"] }) },
+          {
+            Pattern: JSON.stringify({
+              dynamodb: { NewImage: { viewpoint_status: { S: ["DELETED"] } } }
+            })
+          }
+        ]
+      }
+    });
+  });
+
+  it("keys cached tiles on the caller's token when auth is enabled", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: {
+        authority: "https://example.com/authority",
+        audience: "example-audience"
+      },
+      config: new TSDataplaneConfig({ TS_ENABLE_TILE_CACHE: true })
+    });
+
+    expect(tsDataplane.tileCache?.originLoadBalancer).toBeUndefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudFront::CachePolicy",
+      {
+        CachePolicyConfig: Match.objectLike({
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: ["Authorization"]
+            }
+          })
+        })
+      }
+    );
+  });
+
+  it("keys cached tiles on the API key with API key auth", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: { type: "apiKey" },
+      config: new TSDataplaneConfig({ TS_ENABLE_TILE_CACHE: true })
+    });
+
+    expect(tsDataplane.api.apiKey).toBeDefined();
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudFront::CachePolicy",
+      {
+        CachePolicyConfig: Match.objectLike({
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: ["x-api-key"]
+            }
+          })
+        })
+      }
+    );
+  });
+
+  it("keys cached tiles on the token and API key with usage plans", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: {
+        authority: "https://example.com/authority",
+        audience: "example-audience"
+      },
+      apiConfig: new OSMLRestApiConfig({ USAGE_PLANS: [{ name: "analysts" }] }),
+      config: new TSDataplaneConfig({ TS_ENABLE_TILE_CACHE: true })
+    });
+
+    expect(tsDataplane.api.apiKeyRequired).toBe(true);
+    Template.fromStack(stack).hasResourceProperties(
+      "AWS::CloudFront::CachePolicy",
+      {
+        CachePolicyConfig: Match.objectLike({
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: ["Authorization", "x-api-key"]
+            }
+          })
+        })
+      }
+    );
+  });
+
+  it("is not available with IAM auth", () => {
+    expect(
+      () =>
+        new TSDataplane(stack, "TSDataplane", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          auth: { type: "iam" },
+          config: new TSDataplaneConfig({ TS_ENABLE_TILE_CACHE: true })
+        })
+    ).toThrow(/IAM/);
+  });
+
+  it("requires the CloudFront prefix list without auth", () => {
+    expect(
+      () =>
+        new TSDataplane(stack, "TSDataplane", {
+          account: test_account,
+          osmlVpc: osmlVpc,
+          config: new TSDataplaneConfig({ TS_ENABLE_TILE_CACHE: true })
+        })
+    ).toThrow(/TILE_CACHE_ORIGIN_PREFIX_LIST_ID/);
+  });
+
+  it("is not available in ADC regions", () => {
+    const adcStack = new Stack(app, "TSTileCacheAdcStack");
+    expect(
+      () =>
+        new TSDataplane(adcStack, "TSDataplane", {
+          account: test_special_account,
+          osmlVpc: new OSMLVpc(adcStack, "OSMLVpc", {
+            account: test_special_account
+          }),
+          config: new TSDataplaneConfig({
+            TS_ENABLE_TILE_CACHE: true,
+            TILE_CACHE_ORIGIN_PREFIX_LIST_ID: "pl-82a045eb"
+          })
+        })
+    ).toThrow(/ADC/);
+  });
+});
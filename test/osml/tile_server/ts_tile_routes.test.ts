@@ -0,0 +1,159 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Code } from "aws-cdk-lib/aws-lambda";
+
+import { OSMLVpc, TSDataplane, TSDataplaneConfig } from "../../../lib";
+import { test_account } from "../../test_account";
+
+describe("TSTileRoutes constructor", () => {
+  let app: App;
+  let stack: Stack;
+  let osmlVpc: OSMLVpc;
+
+  Object.defineProperty(Code, "fromAsset", {
+    value: () => Code.fromInline("inline code")
+  });
+
+  const auth = {
+    authority: "https://example.com/authority",
+    audience: "example-audience"
+  };
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, "TSTileRoutesStack");
+    osmlVpc = new OSMLVpc(stack, "OSMLVpc", {
+      account: test_account
+    });
+  });
+
+  it("adds validated and throttled WMTS, XYZ and TileJSON routes", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: auth
+    });
+
+    expect(tsDataplane.tileRoutes?.methods).toHaveLength(3);
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ApiGateway::RequestValidator", {
+      ValidateRequestParameters: true
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "GET",
+      RequestParameters: Match.objectLike({
+        "method.request.path.format": true,
+        "method.request.path.z": true
+      }),
+      Integration: Match.objectLike({
+        Type: "HTTP_PROXY",
+        ConnectionType: "VPC_LINK",
+        Uri: {
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              Match.stringLikeRegexp(
+                "/\\{viewpoint_id\\}/map/tiles/WebMercatorQuad/\\{z\\}/\\{y\\}/\\{x\\}\\.\\{format\\}$"
+              )
+            ])
+          ]
+        }
+      })
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "GET",
+      Integration: Match.objectLike({
+        Type: "MOCK",
+        IntegrationResponses: [
+          Match.objectLike({
+            ResponseParameters: {
+              "method.response.header.Content-Type": "'application/xml'"
+            },
+            ResponseTemplates: {
+              "application/json": Match.stringLikeRegexp(
+                'template="\\$base/xyz/\\$viewpoint/\\$format/\\{TileMatrix\\}/\\{TileCol\\}/\\{TileRow\\}"'
+              )
+            }
+          })
+        ]
+      })
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "GET",
+      Integration: Match.objectLike({
+        Type: "MOCK",
+        IntegrationResponses: [
+          Match.objectLike({
+            ResponseTemplates: {
+              "application/json": Match.stringLikeRegexp(
+                'lastIndexOf\\("/tilejson/"\\)'
+              )
+            }
+          })
+        ]
+      })
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Stage", {
+      CacheClusterEnabled: false,
+      MethodSettings: Match.arrayWith([
+        Match.objectLike({
+          ResourcePath: "/~1xyz~1{viewpoint_id}~1{format}~1{z}~1{x}~1{y}",
+          HttpMethod: "GET",
+          CachingEnabled: false,
+          ThrottlingRateLimit: 1000,
+          ThrottlingBurstLimit: 2000
+        })
+      ])
+    });
+  });
+
+  it("enables the stage cache for routes with a cache TTL", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: auth,
+      config: new TSDataplaneConfig({ API_XYZ_CACHE_TTL_SECONDS: 300 })
+    });
+
+    expect(tsDataplane.tileRoutes).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::ApiGateway::Stage", {
+      CacheClusterEnabled: true,
+      CacheClusterSize: "0.5",
+      MethodSettings: Match.arrayWith([
+        Match.objectLike({
+          ResourcePath: "/~1xyz~1{viewpoint_id}~1{format}~1{z}~1{x}~1{y}",
+          CachingEnabled: true,
+          CacheTtlInSeconds: 300
+        })
+      ])
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      Integration: Match.objectLike({
+        CacheKeyParameters: Match.arrayWith([
+          "method.request.path.viewpoint_id",
+          "method.request.path.z"
+        ])
+      })
+    });
+  });
+
+  it("can be disabled", () => {
+    const tsDataplane = new TSDataplane(stack, "TSDataplane", {
+      account: test_account,
+      osmlVpc: osmlVpc,
+      auth: auth,
+      config: new TSDataplaneConfig({ API_ENABLE_TILE_ROUTES: false })
+    });
+
+    expect(tsDataplane.tileRoutes).toBeUndefined();
+    Template.fromStack(stack).resourceCountIs(
+      "AWS::ApiGateway::RequestValidator",
+      0
+    );
+  });
+});
@@ -0,0 +1,31 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+
+import { findPackagePath, resolvePackagePath } from "../../../lib";
+
+describe("resolvePackagePath", () => {
+  it("resolves paths shipped with the package regardless of the working directory", () => {
+    const path = resolvePackagePath("lib/osml/authorizer/lambda");
+    expect(path).toBe(
+      join(__dirname, "..", "..", "..", "lib", "osml", "authorizer", "lambda")
+    );
+    expect(existsSync(join(path, "lambda_function.py"))).toBe(true);
+  });
+
+  it("names the paths it tried when the path is missing", () => {
+    expect(() => resolvePackagePath("lib/osml/missing")).toThrow(
+      /Could not find lib\/osml\/missing .*Tried .*lib\/osml\/missing/
+    );
+  });
+
+  it("finds optional paths only when the package includes them", () => {
+    expect(findPackagePath("lib/osml/authorizer/lambda")).toBe(
+      resolvePackagePath("lib/osml/authorizer/lambda")
+    );
+    expect(findPackagePath("lib/osml/missing")).toBeUndefined();
+  });
+});
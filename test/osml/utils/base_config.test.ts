@@ -2,7 +2,12 @@
  * Copyright 2025 Amazon.com, Inc. or its affiliates.
  */
 
-import { BaseConfig, ConfigType } from "../../../lib";
+import {
+  BaseConfig,
+  ConfigSchema,
+  ConfigType,
+  ConfigValidationError
+} from "../../../lib";
 
 describe("BaseConfig Class Tests", () => {
   it("should initialize properties from the provided config object", () => {
@@ -67,4 +72,41 @@ describe("BaseConfig Class Tests", () => {
 
     expect((baseConfig as never)["newProperty"]).toBe("new value");
   });
+
+  it("should validate the config against a declared schema", () => {
+    class MyConfig extends BaseConfig {
+      public static readonly schema: ConfigSchema = {
+        someProperty: { type: "string" },
+        anotherProperty: { type: "number", min: 0 }
+      };
+
+      public someProperty: string;
+      public anotherProperty: number;
+
+      constructor(config: ConfigType = {}) {
+        super({
+          someProperty: "default value",
+          anotherProperty: 100,
+          ...config
+        });
+      }
+
+      protected static validate(config: ConfigType): string[] {
+        return config.someProperty === "invalid"
+          ? ["someProperty: cannot be invalid"]
+          : [];
+      }
+    }
+
+    expect(new MyConfig().anotherProperty).toBe(100);
+    expect(() => new MyConfig({ anotherProperty: -1 })).toThrow(
+      ConfigValidationError
+    );
+    expect(() => new MyConfig({ unknownProperty: true })).toThrow(
+      /unknownProperty: unknown configuration key/
+    );
+    expect(() => new MyConfig({ someProperty: "invalid" })).toThrow(
+      /someProperty: cannot be invalid/
+    );
+  });
 });
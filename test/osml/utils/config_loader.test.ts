@@ -0,0 +1,112 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  BaseConfig,
+  ConfigValidationError,
+  MRDataplaneConfig,
+  readConfigFile
+} from "../../../lib";
+
+describe("Config loading", () => {
+  let dir: string;
+  let baseFile: string;
+  let environmentFile: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "osml-config-"));
+    baseFile = path.join(dir, "base.json");
+    environmentFile = path.join(dir, "prod.yaml");
+    fs.writeFileSync(
+      baseFile,
+      JSON.stringify({
+        MRDataplaneConfig: { ECS_TASK_CPU: 16384, ECS_TASK_MEMORY: 32768 }
+      })
+    );
+    fs.writeFileSync(
+      environmentFile,
+      [
+        "MRDataplaneConfig:",
+        "  ECS_TASK_MEMORY: 65536",
+        "  MR_ENABLE_MONITORING: false"
+      ].join("\n")
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("layers files over the class defaults", () => {
+    const config = MRDataplaneConfig.fromFile({
+      baseFile,
+      environmentFile,
+      section: "MRDataplaneConfig"
+    });
+
+    expect(config).toBeInstanceOf(MRDataplaneConfig);
+    expect(config.ECS_TASK_CPU).toBe(16384);
+    expect(config.ECS_TASK_MEMORY).toBe(65536);
+    expect(config.MR_ENABLE_MONITORING).toBe(false);
+
+    const provenance = BaseConfig.provenanceOf(config);
+    expect(provenance?.ECS_TASK_CPU).toBe(`file:${baseFile}`);
+    expect(provenance?.ECS_TASK_MEMORY).toBe(`file:${environmentFile}`);
+    expect(provenance?.ECS_CLUSTER_NAME).toBe("default");
+  });
+
+  it("layers context over the files and reports provenance", () => {
+    const app = new App({
+      context: {
+        MRDataplaneConfig: { ECS_TASK_MEMORY: 40960 },
+        "MRDataplaneConfig.ECS_CONTAINER_CPU": "4096"
+      }
+    });
+    const stack = new Stack(app, "ConfigLoaderStack");
+
+    const config = MRDataplaneConfig.fromContext(stack, "MRDataplaneConfig", {
+      baseFile,
+      environmentFile,
+      section: "MRDataplaneConfig",
+      report: true
+    });
+
+    expect(config.ECS_CONTAINER_CPU).toBe(4096);
+    expect(config.ECS_TASK_MEMORY).toBe(40960);
+    expect(BaseConfig.provenanceOf(config)?.ECS_CONTAINER_CPU).toBe(
+      "context:MRDataplaneConfig.*"
+    );
+    Annotations.fromStack(stack).hasInfo(
+      "*",
+      Match.stringLikeRegexp("MRDataplaneConfig provenance")
+    );
+  });
+
+  it("validates the merged configuration", () => {
+    const app = new App({
+      context: { "MRDataplaneConfig.ECS_TASK_CPU": "1000" }
+    });
+    const stack = new Stack(app, "ConfigLoaderStack");
+
+    expect(() =>
+      MRDataplaneConfig.fromContext(stack, "MRDataplaneConfig")
+    ).toThrow(ConfigValidationError);
+  });
+
+  it("does not record provenance for configs built directly", () => {
+    expect(BaseConfig.provenanceOf(new MRDataplaneConfig())).toBeUndefined();
+  });
+
+  it("throws for a missing file", () => {
+    expect(() => readConfigFile(path.join(dir, "missing.json"))).toThrow(
+      /Configuration file not found/
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/*
+ * Copyright 2025 Amazon.com, Inc. or its affiliates.
+ */
+
+import { Token } from "aws-cdk-lib";
+
+import {
+  ConfigSchema,
+  ConfigValidationError,
+  DIDataplaneConfig,
+  MRDataplaneConfig,
+  OSMLVpcConfig,
+  TSDataplaneConfig,
+  validateConfigSchema,
+  validateFargateTaskSize
+} from "../../../lib";
+
+describe("validateConfigSchema", () => {
+  const schema: ConfigSchema = {
+    NAME: { type: "string", required: true },
+    COUNT: { type: "number", integer: true, min: 1, max: 10 },
+    MODE: { type: "string", values: ["fast", "slow"] },
+    SUBNETS: { type: "string[]" },
+    ENABLED: { type: "boolean" }
+  };
+
+  it("accepts a valid configuration", () => {
+    expect(
+      validateConfigSchema(schema, {
+        NAME: "test",
+        COUNT: 5,
+        MODE: "fast",
+        SUBNETS: ["subnet-1"],
+        ENABLED: true
+      })
+    ).toEqual([]);
+  });
+
+  it("reports unknown keys with a suggestion", () => {
+    expect(validateConfigSchema(schema, { NAME: "test", COUNTT: 1 })).toEqual([
+      "COUNTT: unknown configuration key (did you mean COUNT?)"
+    ]);
+  });
+
+  it("reports missing required keys", () => {
+    expect(validateConfigSchema(schema, {})).toEqual([
+      "NAME: a value is required"
+    ]);
+  });
+
+  it("reports type, range and enum problems together", () => {
+    const errors = validateConfigSchema(schema, {
+      NAME: 1,
+      COUNT: 1.5,
+      MODE: "medium",
+      SUBNETS: "subnet-1"
+    });
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain("NAME: expected string");
+    expect(errors[1]).toContain("COUNT: expected an integer");
+    expect(errors[2]).toContain('MODE: "medium" is not one of');
+    expect(errors[3]).toContain("SUBNETS: expected string[]");
+  });
+
+  it("skips value checks for unresolved tokens", () => {
+    expect(
+      validateConfigSchema(schema, {
+        NAME: "test",
+        MODE: Token.asString({ Ref: "Mode" })
+      })
+    ).toEqual([]);
+  });
+
+  it("checks arrays of objects", () => {
+    const listSchema: ConfigSchema = { ITEMS: { type: "object[]" } };
+    expect(validateConfigSchema(listSchema, { ITEMS: [{ a: 1 }] })).toEqual([]);
+    expect(validateConfigSchema(listSchema, { ITEMS: ["a"] })[0]).toContain(
+      "ITEMS: expected object[]"
+    );
+  });
+});
+
+describe("validateFargateTaskSize", () => {
+  it("accepts valid pairs", () => {
+    expect(validateFargateTaskSize("CPU", 8192, "MEM", 16384)).toEqual([]);
+    expect(validateFargateTaskSize("CPU", 256, "MEM", 512)).toEqual([]);
+  });
+
+  it("rejects an invalid memory for the CPU", () => {
+    expect(validateFargateTaskSize("CPU", 8192, "MEM", 8192)).toHaveLength(1);
+  });
+
+  it("rejects an unsupported CPU value", () => {
+    expect(validateFargateTaskSize("CPU", 3000, "MEM", 8192)).toHaveLength(1);
+  });
+});
+
+describe("Dataplane config schemas", () => {
+  it("accept their default values", () => {
+    expect(() => new MRDataplaneConfig()).not.toThrow();
+    expect(() => new TSDataplaneConfig()).not.toThrow();
+    expect(() => new DIDataplaneConfig()).not.toThrow();
+    expect(() => new OSMLVpcConfig()).not.toThrow();
+  });
+
+  it("aggregates every problem into one error", () => {
+    let error: ConfigValidationError | undefined;
+    try {
+      new MRDataplaneConfig({
+        MR_ENABLE_MONITORNG: false,
+        ECS_TASK_CPU: "8192",
+        ECS_TASK_MEMORY: 4096
+      });
+    } catch (e) {
+      error = e as ConfigValidationError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error?.message).toContain("Invalid MRDataplaneConfig");
+    expect(error?.errors).toEqual([
+      "MR_ENABLE_MONITORNG: unknown configuration key (did you mean MR_ENABLE_MONITORING?)",
+      'ECS_TASK_CPU: expected number but received string "8192"',
+      "ECS_CONTAINER_MEMORY: 16384 exceeds ECS_TASK_MEMORY (4096)"
+    ]);
+  });
+
+  it("rejects invalid Fargate CPU and memory pairs", () => {
+    expect(
+      () =>
+        new TSDataplaneConfig({
+          ECS_TASK_CPU: 1024,
+          ECS_TASK_MEMORY: 16384,
+          ECS_CONTAINER_CPU: 1024,
+          ECS_CONTAINER_MEMORY: 2048
+        })
+    ).toThrow(/not a valid Fargate task memory for 1024 CPU units/);
+  });
+});